@@ -1,29 +1,115 @@
-import React, { useState, useEffect } from "react";
+import { useState, useEffect } from "react";
+import { Link, Route, Routes } from "react-router";
+import { isWalletAvailable, switchToChain } from "./utils/walletService";
 import {
-  connectWallet,
-  disconnectWallet,
-  isWalletAvailable,
-  switchToBaseSepolia,
-} from "./utils/walletService";
-import { checkPaymasterService } from "./utils/walletProvider";
-import { useContract } from "./hooks/useContract";
+  NATIVE_DONATION_TOKEN,
+  useContract,
+  type DonationToken,
+} from "./hooks/useContract";
+import { useNetwork } from "./hooks/useNetwork";
+import { useWallet } from "./hooks/useWallet";
+import { useActivity } from "./hooks/useActivity";
+import { useOwner } from "./hooks/useOwner";
 import CreateDonation from "./components/CreateDonation";
 import DonationList from "./components/DonationList";
-import { encodeFunctionData, numberToHex } from "viem";
-import { baseSepolia } from "viem/chains";
-import { FUNDING_ABI, CONTRACT_ADDRESS } from "./utils/Funding";
+import NetworkSelector from "./components/NetworkSelector";
+import RpcHealthIndicator from "./components/RpcHealthIndicator";
+import GasConfirmDialog from "./components/GasConfirmDialog";
+import ActivityDrawer from "./components/ActivityDrawer";
+import DonationCart from "./components/DonationCart";
+import CampaignDetail from "./components/CampaignDetail";
+import CreatorDashboard from "./components/CreatorDashboard";
+import AdminConsole from "./components/AdminConsole";
+import NotFound from "./components/NotFound";
+import {
+  createSendLock,
+  encodeContractCall,
+  executeTransaction,
+  isConfirmationTimeout,
+  type GasEstimate,
+  type TransactionCall,
+  type TransactionEvent,
+} from "./utils/paymentService";
+import {
+  receiptHashes,
+  type ActivityEntry,
+  type TransactionIntent,
+} from "./utils/activityLog";
+import {
+  runPreflight,
+  type ContractCall,
+  type PipelineStage,
+} from "./utils/preflight";
+import { erc20Call, fundingCall } from "./utils/contracts";
+import {
+  publishCampaignMetadata,
+  type CampaignDraft,
+} from "./utils/campaignMetadata";
+import { formatAmount, parseAmount } from "./utils/amount";
+import { payoutStageKey } from "./utils/campaignStatus";
+import {
+  buildCartCalls,
+  cartTotal,
+  checkCart,
+  mapCartResults,
+  type CartItem,
+} from "./utils/donationCart";
+import {
+  ADMIN_PATH,
+  CAMPAIGN_ROUTE,
+  DASHBOARD_PATH,
+  HOME_PATH,
+} from "./utils/routes";
 import "./styles/App.css";
 
+/**
+ * Key of the campaign creation form in the per-action stage map; donations
+ * are keyed by campaign ID
+ */
+const CREATE_KEY = "create";
+
+/**
+ * Key of the donation cart in the per-action stage map
+ */
+const CART_KEY = "cart";
+
 function App() {
-  const [account, setAccount] = useState<string | null>(null);
-  const [provider, setProvider] = useState<any>(null);
-  const [sdk, setSdk] = useState<any>(null);
   const [error, setError] = useState("");
-  const [isLoading, setIsLoading] = useState(false);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
-  const { contractAddress } = useContract();
-
-  const paymasterUrl = import.meta.env.VITE_PAYMASTER_SERVICE_URL;
+  const [stages, setStages] = useState<Record<string, PipelineStage>>({});
+  const [token, setToken] = useState<DonationToken>(NATIVE_DONATION_TOKEN);
+  const [gasPrompt, setGasPrompt] = useState<{
+    estimate: GasEstimate;
+    reason?: string;
+    resolve: (confirmed: boolean) => void;
+  } | null>(null);
+  const { network } = useNetwork();
+  const {
+    account,
+    provider,
+    chainId,
+    transactionMode,
+    isConnecting,
+    error: walletError,
+    connect,
+    disconnect,
+    switchNetwork,
+  } = useWallet();
+  const {
+    client,
+    contractAddress,
+    getDonation,
+    getDonationToken,
+    getAllowance,
+    invalidateCampaigns,
+    invalidateCampaignCount,
+  } = useContract();
+  const activity = useActivity();
+  const { isOwner } = useOwner(account);
+  // Shared by every write so wallet prompts never overlap
+  const [sendLock] = useState(createSendLock);
+
+  const paymasterUrl = network.paymasterUrl;
 
   useEffect(() => {
     if (!isWalletAvailable()) {
@@ -33,210 +119,281 @@ function App() {
     }
   }, []);
 
+  useEffect(() => {
+    getDonationToken()
+      .then(setToken)
+      .catch((err) => {
+        console.error("Error loading donation token:", err);
+        setError("Failed to load donation token details");
+      });
+  }, [getDonationToken]);
+
   const handleConnectWallet = async () => {
     setError("");
-    setIsLoading(true);
-
-    try {
-      const { address, provider: connectedProvider, sdk: connectedSdk } = await connectWallet();
-
-      const switched = await switchToBaseSepolia(connectedProvider);
-      if (!switched) {
-        throw new Error("Failed to switch to Base Sepolia network");
-      }
-
-      const isPaymasterValid = await checkPaymasterService(
-        paymasterUrl,
-        connectedProvider
-      );
-      if (!isPaymasterValid) {
-        throw new Error("Paymaster service not properly configured");
-      }
-
-      setAccount(address);
-      setProvider(connectedProvider);
-      setSdk(connectedSdk);
-      setError("");
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to connect wallet");
-      setAccount(null);
-      setProvider(null);
-      setSdk(null);
-    } finally {
-      setIsLoading(false);
-    }
+    await connect();
   };
 
   const handleDisconnect = async () => {
-    try {
-      if (sdk) {
-        await disconnectWallet(sdk);
+    setError("");
+    await disconnect();
+  };
+
+  /**
+   * Records a lifecycle event in the activity log, creating the entry on the
+   * first submission and updating it as the transaction settles
+   */
+  const trackActivity = (
+    event: TransactionEvent,
+    entry: Pick<ActivityEntry, "mode" | "chainId" | "from" | "intent" | "callCount">,
+    tracked: { id: string | null; hashes: `0x${string}`[] }
+  ) => {
+    // In user-paid mode every submitted ID is a transaction hash
+    const isHash = entry.mode === "sendTransaction";
+
+    if (event.stage === "submitted") {
+      if (isHash) tracked.hashes.push(event.batchId as `0x${string}`);
+
+      if (!tracked.id) {
+        tracked.id = event.batchId;
+        activity.track({
+          ...entry,
+          id: event.batchId,
+          batchId: event.batchId,
+          status: "pending",
+          transactionHashes: [...tracked.hashes],
+          submittedAt: Date.now(),
+        });
+      } else {
+        activity.update(tracked.id, {
+          batchId: event.batchId,
+          transactionHashes: [...tracked.hashes],
+        });
       }
-      setAccount(null);
-      setProvider(null);
-      setSdk(null);
-      setError("");
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to disconnect");
+    } else if (event.stage === "confirmed" && tracked.id) {
+      activity.update(tracked.id, {
+        status: "confirmed",
+        transactionHashes: isHash ? [...tracked.hashes] : receiptHashes(event.status),
+      });
+    } else if (event.stage === "failed" && tracked.id) {
+      // A timeout leaves the transaction pending; the activity log resumes polling for it
+      activity.update(
+        tracked.id,
+        isConfirmationTimeout(event.error)
+          ? { status: "pending" }
+          : { status: "failed", error: event.error.message }
+      );
     }
   };
 
-  const handleCreateDonation = async (amountStr: string, description: string) => {
+  const setStage = (key: string, stage: PipelineStage | null) =>
+    setStages((current) => {
+      const next = { ...current };
+      if (stage) next[key] = stage;
+      else delete next[key];
+      return next;
+    });
+
+  /**
+   * Runs a write for one form or campaign. Writes for different keys run
+   * concurrently; the send lock only serializes what the wallet cannot overlap.
+   * `prepareCalls` adjusts the calls once the lock is held.
+   */
+  const runTransaction = async (
+    key: string,
+    calls: ContractCall[],
+    intent: TransactionIntent,
+    fallbackError: string,
+    prepareCalls?: (calls: TransactionCall[]) => Promise<TransactionCall[]>
+  ) => {
     if (!provider || !account) {
-      setError("Wallet not connected");
-      return;
+      throw new Error("Wallet not connected");
     }
 
-    setError("");
-    setIsLoading(true);
+    // A restored session leaves the wallet on its own chain until a write
+    if (chainId !== network.chain.id && !(await switchToChain(provider, network))) {
+      throw new Error(`Failed to switch to ${network.name} network`);
+    }
 
     try {
-      const amountInWei = BigInt(Math.floor(parseFloat(amountStr) * 1e18));
-
-      const data = encodeFunctionData({
-        abi: FUNDING_ABI,
-        functionName: "createDonation",
-        args: [amountInWei, description],
-      });
+      // Simulate and check sponsorship before the wallet prompts for a signature
+      setStage(key, "simulating");
+      const { mode, sponsorship } = await runPreflight(
+        client,
+        account,
+        calls,
+        transactionMode,
+        paymasterUrl
+      );
 
-      const calls = [
-        {
-          to: contractAddress as `0x${string}`,
-          value: "0x0",
-          data: data,
+      const tracked = { id: null as string | null, hashes: [] as `0x${string}`[] };
+      const activityEntry = {
+        mode,
+        chainId: network.chain.id,
+        from: account,
+        intent,
+        callCount: calls.length,
+      };
+
+      const result = await executeTransaction({
+        provider,
+        from: account,
+        calls: calls.map(({ address, abi, functionName, args }) =>
+          encodeContractCall(address, abi, functionName, args)
+        ),
+        chainId: network.chain.id,
+        paymasterUrl,
+        mode,
+        client,
+        lock: sendLock,
+        prepareCalls:
+          prepareCalls &&
+          (async (encoded) => {
+            const prepared = await prepareCalls(encoded);
+            activityEntry.callCount = prepared.length;
+            return prepared;
+          }),
+        onConfirmGas: (estimate) =>
+          new Promise((resolve) =>
+            setGasPrompt({ estimate, reason: sponsorship.reason, resolve })
+          ),
+        onEvent: (event) => {
+          setStage(key, event.stage === "confirmed" ? null : event.stage);
+          trackActivity(event, activityEntry, tracked);
         },
-      ];
-
-      const batchId = await provider.request({
-        method: "wallet_sendCalls",
-        params: [
-          {
-            version: "1.0",
-            chainId: numberToHex(baseSepolia.id),
-            from: account,
-            calls: calls,
-            capabilities: {
-              paymasterService: {
-                url: paymasterUrl,
-              },
-            },
-          },
-        ],
       });
 
-      if (!batchId) {
-        throw new Error("Failed to get batch ID");
+      // Drop cached reads of what the confirmed write changed before refreshing
+      if (intent.kind === "create") {
+        invalidateCampaignCount();
+      } else {
+        invalidateCampaigns(
+          (intent.kind === "donateBatch" ? intent.campaignIds : [intent.campaignId]).map(
+            BigInt
+          )
+        );
       }
-
-      let confirmed = false;
-      for (let i = 0; i < 60; i++) {
-        const status = await provider.request({
-          method: "wallet_getCallsStatus",
-          params: [batchId],
-        });
-
-        if (status.status === "CONFIRMED") {
-          confirmed = true;
-          break;
-        }
-
-        if (status.status === "FAILED") {
-          throw new Error(`Transaction failed: ${status.error}`);
-        }
-
-        await new Promise((resolve) => setTimeout(resolve, 2000));
-      }
-
-      if (!confirmed) {
-        throw new Error("Transaction confirmation timeout");
-      }
-
       setRefreshTrigger((prev) => prev + 1);
+      return result;
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to create donation");
-      throw err;
+      throw err instanceof Error ? err : new Error(fallbackError);
     } finally {
-      setIsLoading(false);
+      setStage(key, null);
     }
   };
 
-  const handleDonate = async (id: bigint, amountStr: string) => {
-    if (!provider || !account) {
-      setError("Wallet not connected");
-      return;
+  /**
+   * Drops the approval leading a token donation's calls if the allowance
+   * already covers `amount`. Runs while the send lock is held, so donations
+   * sent earlier have already spent or replaced the allowance.
+   */
+  const skipCoveredApproval =
+    (amount: bigint) =>
+    async (calls: TransactionCall[]): Promise<TransactionCall[]> => {
+      if (!token.address || !account) return calls;
+
+      const allowance = await getAllowance(token.address, account);
+      return allowance >= amount ? calls.slice(1) : calls;
+    };
+
+  const handleDonateCart = async (items: CartItem[]) => {
+    if (!account) {
+      throw new Error("Wallet not connected");
     }
 
-    setError("");
-    setIsLoading(true);
-
-    try {
-      const amountInWei = BigInt(Math.floor(parseFloat(amountStr) * 1e18));
-
-      const data = encodeFunctionData({
-        abi: FUNDING_ABI,
-        functionName: "donate",
-        args: [id, amountInWei],
-      });
-
-      const calls = [
-        {
-          to: contractAddress as `0x${string}`,
-          value: "0x0",
-          data: data,
-        },
-      ];
-
-      const batchId = await provider.request({
-        method: "wallet_sendCalls",
-        params: [
-          {
-            version: "1.0",
-            chainId: numberToHex(baseSepolia.id),
-            from: account,
-            calls: calls,
-            capabilities: {
-              paymasterService: {
-                url: paymasterUrl,
-              },
-            },
-          },
-        ],
-      });
+    // Recheck the caps against fresh totals; others may have donated since
+    const ids = items.map(({ campaignId }) => campaignId);
+    invalidateCampaigns(ids);
+    const refused = checkCart(items, await Promise.all(ids.map(getDonation)), token);
+    if (refused) {
+      throw new Error(refused);
+    }
 
-      if (!batchId) {
-        throw new Error("Failed to get batch ID");
-      }
+    const total = cartTotal(items, token.decimals);
+
+    // One approval covers every donate call in the batch
+    const { status } = await runTransaction(
+      CART_KEY,
+      buildCartCalls(items, token.decimals, contractAddress, token.address),
+      {
+        kind: "donateBatch",
+        campaignIds: ids.map((id) => id.toString()),
+        amount: formatAmount(total, token.decimals),
+        symbol: token.symbol,
+      },
+      "Failed to donate",
+      token.address ? skipCoveredApproval(total) : undefined
+    );
+
+    return mapCartResults(items, status, account, contractAddress, token.decimals);
+  };
 
-      let confirmed = false;
-      for (let i = 0; i < 60; i++) {
-        const status = await provider.request({
-          method: "wallet_getCallsStatus",
-          params: [batchId],
-        });
+  const handleCreateDonation = async (amountStr: string, draft: CampaignDraft) => {
+    const amountInWei = parseAmount(amountStr, token.decimals);
+    // Rich details live off-chain; the description holds their content-addressed reference
+    const description = await publishCampaignMetadata(draft);
+
+    await runTransaction(
+      CREATE_KEY,
+      [
+        fundingCall(contractAddress, "createDonation", [amountInWei, description]),
+      ],
+      { kind: "create", description: draft.title, amount: amountStr, symbol: token.symbol },
+      "Failed to create donation"
+    );
+  };
 
-        if (status.status === "CONFIRMED") {
-          confirmed = true;
-          break;
-        }
+  const handleDonate = async (id: bigint, amountStr: string) => {
+    const amountInWei = parseAmount(amountStr, token.decimals);
+    const calls: ContractCall[] = [];
 
-        if (status.status === "FAILED") {
-          throw new Error(`Transaction failed: ${status.error}`);
-        }
+    // Token donations are pulled by the contract, so approve it first; the
+    // approval is dropped if the allowance covers the amount when it is sent
+    if (token.address) {
+      calls.push(erc20Call(token.address, "approve", [contractAddress, amountInWei]));
+    }
 
-        await new Promise((resolve) => setTimeout(resolve, 2000));
-      }
+    calls.push(fundingCall(contractAddress, "donate", [id, amountInWei]));
+
+    await runTransaction(
+      id.toString(),
+      calls,
+      {
+        kind: "donate",
+        campaignId: id.toString(),
+        amount: amountStr,
+        symbol: token.symbol,
+      },
+      "Failed to process donation",
+      token.address ? skipCoveredApproval(amountInWei) : undefined
+    );
+  };
 
-      if (!confirmed) {
-        throw new Error("Transaction confirmation timeout");
-      }
+  const handleWithdraw = async (id: bigint, amount: bigint) => {
+    await runTransaction(
+      payoutStageKey("withdraw", id),
+      [fundingCall(contractAddress, "withdraw", [id])],
+      {
+        kind: "withdraw",
+        campaignId: id.toString(),
+        amount: formatAmount(amount, token.decimals),
+        symbol: token.symbol,
+      },
+      "Failed to withdraw funds"
+    );
+  };
 
-      setRefreshTrigger((prev) => prev + 1);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to process donation");
-      throw err;
-    } finally {
-      setIsLoading(false);
-    }
+  const handleClaimRefund = async (id: bigint, amount: bigint) => {
+    await runTransaction(
+      payoutStageKey("refund", id),
+      [fundingCall(contractAddress, "claimRefund", [id])],
+      {
+        kind: "refund",
+        campaignId: id.toString(),
+        amount: formatAmount(amount, token.decimals),
+        symbol: token.symbol,
+      },
+      "Failed to claim refund"
+    );
   };
 
   return (
@@ -244,17 +401,42 @@ function App() {
       <header className="app-header">
         <div className="header-content">
           <div>
-            <h1 className="header-title">Poolr</h1>
+            <h1 className="header-title">
+              <Link to={HOME_PATH} className="header-link">Poolr</Link>
+            </h1>
             <p className="header-subtitle">Gasless donations powered by Coinbase Paymaster</p>
           </div>
           <div className="wallet-section">
+            <NetworkSelector
+              value={network.id}
+              onChange={switchNetwork}
+              disabled={Object.keys(stages).length > 0 || isConnecting}
+            />
+            <RpcHealthIndicator />
             {account ? (
               <>
+                <DonationCart
+                  token={token}
+                  onSubmit={handleDonateCart}
+                  isAtomic={transactionMode === "sponsored"}
+                  stage={stages[CART_KEY] ?? null}
+                />
+                <ActivityDrawer />
+                <Link to={DASHBOARD_PATH} className="dashboard-link">
+                  Dashboard
+                </Link>
+                {isOwner && (
+                  <Link to={ADMIN_PATH} className="dashboard-link">
+                    Admin
+                  </Link>
+                )}
                 <div className="wallet-info">
                   <span className="wallet-address">
                     {account.slice(0, 6)}...{account.slice(-4)}
                   </span>
-                  <span className="wallet-status">Connected</span>
+                  <span className="wallet-status">
+                    {transactionMode === "sponsored" ? "Connected · Gasless" : "Connected · You pay gas"}
+                  </span>
                 </div>
                 <button className="wallet-button disconnect" onClick={handleDisconnect}>
                   Disconnect
@@ -264,9 +446,9 @@ function App() {
               <button
                 className="wallet-button"
                 onClick={handleConnectWallet}
-                disabled={isLoading || !isWalletAvailable()}
+                disabled={isConnecting || !isWalletAvailable()}
               >
-                {isLoading ? "Connecting..." : "Connect Wallet"}
+                {isConnecting ? "Connecting..." : "Connect Wallet"}
               </button>
             )}
           </div>
@@ -274,34 +456,87 @@ function App() {
       </header>
 
       <main className="app-main">
-        {error && (
+        {(error || walletError) && (
           <div className="error-container">
             <h3>Error</h3>
-            <p>{error}</p>
+            <p>{error || walletError}</p>
           </div>
         )}
 
-        <>
-          <div>
-            <h2 className="main-title">Funding Campaigns</h2>
-            <p className="main-subtitle">
-              Create a new campaign or support existing ones with gasless transactions
-            </p>
-          </div>
-
-          <CreateDonation
-            provider={provider}
-            onCreateDonation={handleCreateDonation}
-            isLoading={isLoading}
+        {gasPrompt && (
+          <GasConfirmDialog
+            estimate={gasPrompt.estimate}
+            reason={gasPrompt.reason}
+            nativeSymbol={network.chain.nativeCurrency.symbol}
+            onConfirm={() => {
+              gasPrompt.resolve(true);
+              setGasPrompt(null);
+            }}
+            onCancel={() => {
+              gasPrompt.resolve(false);
+              setGasPrompt(null);
+            }}
           />
+        )}
+
+        <Routes>
+          <Route
+            path={HOME_PATH}
+            element={
+              <>
+                <div>
+                  <h2 className="main-title">Funding Campaigns</h2>
+                  <p className="main-subtitle">
+                    Create a new campaign or support existing ones with gasless transactions
+                  </p>
+                </div>
 
-          <DonationList
-            provider={provider}
-            onDonate={handleDonate}
-            refreshTrigger={refreshTrigger}
-            isLoading={isLoading}
+                <CreateDonation
+                  token={token}
+                  onCreateDonation={handleCreateDonation}
+                  stage={stages[CREATE_KEY] ?? null}
+                />
+
+                <DonationList
+                  token={token}
+                  onDonate={handleDonate}
+                  isSponsored={transactionMode === "sponsored"}
+                  refreshTrigger={refreshTrigger}
+                  stages={stages}
+                />
+              </>
+            }
+          />
+          <Route
+            path={CAMPAIGN_ROUTE}
+            element={
+              <CampaignDetail
+                token={token}
+                onDonate={handleDonate}
+                isSponsored={transactionMode === "sponsored"}
+                refreshTrigger={refreshTrigger}
+                stages={stages}
+              />
+            }
+          />
+          <Route
+            path={DASHBOARD_PATH}
+            element={
+              <CreatorDashboard
+                token={token}
+                onWithdraw={handleWithdraw}
+                onClaimRefund={handleClaimRefund}
+                refreshTrigger={refreshTrigger}
+                stages={stages}
+              />
+            }
+          />
+          <Route
+            path={ADMIN_PATH}
+            element={<AdminConsole token={token} refreshTrigger={refreshTrigger} />}
           />
-        </>
+          <Route path="*" element={<NotFound />} />
+        </Routes>
       </main>
     </div>
   );
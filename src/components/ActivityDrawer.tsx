@@ -0,0 +1,104 @@
+import React, { useState } from "react";
+import { useActivity } from "../hooks/useActivity";
+import { describeIntent, type ActivityStatus } from "../utils/activityLog";
+import { getNetworkByChainId } from "../utils/networks";
+import "../styles/ActivityDrawer.css";
+
+const STATUS_LABELS: Record<ActivityStatus, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  failed: "Failed",
+};
+
+const shortHash = (hash: string) => `${hash.slice(0, 10)}...${hash.slice(-6)}`;
+
+const ActivityDrawer: React.FC = () => {
+  const { entries, pendingCount, clearFinished } = useActivity();
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <>
+      <button
+        type="button"
+        className="activity-toggle"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+      >
+        Activity
+        {pendingCount > 0 && <span className="activity-badge">{pendingCount}</span>}
+      </button>
+
+      {isOpen && (
+        <aside className="activity-drawer" aria-label="Transaction activity">
+          <div className="activity-header">
+            <h3 className="activity-title">Activity</h3>
+            <button
+              type="button"
+              className="activity-close"
+              onClick={() => setIsOpen(false)}
+              aria-label="Close activity"
+            >
+              ×
+            </button>
+          </div>
+
+          {entries.length === 0 ? (
+            <p className="activity-empty">No transactions yet.</p>
+          ) : (
+            <ul className="activity-list">
+              {entries.map((entry) => {
+                const network = getNetworkByChainId(entry.chainId);
+
+                return (
+                  <li key={entry.id} className={`activity-item ${entry.status}`}>
+                    <div className="activity-item-header">
+                      <span className="activity-status">
+                        {STATUS_LABELS[entry.status]}
+                      </span>
+                      <span className="activity-time">
+                        {new Date(entry.submittedAt).toLocaleString()}
+                      </span>
+                    </div>
+                    <p className="activity-intent">{describeIntent(entry.intent)}</p>
+                    <span className="activity-network">
+                      {network?.name ?? `Chain ${entry.chainId}`}
+                      {entry.mode === "sponsored" ? " · Gasless" : ""}
+                    </span>
+                    {entry.error && <p className="activity-error">{entry.error}</p>}
+                    {entry.transactionHashes.length > 0 && (
+                      <ul className="activity-links">
+                        {entry.transactionHashes.map((hash) => (
+                          <li key={hash}>
+                            {network?.explorerUrl ? (
+                              <a
+                                href={`${network.explorerUrl}/tx/${hash}`}
+                                target="_blank"
+                                rel="noreferrer"
+                              >
+                                {shortHash(hash)}
+                              </a>
+                            ) : (
+                              shortHash(hash)
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {entries.length > pendingCount && (
+            <button type="button" className="activity-clear" onClick={clearFinished}>
+              Clear finished
+            </button>
+          )}
+        </aside>
+      )}
+    </>
+  );
+};
+
+export default ActivityDrawer;
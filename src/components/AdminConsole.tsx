@@ -0,0 +1,322 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router";
+import { useContract, type DonationToken } from "../hooks/useContract";
+import { useModeration } from "../hooks/useModeration";
+import { useNetwork } from "../hooks/useNetwork";
+import { useOwner } from "../hooks/useOwner";
+import { usePageMetadata } from "../hooks/usePageMetadata";
+import { useWallet } from "../hooks/useWallet";
+import { formatAmount } from "../utils/amount";
+import { campaignTitle } from "../utils/campaignMetadata";
+import { downloadFile, toJson } from "../utils/exportFile";
+import {
+  MODERATION_LABELS,
+  parseModerationList,
+  type ModerationAction,
+} from "../utils/moderation";
+import {
+  buildPlatformStats,
+  platformReportCsv,
+  platformReportJson,
+  type PlatformStats,
+} from "../utils/platformStats";
+import { campaignPath } from "../utils/routes";
+import CampaignTitle from "./CampaignTitle";
+import "../styles/AdminConsole.css";
+
+interface AdminConsoleProps {
+  token: DonationToken;
+  refreshTrigger?: number;
+}
+
+/**
+ * Owner-only console for moderating campaigns in this front-end, reviewing
+ * platform statistics and exporting reports
+ */
+const AdminConsole: React.FC<AdminConsoleProps> = ({ token, refreshTrigger = 0 }) => {
+  const { account } = useWallet();
+  const { owner, isOwner, isLoading: isLoadingOwner } = useOwner(account);
+  const { getIndexedEvents } = useContract();
+  const { network } = useNetwork();
+  const moderation = useModeration();
+  const [stats, setStats] = useState<PlatformStats | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+
+  usePageMetadata({ title: "Admin · Poolr" });
+
+  const refresh = useCallback(async () => {
+    if (!isOwner) return;
+
+    setIsLoading(true);
+    setError("");
+
+    try {
+      setStats(buildPlatformStats(await getIndexedEvents()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load statistics");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isOwner, getIndexedEvents]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, refreshTrigger]);
+
+  if (!account) {
+    return (
+      <div className="empty-state">
+        <p>Connect the contract owner's wallet to open the admin console.</p>
+      </div>
+    );
+  }
+
+  if (isLoadingOwner) {
+    return <div className="loading">Checking contract owner...</div>;
+  }
+
+  if (!isOwner) {
+    return (
+      <div className="empty-state">
+        <p>
+          Only the contract owner
+          {owner ? ` (${owner.slice(0, 6)}...${owner.slice(-4)})` : ""} can open the
+          admin console.
+        </p>
+      </div>
+    );
+  }
+
+  const format = (value: bigint) =>
+    `${formatAmount(value, token.decimals)} ${token.symbol}`;
+  const filename = (extension: string) =>
+    `poolr-report-${network.id}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+  const handleModerate = (campaignId: bigint, action: ModerationAction | null) => {
+    moderation.moderate(campaignId, action, reasons[campaignId.toString()]);
+    setReasons((current) => ({ ...current, [campaignId.toString()]: "" }));
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      moderation.replace(parseModerationList(JSON.parse(await file.text())));
+      setError("");
+    } catch (err) {
+      console.log(`Error importing moderation list: ${err}`);
+      setError("The moderation list could not be read");
+    }
+  };
+
+  return (
+    <div className="admin-console">
+      <div className="admin-header">
+        <h2 className="main-title">Admin console</h2>
+        <div className="admin-actions">
+          <button
+            type="button"
+            className="admin-button"
+            disabled={!stats}
+            onClick={() =>
+              stats &&
+              downloadFile(
+                filename("csv"),
+                platformReportCsv(stats, moderation.entries, token, campaignTitle),
+                "text/csv"
+              )
+            }
+          >
+            Export CSV
+          </button>
+          <button
+            type="button"
+            className="admin-button"
+            disabled={!stats}
+            onClick={() =>
+              stats &&
+              downloadFile(
+                filename("json"),
+                platformReportJson(stats, moderation.entries, token, {
+                  chainId: network.chain.id,
+                  fundingAddress: network.fundingAddress,
+                }),
+                "application/json"
+              )
+            }
+          >
+            Export JSON
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="error-banner">{error}</div>}
+
+      {isLoading && !stats ? (
+        <div className="loading">Indexing platform activity...</div>
+      ) : stats ? (
+        <>
+          <dl className="admin-stats">
+            <div>
+              <dt>Campaigns</dt>
+              <dd>{stats.campaigns}</dd>
+            </div>
+            <div>
+              <dt>Creators</dt>
+              <dd>{stats.uniqueCreators}</dd>
+            </div>
+            <div>
+              <dt>Donations</dt>
+              <dd>{stats.donations}</dd>
+            </div>
+            <div>
+              <dt>Unique donors</dt>
+              <dd>{stats.uniqueDonors}</dd>
+            </div>
+            <div>
+              <dt>Total raised</dt>
+              <dd>{format(stats.totalRaised)}</dd>
+            </div>
+            <div>
+              <dt>Withdrawn</dt>
+              <dd>{format(stats.totalWithdrawn)}</dd>
+            </div>
+            <div>
+              <dt>Refunded</dt>
+              <dd>{format(stats.totalRefunded)}</dd>
+            </div>
+          </dl>
+
+          <section className="admin-section">
+            <div className="admin-section-header">
+              <h3 className="admin-section-title">Moderation</h3>
+              <div className="admin-actions">
+                <button
+                  type="button"
+                  className="admin-button"
+                  onClick={() =>
+                    downloadFile(
+                      `poolr-moderation-${network.id}.json`,
+                      toJson(Object.values(moderation.entries)),
+                      "application/json"
+                    )
+                  }
+                >
+                  Export list
+                </button>
+                <label className="admin-button">
+                  Import list
+                  <input
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={handleImport}
+                    hidden
+                  />
+                </label>
+              </div>
+            </div>
+            <p className="admin-note">
+              Hidden and flagged campaigns only change how this app displays them;
+              nothing is changed on-chain.
+            </p>
+
+            {stats.campaignReports.length === 0 ? (
+              <div className="empty-state">
+                <p>No campaigns have been created yet.</p>
+              </div>
+            ) : (
+              <table className="admin-table">
+                <thead>
+                  <tr>
+                    <th>Campaign</th>
+                    <th>Creator</th>
+                    <th>Raised</th>
+                    <th>Donors</th>
+                    <th>Moderation</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.campaignReports.map((report) => {
+                    const key = report.campaignId.toString();
+                    const decision = moderation.entries[key];
+
+                    return (
+                      <tr key={key} className={decision ? `moderated-${decision.action}` : ""}>
+                        <td>
+                          <Link to={campaignPath(report.campaignId, network.id)}>
+                            #{key} <CampaignTitle description={report.description} />
+                          </Link>
+                        </td>
+                        <td className="admin-address">
+                          {report.creator.slice(0, 6)}...{report.creator.slice(-4)}
+                        </td>
+                        <td>
+                          {format(report.raised)} / {format(report.targetAmount)}
+                        </td>
+                        <td>{report.donors}</td>
+                        <td>
+                          {decision ? (
+                            <div className="moderation-state">
+                              <span className={`moderation-badge ${decision.action}`}>
+                                {MODERATION_LABELS[decision.action]}
+                              </span>
+                              {decision.reason && (
+                                <span className="moderation-reason">{decision.reason}</span>
+                              )}
+                              <button
+                                type="button"
+                                className="admin-link-button"
+                                onClick={() => handleModerate(report.campaignId, null)}
+                              >
+                                Restore
+                              </button>
+                            </div>
+                          ) : (
+                            <div className="moderation-controls">
+                              <input
+                                type="text"
+                                placeholder="Reason (optional)"
+                                value={reasons[key] ?? ""}
+                                onChange={(e) =>
+                                  setReasons((current) => ({
+                                    ...current,
+                                    [key]: e.target.value,
+                                  }))
+                                }
+                                className="moderation-input"
+                              />
+                              <button
+                                type="button"
+                                className="admin-link-button"
+                                onClick={() => handleModerate(report.campaignId, "flagged")}
+                              >
+                                Flag
+                              </button>
+                              <button
+                                type="button"
+                                className="admin-link-button"
+                                onClick={() => handleModerate(report.campaignId, "hidden")}
+                              >
+                                Hide
+                              </button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </>
+      ) : null}
+    </div>
+  );
+};
+
+export default AdminConsole;
@@ -0,0 +1,288 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Link, useLocation, useParams } from "react-router";
+import type { DonationToken } from "../hooks/useContract";
+import { useCampaign } from "../hooks/useCampaign";
+import { useCart } from "../hooks/useCart";
+import { useCampaignMetadata } from "../hooks/useCampaignMetadata";
+import { useClock } from "../hooks/useClock";
+import { useLiveFundingEvents } from "../hooks/useLiveFundingEvents";
+import { useModeration } from "../hooks/useModeration";
+import { useNetwork } from "../hooks/useNetwork";
+import { useOwner } from "../hooks/useOwner";
+import { usePageMetadata } from "../hooks/usePageMetadata";
+import { useWallet } from "../hooks/useWallet";
+import { formatAmount, percentOf } from "../utils/amount";
+import {
+  CAMPAIGN_CATEGORIES,
+  excerpt,
+  toGatewayUrl,
+} from "../utils/campaignMetadata";
+import {
+  CAMPAIGN_STATUS_NOTICE,
+  contentDeadline,
+  getCampaignStatus,
+} from "../utils/campaignStatus";
+import type { PipelineStage } from "../utils/preflight";
+import {
+  campaignUrl,
+  HOME_PATH,
+  parseCampaignId,
+  parseNetworkParam,
+} from "../utils/routes";
+import CampaignExport from "./CampaignExport";
+import CampaignHistory from "./CampaignHistory";
+import CampaignStatusBadge from "./CampaignStatusBadge";
+import DonateForm from "./DonateForm";
+import MarkdownText from "./MarkdownText";
+import NotFound from "./NotFound";
+import "../styles/CampaignDetail.css";
+
+interface CampaignDetailProps {
+  token: DonationToken;
+  onDonate: (id: bigint, amount: string) => Promise<void>;
+  isSponsored?: boolean;
+  refreshTrigger?: number;
+  /** In-flight donation stages keyed by campaign ID */
+  stages?: Record<string, PipelineStage>;
+}
+
+const CampaignDetail: React.FC<CampaignDetailProps> = ({
+  token,
+  onDonate,
+  isSponsored = true,
+  refreshTrigger = 0,
+  stages = {},
+}) => {
+  const params = useParams();
+  const id = parseCampaignId(params.id);
+  const { donation, notFound, isLoading: isLoadingCampaign, error, refresh } =
+    useCampaign(id);
+  const { network, setNetworkId } = useNetwork();
+  const linkedNetworkId = parseNetworkParam(useLocation().search);
+  const [copied, setCopied] = useState(false);
+  const cart = useCart();
+  const { account } = useWallet();
+  const { isOwner } = useOwner(account);
+  const { entries: moderation } = useModeration();
+  const decision = id !== null ? moderation[id.toString()] : undefined;
+  const content = useCampaignMetadata(donation?.description ?? "");
+  const metadata = content.status === "resolved" ? content.metadata : null;
+  const deadline = donation ? contentDeadline(donation, content) : null;
+  const now = useClock(deadline ?? null);
+
+  // Show the campaign on the network its link names
+  useEffect(() => {
+    if (linkedNetworkId) setNetworkId(linkedNetworkId);
+  }, [linkedNetworkId, setNetworkId]);
+
+  useEffect(() => {
+    if (refreshTrigger > 0) refresh();
+  }, [refreshTrigger, refresh]);
+
+  const liveHandlers = useMemo(
+    () => ({
+      onDonationMade: ({ campaignId }: { campaignId: bigint }) => {
+        if (campaignId === id) refresh();
+      },
+    }),
+    [id, refresh]
+  );
+  useLiveFundingEvents(liveHandlers);
+
+  const targetAmount = donation
+    ? formatAmount(donation.targetAmount, token.decimals)
+    : "";
+  const totalDonated = donation
+    ? formatAmount(donation.totalDonated, token.decimals)
+    : "";
+
+  usePageMetadata({
+    title: donation ? `${content.title} · Poolr` : "Campaign · Poolr",
+    description: donation
+      ? [
+          metadata?.body && excerpt(metadata.body),
+          `${totalDonated} of ${targetAmount} ${token.symbol} raised on Poolr. Donate without paying gas.`,
+        ]
+          .filter(Boolean)
+          .join(" ")
+      : undefined,
+    url: id !== null ? campaignUrl(id, network.id) : undefined,
+  });
+
+  if (notFound || id === null) {
+    return (
+      <NotFound
+        title="Campaign not found"
+        message={`There is no campaign #${params.id} on ${network.name}.`}
+      />
+    );
+  }
+
+  if (decision?.action === "hidden" && !isOwner) {
+    return (
+      <NotFound
+        title="Campaign hidden"
+        message="This campaign has been hidden by the platform's moderators."
+      />
+    );
+  }
+
+  if (!donation) {
+    return isLoadingCampaign ? (
+      <div className="loading">Loading campaign...</div>
+    ) : (
+      <div className="error-banner">{error || "Failed to load campaign"}</div>
+    );
+  }
+
+  const progress = percentOf(donation.totalDonated, donation.targetAmount);
+  const status = getCampaignStatus(donation, deadline, now);
+  const createdAt = new Date(Number(donation.timestamp) * 1000);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(campaignUrl(id, network.id));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.log(`Error copying campaign link: ${err}`);
+    }
+  };
+
+  return (
+    <div className="campaign-detail">
+      <Link to={HOME_PATH} className="back-link">
+        ← All campaigns
+      </Link>
+
+      {error && <div className="error-banner">{error}</div>}
+      {decision && (
+        <div className="error-banner">
+          {decision.action === "hidden"
+            ? "Hidden from other visitors by moderation"
+            : "This campaign has been flagged by the platform"}
+          {decision.reason ? `: ${decision.reason}` : ""}
+        </div>
+      )}
+
+      <article className="detail-card">
+        {metadata?.image && (
+          <img className="detail-cover" src={toGatewayUrl(metadata.image)} alt="" />
+        )}
+        <header className="detail-header">
+          <span className="detail-id">Campaign #{id.toString()}</span>
+          <CampaignStatusBadge status={status} deadline={deadline} now={now} />
+          {metadata && (
+            <span className="detail-id detail-category">
+              {CAMPAIGN_CATEGORIES[metadata.category]}
+            </span>
+          )}
+          <h2 className="detail-title">{content.title}</h2>
+          <dl className="detail-meta">
+            <dt>Creator</dt>
+            <dd>
+              {network.explorerUrl ? (
+                <a
+                  href={`${network.explorerUrl}/address/${donation.creator}`}
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  {donation.creator}
+                </a>
+              ) : (
+                donation.creator
+              )}
+            </dd>
+            <dt>Created</dt>
+            <dd>
+              <time dateTime={createdAt.toISOString()}>
+                {createdAt.toLocaleString()}
+              </time>
+            </dd>
+            {deadline !== null && deadline !== undefined && (
+              <>
+                <dt>{now < deadline ? "Ends" : "Ended"}</dt>
+                <dd>
+                  <time dateTime={new Date(Number(deadline) * 1000).toISOString()}>
+                    {new Date(Number(deadline) * 1000).toLocaleString()}
+                  </time>
+                </dd>
+              </>
+            )}
+          </dl>
+          <p className="detail-advisory">{CAMPAIGN_STATUS_NOTICE}</p>
+        </header>
+
+        {content.status === "loading" && (
+          <p className="detail-notice">Loading campaign details...</p>
+        )}
+        {content.status === "unavailable" && (
+          <p className="detail-notice">
+            Campaign details could not be loaded: {content.error}
+          </p>
+        )}
+        {metadata?.body && <MarkdownText markdown={metadata.body} />}
+        {metadata && metadata.links.length > 0 && (
+          <ul className="detail-links">
+            {metadata.links.map((link) => (
+              <li key={link.url}>
+                <a href={link.url} target="_blank" rel="noreferrer nofollow">
+                  {link.label}
+                </a>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <section className="progress-section">
+          <div className="progress-info">
+            <span className="progress-label">Progress · {progress}%</span>
+            <span className="progress-amount">
+              {totalDonated} / {targetAmount} {token.symbol}
+            </span>
+          </div>
+          <div className="progress-bar">
+            <div
+              className="progress-fill"
+              style={{ width: `${Math.min(progress, 100)}%` }}
+            ></div>
+          </div>
+        </section>
+
+        <DonateForm
+          id={id}
+          token={token}
+          onDonate={onDonate}
+          onAddToCart={(amount) =>
+            cart.add({ campaignId: id, description: content.title, amount })
+          }
+          isSponsored={isSponsored}
+          stage={stages[id.toString()] ?? null}
+          donation={donation}
+          status={status}
+        />
+
+        <button type="button" className="share-button" onClick={handleCopyLink}>
+          {copied ? "Link copied!" : "Copy link"}
+        </button>
+
+        <CampaignExport
+          loadCampaigns={async () => [{ id, donation }]}
+          token={token}
+          filename={`poolr-campaign-${id}`}
+        />
+
+        <section>
+          <h3 className="detail-section-title">Contributors</h3>
+          <CampaignHistory
+            key={donation.totalDonated.toString()}
+            id={id}
+            token={token}
+          />
+        </section>
+      </article>
+    </div>
+  );
+};
+
+export default CampaignDetail;
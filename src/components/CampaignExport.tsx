@@ -0,0 +1,123 @@
+import React, { useState } from "react";
+import {
+  useContract,
+  type DonationToken,
+  type DonationWithId,
+} from "../hooks/useContract";
+import { campaignTitle, resolveCampaign } from "../utils/campaignMetadata";
+import { campaignsCsv, campaignsJson, donationsCsv } from "../utils/campaignExport";
+import { downloadFile } from "../utils/exportFile";
+import type { DonationRecord } from "../utils/logIndexer";
+import "../styles/CampaignExport.css";
+
+interface CampaignExportProps {
+  /**
+   * Loads every campaign to export, not just those rendered so far; their
+   * donation history is added from the indexer
+   */
+  loadCampaigns: () => Promise<DonationWithId[]>;
+  token: DonationToken;
+  /** File name without extension, e.g. "poolr-campaign-3" */
+  filename: string;
+}
+
+type ExportFormat = "campaignsCsv" | "donationsCsv" | "json";
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  campaignsCsv: "Campaigns CSV",
+  donationsCsv: "Donations CSV",
+  json: "JSON",
+};
+
+/**
+ * Buttons that download campaigns and their DonationMade history as CSV or JSON
+ *
+ * Campaign metadata is resolved before exporting, so titles are only left as
+ * "Untitled campaign" when their metadata could not be fetched, and the
+ * export then says how many.
+ */
+const CampaignExport: React.FC<CampaignExportProps> = ({
+  loadCampaigns,
+  token,
+  filename,
+}) => {
+  const { getIndexedEvents } = useContract();
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  /**
+   * Loads the donations to the exported campaigns, in the order they were indexed
+   */
+  const loadDonations = async (campaigns: DonationWithId[]): Promise<DonationRecord[]> => {
+    const ids = new Set(campaigns.map(({ id }) => id));
+    const { donations } = await getIndexedEvents();
+    return donations.filter(({ campaignId }) => ids.has(campaignId));
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    setError("");
+    setNotice("");
+
+    try {
+      const campaigns = await loadCampaigns();
+      const contents = await Promise.all(
+        campaigns.map(({ donation }) => resolveCampaign(donation.description))
+      );
+      const untitled = contents.filter(({ status }) => status === "unavailable").length;
+      if (untitled > 0) {
+        setNotice(
+          `Details of ${untitled} of ${campaigns.length} campaigns could not be loaded; ` +
+            "they are exported as untitled"
+        );
+      }
+
+      if (format === "campaignsCsv") {
+        downloadFile(
+          `${filename}-campaigns.csv`,
+          campaignsCsv(campaigns, token, campaignTitle),
+          "text/csv"
+        );
+      } else if (format === "donationsCsv") {
+        downloadFile(
+          `${filename}-donations.csv`,
+          donationsCsv(await loadDonations(campaigns), token),
+          "text/csv"
+        );
+      } else {
+        downloadFile(
+          `${filename}.json`,
+          campaignsJson(campaigns, await loadDonations(campaigns), token, campaignTitle),
+          "application/json"
+        );
+      }
+    } catch (err) {
+      console.log(`Error exporting campaigns: ${err}`);
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="campaign-export">
+      <span className="export-label">Export</span>
+      {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((format) => (
+        <button
+          key={format}
+          type="button"
+          className="export-button"
+          onClick={() => handleExport(format)}
+          disabled={exporting !== null}
+        >
+          {exporting === format ? "Exporting..." : FORMAT_LABELS[format]}
+        </button>
+      ))}
+      {error && <span className="export-error">{error}</span>}
+      {notice && <span className="export-notice">{notice}</span>}
+    </div>
+  );
+};
+
+export default CampaignExport;
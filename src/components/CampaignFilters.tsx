@@ -0,0 +1,111 @@
+import React from "react";
+import {
+  CAMPAIGN_FILTERS,
+  CAMPAIGN_SORTS,
+  DEFAULT_CAMPAIGN_QUERY,
+  isDefaultCampaignQuery,
+  type CampaignFilter,
+  type CampaignQuery,
+  type CampaignSort,
+} from "../utils/campaignQuery";
+import "../styles/CampaignFilters.css";
+
+interface CampaignFiltersProps {
+  query: CampaignQuery;
+  onChange: (changes: Partial<CampaignQuery>) => void;
+  /** Whether a wallet is connected, required by the "mine" filter */
+  hasAccount?: boolean;
+  shownCount: number;
+  loadedCount: number;
+  /** Whether campaigns not loaded yet are being loaded for the query */
+  isLoadingAll?: boolean;
+}
+
+const CampaignFilters: React.FC<CampaignFiltersProps> = ({
+  query,
+  onChange,
+  hasAccount = false,
+  shownCount,
+  loadedCount,
+  isLoadingAll = false,
+}) => {
+  const isDefault = isDefaultCampaignQuery(query);
+
+  return (
+    <div className="campaign-filters">
+      <input
+        type="search"
+        className="filter-input filter-search"
+        placeholder="Search campaigns"
+        value={query.search}
+        onChange={(e) => onChange({ search: e.target.value })}
+        aria-label="Search campaigns"
+      />
+
+      <label className="filter-field">
+        <span className="filter-label">Show</span>
+        <select
+          className="filter-select"
+          value={query.filter}
+          onChange={(e) => onChange({ filter: e.target.value as CampaignFilter })}
+        >
+          {Object.entries(CAMPAIGN_FILTERS).map(([value, label]) => (
+            <option
+              key={value}
+              value={value}
+              disabled={value === "mine" && !hasAccount}
+            >
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="filter-field">
+        <span className="filter-label">Creator</span>
+        <input
+          type="text"
+          className="filter-input"
+          placeholder="0x..."
+          value={query.creator}
+          onChange={(e) => onChange({ creator: e.target.value })}
+          spellCheck={false}
+        />
+      </label>
+
+      <label className="filter-field">
+        <span className="filter-label">Sort by</span>
+        <select
+          className="filter-select"
+          value={query.sort}
+          onChange={(e) => onChange({ sort: e.target.value as CampaignSort })}
+        >
+          {Object.entries(CAMPAIGN_SORTS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="filter-summary">
+        <span>
+          {isLoadingAll
+            ? "Searching all campaigns..."
+            : `${shownCount} of ${loadedCount} loaded`}
+        </span>
+        {!isDefault && (
+          <button
+            type="button"
+            className="filter-reset"
+            onClick={() => onChange(DEFAULT_CAMPAIGN_QUERY)}
+          >
+            Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CampaignFilters;
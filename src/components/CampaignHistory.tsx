@@ -0,0 +1,88 @@
+import React from "react";
+import type { DonationToken } from "../hooks/useContract";
+import { useCampaignHistory } from "../hooks/useCampaignHistory";
+import { useNetwork } from "../hooks/useNetwork";
+import { formatAmount } from "../utils/amount";
+import "../styles/CampaignHistory.css";
+
+interface CampaignHistoryProps {
+  id: bigint;
+  token: DonationToken;
+}
+
+const shortAddress = (address: string) =>
+  `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const CampaignHistory: React.FC<CampaignHistoryProps> = ({ id, token }) => {
+  const { history, isLoading, error } = useCampaignHistory(id);
+  const { network } = useNetwork();
+
+  if (isLoading && !history) {
+    return <div className="history-loading">Loading contributors...</div>;
+  }
+
+  if (error) {
+    return <p className="error-message">{error}</p>;
+  }
+
+  if (!history || history.donations.length === 0) {
+    return <div className="history-empty">No donations yet.</div>;
+  }
+
+  return (
+    <div className="campaign-history">
+      <div className="history-section">
+        <h4 className="history-heading">
+          Contributors ({history.contributors.length})
+        </h4>
+        <ul className="contributor-list">
+          {history.contributors.map(({ donor, total, count }) => (
+            <li key={donor} className="contributor-item">
+              <span className="contributor-address">{shortAddress(donor)}</span>
+              <span className="contributor-total">
+                {formatAmount(total, token.decimals)} {token.symbol}
+                {count > 1 && ` (${count}x)`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="history-section">
+        <h4 className="history-heading">Timeline</h4>
+        <ol className="timeline">
+          {[...history.donations].reverse().map((donation) => (
+            <li
+              key={`${donation.transactionHash}-${donation.logIndex}`}
+              className="timeline-item"
+            >
+              <span className="timeline-date">
+                {new Date(Number(donation.timestamp) * 1000).toLocaleString()}
+              </span>
+              <span className="timeline-detail">
+                {shortAddress(donation.donor)} gave{" "}
+                {formatAmount(donation.amount, token.decimals)} {token.symbol}
+              </span>
+              {network.explorerUrl ? (
+                <a
+                  className="timeline-link"
+                  href={`${network.explorerUrl}/tx/${donation.transactionHash}`}
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  {shortAddress(donation.transactionHash)}
+                </a>
+              ) : (
+                <span className="timeline-link">
+                  {shortAddress(donation.transactionHash)}
+                </span>
+              )}
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+};
+
+export default CampaignHistory;
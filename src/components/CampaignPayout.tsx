@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from "react";
+import { useContract, type Donation, type DonationToken } from "../hooks/useContract";
+import { useCampaignMetadata } from "../hooks/useCampaignMetadata";
+import { useClock } from "../hooks/useClock";
+import { useWallet } from "../hooks/useWallet";
+import { formatAmount } from "../utils/amount";
+import {
+  allowsRefund,
+  allowsWithdrawal,
+  contentDeadline,
+  getCampaignStatus,
+  type PayoutKind,
+} from "../utils/campaignStatus";
+import type { PayoutCheck } from "../utils/payouts";
+import type { PipelineStage } from "../utils/preflight";
+import TransactionProgress from "./TransactionProgress";
+import "../styles/CampaignPayout.css";
+
+interface CampaignPayoutProps {
+  /** Creator withdrawal or donor refund */
+  kind: PayoutKind;
+  id: bigint;
+  donation: Donation;
+  /** What can be paid out: raised minus withdrawn, or the donor's contribution */
+  amount: bigint;
+  token: DonationToken;
+  onSubmit: (id: bigint, amount: bigint) => Promise<void>;
+  /** Progress of this payout, if one is in flight */
+  stage?: PipelineStage | null;
+}
+
+/**
+ * Withdraw or refund button for a campaign, enabled only when the contract
+ * would accept the payout, as checked by simulating it. The campaign status
+ * computed here is advisory and only explains why a payout is unavailable.
+ */
+const CampaignPayout: React.FC<CampaignPayoutProps> = ({
+  kind,
+  id,
+  donation,
+  amount,
+  token,
+  onSubmit,
+  stage = null,
+}) => {
+  const { account } = useWallet();
+  const { checkPayout } = useContract();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+  const [check, setCheck] = useState<PayoutCheck | null>(null);
+  const content = useCampaignMetadata(donation.description);
+  const deadline = contentDeadline(donation, content);
+  const now = useClock(deadline ?? null);
+  const status = getCampaignStatus(donation, deadline, now);
+
+  const isOpen = kind === "withdraw" ? allowsWithdrawal(status) : allowsRefund(status);
+
+  useEffect(() => {
+    if (!account || amount <= 0n) return;
+
+    let cancelled = false;
+    setCheck(null);
+    checkPayout(kind, id, account).then((result) => {
+      if (!cancelled) setCheck(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [account, amount, checkPayout, id, kind]);
+
+  const formatted = `${formatAmount(amount, token.decimals)} ${token.symbol}`;
+
+  const handleClick = async () => {
+    setIsSubmitting(true);
+    setError("");
+
+    try {
+      await onSubmit(id, amount);
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : kind === "withdraw"
+            ? "Withdrawal failed"
+            : "Refund failed"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (amount <= 0n) {
+    return (
+      <span className="payout-hint">
+        {kind === "withdraw" ? "All funds withdrawn" : "Nothing left to refund"}
+      </span>
+    );
+  }
+
+  if (!check || !check.allowed) {
+    const hint = !check
+      ? "Checking with the contract..."
+      : isOpen
+        ? check.reason
+        : kind === "withdraw"
+          ? "Withdrawals open once the goal is reached"
+          : allowsWithdrawal(status)
+            ? "Goal reached, no refunds"
+            : "Refundable if the goal is missed";
+
+    return <span className="payout-hint">{hint}</span>;
+  }
+
+  return (
+    <div className="campaign-payout">
+      <button
+        type="button"
+        className="payout-button"
+        onClick={handleClick}
+        disabled={isSubmitting || stage !== null}
+      >
+        {isSubmitting
+          ? "Processing..."
+          : kind === "withdraw"
+            ? `Withdraw ${formatted}`
+            : `Claim ${formatted} refund`}
+      </button>
+      <TransactionProgress stage={stage} />
+      {error && <p className="error-message">{error}</p>}
+    </div>
+  );
+};
+
+export default CampaignPayout;
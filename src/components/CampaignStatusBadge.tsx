@@ -0,0 +1,39 @@
+import React from "react";
+import {
+  CAMPAIGN_STATUS_LABELS,
+  CAMPAIGN_STATUS_NOTICE,
+  formatCountdown,
+  type CampaignStatus,
+} from "../utils/campaignStatus";
+import "../styles/CampaignStatusBadge.css";
+
+interface CampaignStatusBadgeProps {
+  status: CampaignStatus;
+  /** Deadline in unix seconds, counted down to while it has not passed */
+  deadline: bigint | null | undefined;
+  /** Current time in unix seconds */
+  now: bigint;
+}
+
+const CampaignStatusBadge: React.FC<CampaignStatusBadgeProps> = ({
+  status,
+  deadline,
+  now,
+}) => (
+  <span className="campaign-status">
+    <span className={`status-badge status-${status}`} title={CAMPAIGN_STATUS_NOTICE}>
+      {CAMPAIGN_STATUS_LABELS[status]}
+    </span>
+    {deadline !== null && deadline !== undefined && now < deadline && (
+      <time
+        className="status-countdown"
+        dateTime={new Date(Number(deadline) * 1000).toISOString()}
+        title={new Date(Number(deadline) * 1000).toLocaleString()}
+      >
+        {formatCountdown(deadline - now)} left
+      </time>
+    )}
+  </span>
+);
+
+export default CampaignStatusBadge;
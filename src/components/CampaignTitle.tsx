@@ -0,0 +1,16 @@
+import React from "react";
+import { useCampaignMetadata } from "../hooks/useCampaignMetadata";
+
+interface CampaignTitleProps {
+  /** The campaign's on-chain description */
+  description: string;
+}
+
+/**
+ * Renders a campaign's title, resolving off-chain details when needed
+ */
+const CampaignTitle: React.FC<CampaignTitleProps> = ({ description }) => (
+  <>{useCampaignMetadata(description).title}</>
+);
+
+export default CampaignTitle;
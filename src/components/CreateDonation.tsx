@@ -1,36 +1,80 @@
 import React, { useState } from "react";
+import type { DonationToken } from "../hooks/useContract";
+import { validateAmount } from "../utils/amount";
+import {
+  CAMPAIGN_CATEGORIES,
+  isMetadataStorageConfigured,
+  parseLinkLines,
+  type CampaignCategory,
+  type CampaignDraft,
+} from "../utils/campaignMetadata";
+import type { PipelineStage } from "../utils/preflight";
+import TransactionProgress from "./TransactionProgress";
 import "../styles/CreateDonation.css";
 
 interface CreateDonationProps {
-  provider: any;
-  onCreateDonation: (amount: string, description: string) => Promise<void>;
-  isLoading?: boolean;
+  token: DonationToken;
+  onCreateDonation: (amount: string, draft: CampaignDraft) => Promise<void>;
+  /** Progress of this form's write, if one is in flight */
+  stage?: PipelineStage | null;
 }
 
 const CreateDonation: React.FC<CreateDonationProps> = ({
-  provider,
+  token,
   onCreateDonation,
-  isLoading = false,
+  stage = null,
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [amount, setAmount] = useState("");
-  const [description, setDescription] = useState("");
+  const [title, setTitle] = useState("");
+  const [category, setCategory] = useState<CampaignCategory>("community");
+  const [image, setImage] = useState("");
+  const [body, setBody] = useState("");
+  const [links, setLinks] = useState("");
+  const [deadline, setDeadline] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState("");
   const [success, setSuccess] = useState("");
+  const amountError = amount ? validateAmount(amount, token.decimals) : null;
+  const hasRichDetails = isMetadataStorageConfigured();
+
+  const resetDetails = () => {
+    setTitle("");
+    setCategory("community");
+    setImage("");
+    setBody("");
+    setLinks("");
+    setDeadline("");
+  };
+
+  // Campaigns end at the close of the chosen day, local time
+  const deadlineSeconds = deadline
+    ? Math.floor(new Date(`${deadline}T23:59:59`).getTime() / 1000)
+    : null;
+  const deadlineError =
+    deadlineSeconds !== null && deadlineSeconds * 1000 <= Date.now()
+      ? "Deadline must be in the future"
+      : null;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!amount || !description) return;
+    if (!amount || !title.trim() || amountError || deadlineError) return;
 
     setIsSubmitting(true);
     setError("");
     setSuccess("");
 
     try {
-      await onCreateDonation(amount, description);
+      await onCreateDonation(amount, {
+        title: title.trim(),
+        body,
+        category,
+        ...(image.trim() && { image: image.trim() }),
+        links: parseLinkLines(links),
+        ...(deadlineSeconds !== null && { deadline: deadlineSeconds }),
+      });
       setAmount("");
-      setDescription("");
+      resetDetails();
       setSuccess("Donation campaign created successfully!");
       setTimeout(() => setSuccess(""), 3000);
     } catch (err) {
@@ -52,41 +96,121 @@ const CreateDonation: React.FC<CreateDonationProps> = ({
       {isExpanded && (
         <form onSubmit={handleSubmit} className="create-form">
           <div className="form-group">
-            <label htmlFor="description">Campaign Description</label>
+            <label htmlFor="title">Campaign Title</label>
             <input
-              id="description"
+              id="title"
               type="text"
               placeholder="e.g., Help build community project"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              disabled={isSubmitting || isLoading}
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              disabled={isSubmitting}
               className="form-input"
             />
           </div>
 
+          {hasRichDetails && (
+            <>
+              <div className="form-group">
+                <label htmlFor="category">Category</label>
+                <select
+                  id="category"
+                  value={category}
+                  onChange={(e) => setCategory(e.target.value as CampaignCategory)}
+                  disabled={isSubmitting}
+                  className="form-input"
+                >
+                  {Object.entries(CAMPAIGN_CATEGORIES).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="body">Story</label>
+                <textarea
+                  id="body"
+                  rows={6}
+                  placeholder="Why you are raising funds and how they will be used. Markdown is supported."
+                  value={body}
+                  onChange={(e) => setBody(e.target.value)}
+                  disabled={isSubmitting}
+                  className="form-input"
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="image">Cover Image URL</label>
+                <input
+                  id="image"
+                  type="url"
+                  placeholder="https:// or ipfs://"
+                  value={image}
+                  onChange={(e) => setImage(e.target.value)}
+                  disabled={isSubmitting}
+                  className="form-input"
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="links">Links</label>
+                <textarea
+                  id="links"
+                  rows={3}
+                  placeholder={"One per line, e.g.\nWebsite | https://example.org"}
+                  value={links}
+                  onChange={(e) => setLinks(e.target.value)}
+                  disabled={isSubmitting}
+                  className="form-input"
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="deadline">Deadline (optional)</label>
+                <input
+                  id="deadline"
+                  type="date"
+                  value={deadline}
+                  onChange={(e) => setDeadline(e.target.value)}
+                  disabled={isSubmitting}
+                  className="form-input"
+                />
+                {deadlineError && <p className="error-message">{deadlineError}</p>}
+              </div>
+            </>
+          )}
+
           <div className="form-group">
-            <label htmlFor="amount">Target Amount (ETH)</label>
+            <label htmlFor="amount">Target Amount ({token.symbol})</label>
             <input
               id="amount"
-              type="number"
-              step="0.0001"
-              min="0"
+              type="text"
+              inputMode="decimal"
               placeholder="e.g., 1.5"
               value={amount}
               onChange={(e) => setAmount(e.target.value)}
-              disabled={isSubmitting || isLoading}
+              disabled={isSubmitting}
               className="form-input"
             />
+            {amountError && <p className="error-message">{amountError}</p>}
           </div>
 
           <button
             type="submit"
-            disabled={isSubmitting || isLoading || !amount || !description}
+            disabled={
+              isSubmitting ||
+              !amount ||
+              !title.trim() ||
+              !!amountError ||
+              !!deadlineError
+            }
             className="submit-button"
           >
             {isSubmitting ? "Creating..." : "Create Campaign"}
           </button>
 
+          <TransactionProgress stage={stage} />
           {error && <p className="error-message">{error}</p>}
           {success && <p className="success-message">{success}</p>}
         </form>
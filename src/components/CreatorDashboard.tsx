@@ -0,0 +1,243 @@
+import React, { useEffect } from "react";
+import { Link, useSearchParams } from "react-router";
+import type { DonationToken } from "../hooks/useContract";
+import { useAccountActivity } from "../hooks/useAccountActivity";
+import { useNetwork } from "../hooks/useNetwork";
+import { usePageMetadata } from "../hooks/usePageMetadata";
+import { useWallet } from "../hooks/useWallet";
+import { formatAmount, percentOf } from "../utils/amount";
+import { buildDonationSeries } from "../utils/logIndexer";
+import { payoutStageKey } from "../utils/campaignStatus";
+import type { PipelineStage } from "../utils/preflight";
+import { campaignPath } from "../utils/routes";
+import DonationChart from "./DonationChart";
+import CampaignPayout from "./CampaignPayout";
+import CampaignTitle from "./CampaignTitle";
+import "../styles/CreatorDashboard.css";
+
+interface CreatorDashboardProps {
+  token: DonationToken;
+  onWithdraw: (id: bigint, amount: bigint) => Promise<void>;
+  onClaimRefund: (id: bigint, amount: bigint) => Promise<void>;
+  refreshTrigger?: number;
+  /** In-flight stages keyed like the app's stage map */
+  stages?: Record<string, PipelineStage>;
+}
+
+type DashboardTab = "campaigns" | "donations";
+
+const TAB_LABELS: Record<DashboardTab, string> = {
+  campaigns: "My campaigns",
+  donations: "My donations",
+};
+
+const CreatorDashboard: React.FC<CreatorDashboardProps> = ({
+  token,
+  onWithdraw,
+  onClaimRefund,
+  refreshTrigger = 0,
+  stages = {},
+}) => {
+  const { account } = useWallet();
+  const { network } = useNetwork();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tab: DashboardTab =
+    searchParams.get("tab") === "donations" ? "donations" : "campaigns";
+  const { activity, campaigns, contributions, supportsPayouts, isLoading, error, refresh } =
+    useAccountActivity(account);
+
+  usePageMetadata({ title: `${TAB_LABELS[tab]} · Poolr` });
+
+  useEffect(() => {
+    if (refreshTrigger > 0) refresh();
+  }, [refreshTrigger, refresh]);
+
+  if (!account) {
+    return (
+      <div className="empty-state">
+        <p>Connect your wallet to see your campaigns and donations.</p>
+      </div>
+    );
+  }
+
+  const format = (value: bigint) =>
+    `${formatAmount(value, token.decimals)} ${token.symbol}`;
+
+  const totalRaised =
+    activity?.created.reduce(
+      (sum, { campaign }) =>
+        sum + (campaigns.get(campaign.campaignId)?.totalDonated ?? 0n),
+      0n
+    ) ?? 0n;
+  const totalGiven =
+    activity?.contributions.reduce((sum, { total }) => sum + total, 0n) ?? 0n;
+
+  return (
+    <div className="dashboard">
+      <div className="dashboard-tabs" role="tablist">
+        {(Object.keys(TAB_LABELS) as DashboardTab[]).map((key) => (
+          <button
+            key={key}
+            type="button"
+            role="tab"
+            aria-selected={tab === key}
+            className={`dashboard-tab ${tab === key ? "active" : ""}`}
+            onClick={() => setSearchParams(key === "campaigns" ? {} : { tab: key })}
+          >
+            {TAB_LABELS[key]}
+          </button>
+        ))}
+      </div>
+
+      {error && <div className="error-banner">{error}</div>}
+      {activity && !supportsPayouts && (
+        <p className="dashboard-notice">
+          Withdrawals and refunds are not available on this network's Funding contract.
+        </p>
+      )}
+
+      {isLoading && !activity ? (
+        <div className="loading">Loading your activity...</div>
+      ) : !activity ? null : tab === "campaigns" ? (
+        <>
+          <div className="dashboard-summary">
+            <span>{activity.created.length} campaigns</span>
+            <span>{format(totalRaised)} raised</span>
+          </div>
+
+          {activity.created.length === 0 ? (
+            <div className="empty-state">
+              <p>You have not created any campaigns yet.</p>
+            </div>
+          ) : (
+            <div className="dashboard-grid">
+              {activity.created.map(({ campaign, history, withdrawn }) => {
+                const current = campaigns.get(campaign.campaignId);
+                const target = current?.targetAmount ?? campaign.targetAmount;
+                const raised = current?.totalDonated ?? 0n;
+
+                return (
+                  <article key={campaign.campaignId.toString()} className="dashboard-card">
+                    <h3 className="dashboard-card-title">
+                      <Link to={campaignPath(campaign.campaignId, network.id)}>
+                        <CampaignTitle description={campaign.description} />
+                      </Link>
+                    </h3>
+                    <dl className="dashboard-stats">
+                      <div>
+                        <dt>Raised</dt>
+                        <dd>
+                          {format(raised)} ({percentOf(raised, target)}%)
+                        </dd>
+                      </div>
+                      <div>
+                        <dt>Donors</dt>
+                        <dd>{history.contributors.length}</dd>
+                      </div>
+                      <div>
+                        <dt>Donations</dt>
+                        <dd>{history.donations.length}</dd>
+                      </div>
+                      {withdrawn > 0n && (
+                        <div>
+                          <dt>Withdrawn</dt>
+                          <dd>{format(withdrawn)}</dd>
+                        </div>
+                      )}
+                    </dl>
+                    {current && supportsPayouts && (
+                      <CampaignPayout
+                        kind="withdraw"
+                        id={campaign.campaignId}
+                        donation={current}
+                        amount={raised - withdrawn}
+                        token={token}
+                        onSubmit={onWithdraw}
+                        stage={stages[payoutStageKey("withdraw", campaign.campaignId)] ?? null}
+                      />
+                    )}
+                    <DonationChart
+                      points={buildDonationSeries(history.donations)}
+                      target={target}
+                      token={token}
+                    />
+                  </article>
+                );
+              })}
+            </div>
+          )}
+        </>
+      ) : (
+        <>
+          <div className="dashboard-summary">
+            <span>{activity.contributions.length} campaigns supported</span>
+            <span>{format(totalGiven)} given</span>
+          </div>
+
+          {activity.contributions.length === 0 ? (
+            <div className="empty-state">
+              <p>You have not donated to any campaigns yet.</p>
+            </div>
+          ) : (
+            <table className="dashboard-table">
+              <thead>
+                <tr>
+                  <th>Campaign</th>
+                  <th>Given</th>
+                  <th>Donations</th>
+                  <th>Last donated</th>
+                  <th>Refund</th>
+                </tr>
+              </thead>
+              <tbody>
+                {activity.contributions.map(({ campaignId, total, count, lastTimestamp, refunded }) => {
+                  const campaign = campaigns.get(campaignId);
+                  const contributed = contributions.get(campaignId);
+
+                  return (
+                    <tr key={campaignId.toString()}>
+                      <td>
+                        <Link to={campaignPath(campaignId, network.id)}>
+                          {campaign ? (
+                            <CampaignTitle description={campaign.description} />
+                          ) : (
+                            `Campaign #${campaignId}`
+                          )}
+                        </Link>
+                      </td>
+                      <td>{format(total)}</td>
+                      <td>{count}</td>
+                      <td>
+                        {new Date(Number(lastTimestamp) * 1000).toLocaleDateString()}
+                      </td>
+                      <td>
+                        {refunded > 0n && (
+                          <span className="dashboard-refunded">
+                            {format(refunded)} refunded
+                          </span>
+                        )}
+                        {supportsPayouts && campaign && contributed !== undefined && (
+                          <CampaignPayout
+                            kind="refund"
+                            id={campaignId}
+                            donation={campaign}
+                            amount={contributed}
+                            token={token}
+                            onSubmit={onClaimRefund}
+                            stage={stages[payoutStageKey("refund", campaignId)] ?? null}
+                          />
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CreatorDashboard;
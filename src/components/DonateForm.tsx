@@ -0,0 +1,119 @@
+import React, { useState } from "react";
+import { parseAmount, validateAmount } from "../utils/amount";
+import type { Donation, DonationToken } from "../hooks/useContract";
+import {
+  checkDonation,
+  type CampaignStatus,
+  type DonationAvailability,
+} from "../utils/campaignStatus";
+import type { PipelineStage } from "../utils/preflight";
+import TransactionProgress from "./TransactionProgress";
+import "../styles/DonateForm.css";
+
+interface DonateFormProps {
+  id: bigint;
+  token: DonationToken;
+  onDonate: (id: bigint, amount: string) => Promise<void>;
+  /** Adds the entered amount to the donation cart instead of donating now */
+  onAddToCart?: (amount: string) => void;
+  isSponsored?: boolean;
+  /** Progress of this campaign's donation, if one is in flight */
+  stage?: PipelineStage | null;
+  /** The campaign and its status, to apply the over-funding policy and block ended campaigns */
+  donation?: Donation;
+  status?: CampaignStatus;
+}
+
+const DonateForm: React.FC<DonateFormProps> = ({
+  id,
+  token,
+  onDonate,
+  onAddToCart,
+  isSponsored = true,
+  stage = null,
+  donation,
+  status,
+}) => {
+  const [donateAmount, setDonateAmount] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  const amountError = donateAmount
+    ? validateAmount(donateAmount, token.decimals)
+    : null;
+  const check = (amount: bigint | null): DonationAvailability =>
+    donation && status
+      ? checkDonation(donation, status, amount, token)
+      : { allowed: true };
+  // Whether the campaign takes donations at all, whatever the amount
+  const isOpen = check(null).allowed;
+  const availability = check(
+    donateAmount && !amountError ? parseAmount(donateAmount, token.decimals) : null
+  );
+  const canDonate = !!donateAmount && !amountError && availability.allowed;
+
+  const handleDonate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canDonate) return;
+
+    setIsSubmitting(true);
+    setError("");
+
+    try {
+      await onDonate(id, donateAmount);
+      setDonateAmount("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Donation failed");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAddToCart = () => {
+    if (!canDonate || !onAddToCart) return;
+    onAddToCart(donateAmount.trim());
+    setDonateAmount("");
+  };
+
+  return (
+    <>
+      <form onSubmit={handleDonate} className="donate-form">
+        <input
+          type="text"
+          inputMode="decimal"
+          placeholder={`Amount in ${token.symbol}`}
+          value={donateAmount}
+          onChange={(e) => setDonateAmount(e.target.value)}
+          disabled={isSubmitting || !isOpen}
+          className="donate-input"
+        />
+        <button
+          type="submit"
+          disabled={isSubmitting || !canDonate}
+          className="donate-button"
+        >
+          {isSubmitting ? "Processing..." : isSponsored ? "Donate (Gasless)" : "Donate"}
+        </button>
+      </form>
+
+      {onAddToCart && (
+        <button
+          type="button"
+          className="add-to-cart-button"
+          onClick={handleAddToCart}
+          disabled={isSubmitting || !canDonate}
+        >
+          + Add to cart
+        </button>
+      )}
+
+      <TransactionProgress stage={stage} />
+      {amountError && <p className="error-message">{amountError}</p>}
+      {availability.reason && <p className="error-message">{availability.reason}</p>}
+      {availability.warning && <p className="warning-message">{availability.warning}</p>}
+      {error && <p className="error-message">{error}</p>}
+    </>
+  );
+};
+
+export default DonateForm;
@@ -1,51 +1,81 @@
-import React, { useState, useEffect } from "react";
-import type { Donation } from "../hooks/useContract";
+import React, { useState } from "react";
+import { Link } from "react-router";
+import { formatAmount, percentOf } from "../utils/amount";
+import { campaignPath } from "../utils/routes";
+import type { Donation, DonationToken } from "../hooks/useContract";
+import { useCart } from "../hooks/useCart";
+import { useCampaignMetadata } from "../hooks/useCampaignMetadata";
+import { useClock } from "../hooks/useClock";
+import { useModeration } from "../hooks/useModeration";
+import { useNetwork } from "../hooks/useNetwork";
+import { CAMPAIGN_CATEGORIES, excerpt, toGatewayUrl } from "../utils/campaignMetadata";
+import type { PipelineStage } from "../utils/preflight";
+import { contentDeadline, getCampaignStatus } from "../utils/campaignStatus";
+import CampaignHistory from "./CampaignHistory";
+import CampaignStatusBadge from "./CampaignStatusBadge";
+import DonateForm from "./DonateForm";
 import "../styles/DonationCard.css";
 
 interface DonationCardProps {
   donation: Donation;
   id: bigint;
-  provider: any;
+  token: DonationToken;
   onDonate: (id: bigint, amount: string) => Promise<void>;
-  isLoading?: boolean;
+  isSponsored?: boolean;
+  stage?: PipelineStage | null;
 }
 
 const DonationCard: React.FC<DonationCardProps> = ({
   donation,
   id,
-  provider,
+  token,
   onDonate,
-  isLoading = false,
+  isSponsored = true,
+  stage = null,
 }) => {
-  const [donateAmount, setDonateAmount] = useState("");
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  const [error, setError] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
+  const cart = useCart();
+  const content = useCampaignMetadata(donation.description);
+  const metadata = content.status === "resolved" ? content.metadata : null;
+  const deadline = contentDeadline(donation, content);
+  const now = useClock(deadline ?? null);
+  const status = getCampaignStatus(donation, deadline, now);
+  const decision = useModeration().get(id);
+  const { network } = useNetwork();
 
-  const targetAmount = Number(donation.targetAmount) / 1e18;
-  const totalDonated = Number(donation.totalDonated) / 1e18;
-  const progress = Math.min((totalDonated / targetAmount) * 100, 100);
-
-  const handleDonate = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!donateAmount) return;
-
-    setIsSubmitting(true);
-    setError("");
-
-    try {
-      await onDonate(id, donateAmount);
-      setDonateAmount("");
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Donation failed");
-    } finally {
-      setIsSubmitting(false);
-    }
-  };
+  const targetAmount = formatAmount(donation.targetAmount, token.decimals);
+  const totalDonated = formatAmount(donation.totalDonated, token.decimals);
+  const progress = Math.min(
+    percentOf(donation.totalDonated, donation.targetAmount),
+    100
+  );
 
   return (
     <div className="donation-card">
+      {metadata?.image && (
+        <img className="card-cover" src={toGatewayUrl(metadata.image)} alt="" loading="lazy" />
+      )}
       <div className="card-header">
-        <h3 className="card-title">{donation.description}</h3>
+        <div className="card-tags">
+          <CampaignStatusBadge status={status} deadline={deadline} now={now} />
+          {metadata && (
+            <span className="card-category">{CAMPAIGN_CATEGORIES[metadata.category]}</span>
+          )}
+        </div>
+        <h3 className="card-title">
+          <Link to={campaignPath(id, network.id)} className="card-link">
+            {content.title}
+          </Link>
+        </h3>
+        {metadata?.body && <p className="card-excerpt">{excerpt(metadata.body)}</p>}
+        {content.status === "unavailable" && (
+          <p className="card-excerpt">Campaign details are unavailable right now.</p>
+        )}
+        {decision?.action === "flagged" && (
+          <p className="card-flag">
+            Flagged by the platform{decision.reason ? `: ${decision.reason}` : ""}
+          </p>
+        )}
         <p className="card-creator">Creator: {donation.creator.slice(0, 6)}...{donation.creator.slice(-4)}</p>
       </div>
 
@@ -53,34 +83,34 @@ const DonationCard: React.FC<DonationCardProps> = ({
         <div className="progress-section">
           <div className="progress-info">
             <span className="progress-label">Progress</span>
-            <span className="progress-amount">{totalDonated.toFixed(4)} / {targetAmount.toFixed(4)} ETH</span>
+            <span className="progress-amount">{totalDonated} / {targetAmount} {token.symbol}</span>
           </div>
           <div className="progress-bar">
             <div className="progress-fill" style={{ width: `${progress}%` }}></div>
           </div>
         </div>
 
-        <form onSubmit={handleDonate} className="donate-form">
-          <input
-            type="number"
-            step="0.0001"
-            min="0"
-            placeholder="Amount in ETH"
-            value={donateAmount}
-            onChange={(e) => setDonateAmount(e.target.value)}
-            disabled={isSubmitting || isLoading}
-            className="donate-input"
-          />
-          <button
-            type="submit"
-            disabled={isSubmitting || isLoading || !donateAmount}
-            className="donate-button"
-          >
-            {isSubmitting ? "Processing..." : "Donate (Gasless)"}
-          </button>
-        </form>
+        <DonateForm
+          id={id}
+          token={token}
+          onDonate={onDonate}
+          onAddToCart={(amount) =>
+            cart.add({ campaignId: id, description: content.title, amount })
+          }
+          isSponsored={isSponsored}
+          stage={stage}
+          donation={donation}
+          status={status}
+        />
 
-        {error && <p className="error-message">{error}</p>}
+        <button
+          type="button"
+          className="history-toggle"
+          onClick={() => setShowHistory(!showHistory)}
+        >
+          {showHistory ? "Hide contributors" : "Show contributors"}
+        </button>
+        {showHistory && <CampaignHistory id={id} token={token} />}
       </div>
     </div>
   );
@@ -0,0 +1,180 @@
+import React, { useState } from "react";
+import { Link } from "react-router";
+import type { DonationToken } from "../hooks/useContract";
+import { useCart } from "../hooks/useCart";
+import { useNetwork } from "../hooks/useNetwork";
+import { formatAmount, validateAmount } from "../utils/amount";
+import { cartTotal, type CartItem, type CartItemResult } from "../utils/donationCart";
+import type { PipelineStage } from "../utils/preflight";
+import { campaignPath } from "../utils/routes";
+import TransactionProgress from "./TransactionProgress";
+import "../styles/DonationCart.css";
+
+interface DonationCartProps {
+  token: DonationToken;
+  onSubmit: (items: CartItem[]) => Promise<CartItemResult[]>;
+  /** Whether the cart will go out as one atomic sponsored batch */
+  isAtomic?: boolean;
+  stage?: PipelineStage | null;
+}
+
+const DonationCart: React.FC<DonationCartProps> = ({
+  token,
+  onSubmit,
+  isAtomic = true,
+  stage = null,
+}) => {
+  const { items, remove } = useCart();
+  const { network } = useNetwork();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+  const [results, setResults] = useState<
+    { item: CartItem; result: CartItemResult }[] | null
+  >(null);
+
+  const invalid = items.some((item) => validateAmount(item.amount, token.decimals));
+  const total = invalid ? 0n : cartTotal(items, token.decimals);
+
+  const handleSubmit = async () => {
+    if (items.length === 0 || invalid) return;
+
+    setIsSubmitting(true);
+    setError("");
+    setResults(null);
+
+    try {
+      const submitted = [...items];
+      const outcome = await onSubmit(submitted);
+      setResults(submitted.map((item, index) => ({ item, result: outcome[index] })));
+      // Keep items that failed, and any added while the batch was in flight
+      outcome.forEach((result, index) => {
+        if (result.success) remove(submitted[index].campaignId);
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to donate");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        className="cart-toggle"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+      >
+        Cart
+        {items.length > 0 && <span className="cart-badge">{items.length}</span>}
+      </button>
+
+      {isOpen && (
+        <aside className="cart-drawer" aria-label="Donation cart">
+          <div className="cart-header">
+            <h3 className="cart-title">Donation cart</h3>
+            <button
+              type="button"
+              className="cart-close"
+              onClick={() => setIsOpen(false)}
+              aria-label="Close cart"
+            >
+              ×
+            </button>
+          </div>
+
+          {items.length === 0 && !results && (
+            <p className="cart-empty">
+              Add amounts from any campaign, then donate to all of them at once.
+            </p>
+          )}
+
+          {items.length > 0 && (
+            <>
+              <ul className="cart-list">
+                {items.map((item) => (
+                  <li key={item.campaignId.toString()} className="cart-item">
+                    <Link
+                      to={campaignPath(item.campaignId, network.id)}
+                      className="cart-item-title"
+                    >
+                      {item.description}
+                    </Link>
+                    <span className="cart-item-amount">
+                      {item.amount} {token.symbol}
+                    </span>
+                    <button
+                      type="button"
+                      className="cart-remove"
+                      onClick={() => remove(item.campaignId)}
+                      disabled={isSubmitting}
+                      aria-label={`Remove ${item.description}`}
+                    >
+                      ×
+                    </button>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="cart-total">
+                <span>Total</span>
+                <span>
+                  {formatAmount(total, token.decimals)} {token.symbol}
+                </span>
+              </div>
+
+              {!isAtomic && (
+                <p className="cart-note">
+                  These donations are sent as separate transactions, one after
+                  another, and you pay the gas for each.
+                </p>
+              )}
+
+              <button
+                type="button"
+                className="cart-submit"
+                onClick={handleSubmit}
+                disabled={isSubmitting || invalid}
+              >
+                {isSubmitting
+                  ? "Processing..."
+                  : `Donate to ${items.length} campaign${items.length === 1 ? "" : "s"}`}
+              </button>
+            </>
+          )}
+
+          <TransactionProgress stage={stage} />
+          {error && <p className="error-message">{error}</p>}
+
+          {results && (
+            <ul className="cart-results">
+              {results.map(({ item, result }) => (
+                <li
+                  key={item.campaignId.toString()}
+                  className={`cart-result ${result.success ? "success" : "missing"}`}
+                >
+                  <span>{result.success ? "✓" : "?"}</span>
+                  <span className="cart-item-title">{item.description}</span>
+                  {result.transactionHash && network.explorerUrl ? (
+                    <a
+                      href={`${network.explorerUrl}/tx/${result.transactionHash}`}
+                      target="_blank"
+                      rel="noreferrer"
+                    >
+                      View
+                    </a>
+                  ) : (
+                    !result.success && <span>Not found in receipts</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </aside>
+      )}
+    </>
+  );
+};
+
+export default DonationCart;
@@ -0,0 +1,95 @@
+import React from "react";
+import type { DonationToken } from "../hooks/useContract";
+import type { DonationSeriesPoint } from "../utils/logIndexer";
+import { formatAmount } from "../utils/amount";
+import "../styles/DonationChart.css";
+
+interface DonationChartProps {
+  points: DonationSeriesPoint[];
+  target: bigint;
+  token: DonationToken;
+}
+
+const WIDTH = 320;
+const HEIGHT = 120;
+const PADDING = 8;
+
+/**
+ * Maps `value` in [0, max] to a fraction in [0, 1] without leaving bigint
+ * arithmetic until the result is small
+ */
+const fraction = (value: bigint, max: bigint) =>
+  max === 0n ? 0 : Number((value * 10000n) / max) / 10000;
+
+const formatDate = (timestamp: bigint) =>
+  new Date(Number(timestamp) * 1000).toLocaleDateString();
+
+/**
+ * Cumulative donations-over-time line chart with the campaign target as a
+ * dashed reference line
+ */
+const DonationChart: React.FC<DonationChartProps> = ({ points, target, token }) => {
+  if (points.length === 0) {
+    return <div className="chart-empty">No donations yet.</div>;
+  }
+
+  const first = points[0].timestamp;
+  const last = points[points.length - 1].timestamp;
+  const span = last - first;
+  const raised = points[points.length - 1].total;
+  const max = raised > target ? raised : target;
+
+  const x = (timestamp: bigint) =>
+    PADDING + (span === 0n ? 1 : fraction(timestamp - first, span)) * (WIDTH - 2 * PADDING);
+  const y = (total: bigint) =>
+    HEIGHT - PADDING - fraction(total, max) * (HEIGHT - 2 * PADDING);
+
+  // Step chart starting from zero at the first donation
+  const path = points.reduce(
+    (d, point, index) =>
+      `${d} L ${x(point.timestamp)} ${y(index === 0 ? 0n : points[index - 1].total)} L ${x(point.timestamp)} ${y(point.total)}`,
+    `M ${x(first)} ${y(0n)}`
+  );
+
+  return (
+    <figure className="donation-chart">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        role="img"
+        aria-label={`${formatAmount(raised, token.decimals)} ${token.symbol} raised over ${points.length} donations`}
+      >
+        <line
+          className="chart-target"
+          x1={PADDING}
+          x2={WIDTH - PADDING}
+          y1={y(target)}
+          y2={y(target)}
+        />
+        <path className="chart-line" d={path} />
+        {points.map((point, index) => (
+          <circle
+            key={index}
+            className="chart-point"
+            cx={x(point.timestamp)}
+            cy={y(point.total)}
+            r={3}
+          >
+            <title>
+              {formatDate(point.timestamp)}: {formatAmount(point.total, token.decimals)}{" "}
+              {token.symbol}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <figcaption className="chart-caption">
+        <span>{formatDate(first)}</span>
+        <span>
+          Target {formatAmount(target, token.decimals)} {token.symbol}
+        </span>
+        <span>{formatDate(last)}</span>
+      </figcaption>
+    </figure>
+  );
+};
+
+export default DonationChart;
@@ -1,89 +1,318 @@
-import React, { useState, useEffect } from "react";
-import { useContract, type Donation } from "../hooks/useContract";
+import React, {
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+} from "react";
+import {
+  useContract,
+  type DonationToken,
+  type DonationWithId,
+} from "../hooks/useContract";
+import { useLiveFundingEvents } from "../hooks/useLiveFundingEvents";
+import { useCampaignQuery } from "../hooks/useCampaignQuery";
+import { useModeration } from "../hooks/useModeration";
+import { useWallet } from "../hooks/useWallet";
+import type { LiveStatus } from "../utils/liveEvents";
+import type { PipelineStage } from "../utils/preflight";
+import { applyCampaignQuery, isDefaultCampaignQuery } from "../utils/campaignQuery";
+import { resolveCampaign } from "../utils/campaignMetadata";
+import { isHidden } from "../utils/moderation";
+import CampaignExport from "./CampaignExport";
+import CampaignFilters from "./CampaignFilters";
 import DonationCard from "./DonationCard";
 import "../styles/DonationList.css";
 
 interface DonationListProps {
-  provider: any;
+  token: DonationToken;
   onDonate: (id: bigint, amount: string) => Promise<void>;
+  isSponsored?: boolean;
   refreshTrigger?: number;
-  isLoading?: boolean;
+  /** In-flight donation stages keyed by campaign ID */
+  stages?: Record<string, PipelineStage>;
 }
 
-interface DonationWithId {
-  id: bigint;
-  donation: Donation;
-}
+/**
+ * Number of campaigns loaded per page
+ */
+const PAGE_SIZE = 12;
+
+/**
+ * Returns up to `count` campaign ids counting down from `start` to 0
+ */
+const idsFrom = (start: number, count: number): bigint[] => {
+  const ids: bigint[] = [];
+  for (let i = start; i > start - count && i >= 0; i--) {
+    ids.push(BigInt(i));
+  }
+  return ids;
+};
+
+const LIVE_STATUS_LABELS: Record<LiveStatus, string> = {
+  connecting: "Connecting",
+  live: "Live",
+  polling: "Live (polling)",
+  reconnecting: "Reconnecting",
+  offline: "Offline",
+};
 
 const DonationList: React.FC<DonationListProps> = ({
-  provider,
+  token,
   onDonate,
+  isSponsored = true,
   refreshTrigger = 0,
-  isLoading = false,
+  stages = {},
 }) => {
-  const [donations, setDonations] = useState<DonationWithId[]>([]);
+  const {
+    getTotalDonations,
+    peekTotalDonations,
+    getDonation,
+    getDonations,
+    peekDonations,
+  } = useContract();
+  // Cached campaigns render right away while loadDonations revalidates them
+  const [cached] = useState(() => {
+    const total = peekTotalDonations();
+    return total === undefined
+      ? null
+      : { total, donations: peekDonations(idsFrom(total - 1, PAGE_SIZE)) };
+  });
+  const [donations, setDonations] = useState<DonationWithId[]>(cached?.donations ?? []);
   const [isLoadingDonations, setIsLoadingDonations] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [nextId, setNextId] = useState(cached ? cached.total - 1 - PAGE_SIZE : -1);
   const [error, setError] = useState("");
-  const { getTotalDonations, getDonation } = useContract();
-
-  useEffect(() => {
-    loadDonations();
-  }, [refreshTrigger]);
+  const pagesLoaded = useRef(1);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const { account } = useWallet();
+  const { query, updateQuery } = useCampaignQuery();
+  const { entries: moderation } = useModeration();
+  const isQueryActive = !isDefaultCampaignQuery(query);
+  const visibleDonations = useMemo(
+    () =>
+      applyCampaignQuery(
+        donations.filter(({ id }) => !isHidden(moderation, id)),
+        query,
+        account
+      ),
+    [donations, moderation, query, account]
+  );
 
-  const loadDonations = async () => {
+  /**
+   * Loads the newest campaigns, keeping as many pages as were already shown
+   */
+  const loadDonations = useCallback(async () => {
     setIsLoadingDonations(true);
     setError("");
 
     try {
       const total = await getTotalDonations();
-      const donationsList: DonationWithId[] = [];
-
-      for (let i = 0; i < total; i++) {
-        try {
-          const donation = await getDonation(BigInt(i));
-          donationsList.push({
-            id: BigInt(i),
-            donation,
-          });
-        } catch (err) {
-          console.error(`Error loading donation ${i}:`, err);
-        }
-      }
+      const count = pagesLoaded.current * PAGE_SIZE;
 
-      setDonations(donationsList.reverse());
+      setDonations(await getDonations(idsFrom(total - 1, count)));
+      setNextId(total - 1 - count);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load donations");
     } finally {
       setIsLoadingDonations(false);
     }
-  };
+  }, [getTotalDonations, getDonations]);
+
+  useEffect(() => {
+    loadDonations();
+  }, [loadDonations, refreshTrigger]);
+
+  /**
+   * Loads the next page of older campaigns
+   */
+  const loadMore = useCallback(async () => {
+    if (nextId < 0 || isLoadingMore) return;
+
+    setIsLoadingMore(true);
+    try {
+      const page = await getDonations(idsFrom(nextId, PAGE_SIZE));
+      setDonations((current) => [
+        ...current,
+        ...page.filter((item) => !current.some(({ id }) => id === item.id)),
+      ]);
+      setNextId(nextId - PAGE_SIZE);
+      pagesLoaded.current += 1;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load donations");
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [getDonations, nextId, isLoadingMore]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || nextId < 0) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) loadMore();
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(sentinel);
 
-  if (isLoadingDonations) {
+    return () => observer.disconnect();
+  }, [loadMore, nextId]);
+
+  // A search, filter or sort covers every campaign, so the pages not loaded
+  // yet are loaded too, with their metadata resolved so searches match titles
+  useEffect(() => {
+    if (!isQueryActive || nextId < 0) return;
+    let cancelled = false;
+
+    const loadAll = async () => {
+      try {
+        const total = await getTotalDonations();
+        const all = await getDonations(idsFrom(total - 1, total));
+        await Promise.all(all.map(({ donation }) => resolveCampaign(donation.description)));
+        if (cancelled) return;
+
+        setDonations(all);
+        setNextId(-1);
+        pagesLoaded.current = Math.ceil(total / PAGE_SIZE);
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load donations");
+        }
+      }
+    };
+
+    loadAll();
+    return () => {
+      cancelled = true;
+    };
+  }, [isQueryActive, nextId, getTotalDonations, getDonations]);
+
+  /**
+   * Loads every campaign matching the current query for export, including
+   * pages not loaded yet. Metadata is resolved first so searches match titles.
+   */
+  const loadAllCampaigns = useCallback(async () => {
+    const total = await getTotalDonations();
+    const all = await getDonations(idsFrom(total - 1, total));
+    await Promise.all(all.map(({ donation }) => resolveCampaign(donation.description)));
+
+    return applyCampaignQuery(
+      all.filter(({ id }) => !isHidden(moderation, id)),
+      query,
+      account
+    );
+  }, [getTotalDonations, getDonations, moderation, query, account]);
+
+  /**
+   * Re-reads a single campaign and patches it into the list in place,
+   * inserting it at the top if it is new
+   */
+  const patchDonation = useCallback(
+    async (id: bigint) => {
+      try {
+        const donation = await getDonation(id);
+        setDonations((current) => {
+          const exists = current.some((item) => item.id === id);
+          if (!exists) {
+            return [{ id, donation }, ...current].sort((a, b) =>
+              a.id === b.id ? 0 : a.id > b.id ? -1 : 1
+            );
+          }
+          return current.map((item) =>
+            item.id === id ? { id, donation } : item
+          );
+        });
+      } catch (err) {
+        console.error(`Error refreshing donation ${id}:`, err);
+      }
+    },
+    [getDonation]
+  );
+
+  const liveHandlers = useMemo(
+    () => ({
+      onDonationCreated: ({ campaignId }: { campaignId: bigint }) =>
+        patchDonation(campaignId),
+      onDonationMade: ({ campaignId }: { campaignId: bigint }) =>
+        patchDonation(campaignId),
+    }),
+    [patchDonation]
+  );
+  const liveStatus = useLiveFundingEvents(liveHandlers);
+
+  if (isLoadingDonations && donations.length === 0) {
     return <div className="loading">Loading campaigns...</div>;
   }
 
   return (
     <div className="donation-list-container">
+      <div className={`live-indicator ${liveStatus}`} title="Campaign updates">
+        <span className="live-dot" />
+        {LIVE_STATUS_LABELS[liveStatus]}
+      </div>
+
       {error && <div className="error-banner">{error}</div>}
 
+      {donations.length > 0 && (
+        <CampaignFilters
+          query={query}
+          onChange={updateQuery}
+          hasAccount={!!account}
+          shownCount={visibleDonations.length}
+          loadedCount={donations.length}
+          isLoadingAll={isQueryActive && nextId >= 0 && !error}
+        />
+      )}
+
+      {visibleDonations.length > 0 && (
+        <CampaignExport
+          loadCampaigns={loadAllCampaigns}
+          token={token}
+          filename="poolr-campaigns"
+        />
+      )}
+
       {donations.length === 0 ? (
         <div className="empty-state">
           <p>No campaigns yet. Be the first to create one!</p>
         </div>
+      ) : visibleDonations.length === 0 ? (
+        <div className="empty-state">
+          <p>
+            {nextId >= 0
+              ? "No loaded campaigns match your search."
+              : "No campaigns match your search."}
+          </p>
+        </div>
       ) : (
         <div className="donation-grid">
-          {donations.map(({ id, donation }) => (
+          {visibleDonations.map(({ id, donation }) => (
             <DonationCard
               key={id.toString()}
               id={id}
               donation={donation}
-              provider={provider}
+              token={token}
               onDonate={onDonate}
-              isLoading={isLoading}
+              isSponsored={isSponsored}
+              stage={stages[id.toString()] ?? null}
             />
           ))}
         </div>
       )}
+
+      {nextId >= 0 && (
+        <div ref={sentinelRef} className="load-more">
+          <button
+            className="load-more-button"
+            onClick={loadMore}
+            disabled={isLoadingMore}
+          >
+            {isLoadingMore ? "Loading..." : "Load more campaigns"}
+          </button>
+        </div>
+      )}
     </div>
   );
 };
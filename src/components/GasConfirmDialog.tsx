@@ -0,0 +1,66 @@
+import React from "react";
+import type { GasEstimate } from "../utils/paymentService";
+import { formatAmount } from "../utils/amount";
+import "../styles/GasConfirmDialog.css";
+
+interface GasConfirmDialogProps {
+  estimate: GasEstimate;
+  /** Why the transaction is not sponsored, if the paymaster gave a reason */
+  reason?: string;
+  nativeSymbol: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const GasConfirmDialog: React.FC<GasConfirmDialogProps> = ({
+  estimate,
+  reason,
+  nativeSymbol,
+  onConfirm,
+  onCancel,
+}) => {
+  return (
+    <div className="gas-dialog-backdrop" role="presentation">
+      <div className="gas-dialog" role="dialog" aria-modal="true" aria-labelledby="gas-dialog-title">
+        <h3 id="gas-dialog-title" className="gas-dialog-title">
+          Gas is not sponsored
+        </h3>
+        <p className="gas-dialog-text">
+          {reason
+            ? `The paymaster will not sponsor this transaction: ${reason}.`
+            : "Your wallet does not support sponsored transactions on this network."}{" "}
+          You will pay the gas fee yourself.
+        </p>
+
+        <dl className="gas-dialog-details">
+          <dt>Transactions to sign</dt>
+          <dd>{estimate.transactions}</dd>
+          <dt>Estimated gas</dt>
+          <dd>{estimate.gas.toLocaleString()}</dd>
+          <dt>Max fee</dt>
+          <dd>
+            {formatAmount(estimate.cost, 18, { maximumFractionDigits: 8 })}{" "}
+            {nativeSymbol}
+          </dd>
+        </dl>
+        {estimate.estimated < estimate.transactions && (
+          <p className="gas-dialog-text">
+            This covers the first transaction only. The others depend on it, so you
+            will confirm their fees once the one before is mined.
+          </p>
+        )}
+
+        <div className="gas-dialog-actions">
+          <button className="gas-dialog-button cancel" onClick={onCancel}>
+            Cancel
+          </button>
+          <button className="gas-dialog-button" onClick={onConfirm}>
+            Pay gas &amp; continue
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GasConfirmDialog;
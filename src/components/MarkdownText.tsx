@@ -0,0 +1,63 @@
+import React, { useMemo } from "react";
+import { parseMarkdown, type InlineNode } from "../utils/markdown";
+import "../styles/MarkdownText.css";
+
+interface MarkdownTextProps {
+  markdown: string;
+}
+
+const renderInline = (nodes: InlineNode[]) =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case "strong":
+        return <strong key={index}>{node.text}</strong>;
+      case "em":
+        return <em key={index}>{node.text}</em>;
+      case "code":
+        return <code key={index}>{node.text}</code>;
+      case "link":
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noreferrer nofollow">
+            {node.text}
+          </a>
+        );
+      default:
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+    }
+  });
+
+/**
+ * Renders campaign markdown as React elements, without injecting HTML
+ */
+const MarkdownText: React.FC<MarkdownTextProps> = ({ markdown }) => {
+  const blocks = useMemo(() => parseMarkdown(markdown), [markdown]);
+
+  return (
+    <div className="markdown-text">
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case "heading": {
+            const Heading = `h${block.level}` as const;
+            return <Heading key={index}>{renderInline(block.content)}</Heading>;
+          }
+          case "quote":
+            return <blockquote key={index}>{renderInline(block.content)}</blockquote>;
+          case "list": {
+            const List = block.ordered ? "ol" : "ul";
+            return (
+              <List key={index}>
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}>{renderInline(item)}</li>
+                ))}
+              </List>
+            );
+          }
+          default:
+            return <p key={index}>{renderInline(block.content)}</p>;
+        }
+      })}
+    </div>
+  );
+};
+
+export default MarkdownText;
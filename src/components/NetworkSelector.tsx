@@ -0,0 +1,35 @@
+import React from "react";
+import { NETWORKS, isDeployed, type NetworkId } from "../utils/networks";
+import "../styles/NetworkSelector.css";
+
+interface NetworkSelectorProps {
+  value: NetworkId;
+  onChange: (id: NetworkId) => void;
+  disabled?: boolean;
+}
+
+const NetworkSelector: React.FC<NetworkSelectorProps> = ({
+  value,
+  onChange,
+  disabled = false,
+}) => {
+  return (
+    <label className="network-selector">
+      <span className="network-label">Network</span>
+      <select
+        className="network-select"
+        value={value}
+        onChange={(e) => onChange(e.target.value as NetworkId)}
+        disabled={disabled}
+      >
+        {Object.values(NETWORKS).map((network) => (
+          <option key={network.id} value={network.id} disabled={!isDeployed(network)}>
+            {isDeployed(network) ? network.name : `${network.name} (not configured)`}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default NetworkSelector;
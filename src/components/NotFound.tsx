@@ -0,0 +1,30 @@
+import React from "react";
+import { Link } from "react-router";
+import { HOME_PATH } from "../utils/routes";
+import { usePageMetadata } from "../hooks/usePageMetadata";
+import "../styles/NotFound.css";
+
+interface NotFoundProps {
+  title?: string;
+  message?: string;
+}
+
+const NotFound: React.FC<NotFoundProps> = ({
+  title = "Page not found",
+  message = "There is nothing at this address.",
+}) => {
+  usePageMetadata({ title: `${title} · Poolr` });
+
+  return (
+    <div className="not-found">
+      <span className="not-found-code">404</span>
+      <h2 className="not-found-title">{title}</h2>
+      <p className="not-found-message">{message}</p>
+      <Link to={HOME_PATH} className="back-link">
+        ← All campaigns
+      </Link>
+    </div>
+  );
+};
+
+export default NotFound;
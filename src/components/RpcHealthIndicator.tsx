@@ -0,0 +1,58 @@
+import React from "react";
+import { useRpcHealth } from "../hooks/useRpcHealth";
+import { ENDPOINT_STATUS_LABELS, type EndpointStatus } from "../utils/rpcTransport";
+import "../styles/RpcHealthIndicator.css";
+
+/**
+ * Host of an endpoint URL, without paths that may carry API keys
+ */
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Header pill showing which RPC endpoint serves reads and how it is doing,
+ * with the health of every configured endpoint on expand
+ */
+const RpcHealthIndicator: React.FC = () => {
+  const health = useRpcHealth();
+  if (!health) return null;
+
+  const active = health.endpoints.find(({ url }) => url === health.activeUrl);
+  const status: EndpointStatus = active?.status ?? health.endpoints[0]?.status ?? "unknown";
+
+  return (
+    <details className="rpc-health">
+      <summary className={`rpc-summary ${status}`} title="RPC endpoint">
+        <span className="rpc-dot" />
+        {active ? hostOf(active.url) : ENDPOINT_STATUS_LABELS[status]}
+      </summary>
+      <ol className="rpc-endpoints">
+        {health.endpoints.map((endpoint) => (
+          <li
+            key={endpoint.url}
+            className={`rpc-endpoint ${endpoint.status}${
+              endpoint.url === health.activeUrl ? " active" : ""
+            }`}
+          >
+            <span className="rpc-dot" />
+            <span className="rpc-host">{hostOf(endpoint.url)}</span>
+            <span className="rpc-status">
+              {ENDPOINT_STATUS_LABELS[endpoint.status]}
+              {endpoint.latencyMs !== null &&
+                endpoint.status !== "down" &&
+                ` · ${endpoint.latencyMs} ms`}
+            </span>
+            {endpoint.lastError && <span className="rpc-error">{endpoint.lastError}</span>}
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+};
+
+export default RpcHealthIndicator;
@@ -0,0 +1,35 @@
+import React from "react";
+import type { PipelineStage } from "../utils/preflight";
+import "../styles/TransactionProgress.css";
+
+interface TransactionProgressProps {
+  stage: PipelineStage | null;
+}
+
+const STAGE_LABELS: Record<PipelineStage, string> = {
+  simulating: "Checking transaction...",
+  queued: "Waiting for another transaction...",
+  signing: "Waiting for signature...",
+  submitted: "Transaction submitted",
+  pending: "Waiting for confirmation...",
+  confirmed: "Transaction confirmed",
+  failed: "Transaction failed",
+};
+
+/**
+ * Shows where a single write is in the transaction pipeline
+ */
+const TransactionProgress: React.FC<TransactionProgressProps> = ({ stage }) => {
+  if (!stage || stage === "confirmed" || stage === "failed") {
+    return null;
+  }
+
+  return (
+    <div className={`transaction-progress ${stage}`} role="status">
+      <span className="transaction-spinner" />
+      {STAGE_LABELS[stage]}
+    </div>
+  );
+};
+
+export default TransactionProgress;
@@ -0,0 +1,115 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { ActivityContext } from "./activityContext";
+import { useContract } from "../hooks/useContract";
+import { useNetwork } from "../hooks/useNetwork";
+import { useWallet } from "../hooks/useWallet";
+import {
+  loadActivity,
+  resumeActivity,
+  saveActivity,
+  type ActivityEntry,
+} from "../utils/activityLog";
+
+/**
+ * Owns the activity log: persists it to local storage and resumes polling
+ * for batches that were still pending when the page was last closed
+ */
+const ActivityProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { network } = useNetwork();
+  const { account, provider } = useWallet();
+  const { client } = useContract();
+  const [entries, setEntries] = useState<ActivityEntry[]>(loadActivity);
+  // Entries already being followed, either live by the sender or by a resume
+  const watching = useRef(new Set<string>());
+  const resuming = useRef(new Map<string, AbortController>());
+
+  useEffect(() => {
+    saveActivity(entries);
+  }, [entries]);
+
+  const track = useCallback((entry: ActivityEntry) => {
+    watching.current.add(entry.id);
+    setEntries((current) => [entry, ...current.filter(({ id }) => id !== entry.id)]);
+  }, []);
+
+  const update = useCallback((id: string, changes: Partial<ActivityEntry>) => {
+    // Whoever followed the entry has let go of it; pending entries are resumed
+    if (changes.status) {
+      watching.current.delete(id);
+    }
+    setEntries((current) =>
+      current.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry))
+    );
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setEntries((current) => current.filter(({ status }) => status === "pending"));
+  }, []);
+
+  // Resume pending entries for the connected account on the active network.
+  // Resumes whose entry stops matching (account or network changed) are aborted.
+  useEffect(() => {
+    const isResumable = (entry: ActivityEntry) =>
+      !!account &&
+      entry.status === "pending" &&
+      entry.chainId === network.chain.id &&
+      entry.from.toLowerCase() === account.toLowerCase();
+
+    resuming.current.forEach((controller, id) => {
+      const entry = entries.find((item) => item.id === id);
+      if (!entry || !isResumable(entry)) {
+        controller.abort();
+        resuming.current.delete(id);
+        watching.current.delete(id);
+      }
+    });
+
+    entries
+      .filter((entry) => isResumable(entry) && !watching.current.has(entry.id))
+      .forEach((entry) => {
+        const controller = new AbortController();
+        watching.current.add(entry.id);
+        resuming.current.set(entry.id, controller);
+
+        resumeActivity(entry, provider, client, controller.signal)
+          .then((changes) => update(entry.id, changes))
+          .catch((error) => console.log(`Stopped resuming ${entry.id}: ${error}`))
+          .finally(() => {
+            if (resuming.current.get(entry.id) === controller) {
+              resuming.current.delete(entry.id);
+            }
+          });
+      });
+  }, [account, provider, client, network, entries, update]);
+
+  useEffect(() => {
+    const controllers = resuming.current;
+    const watched = watching.current;
+    return () => {
+      controllers.forEach((controller, id) => {
+        controller.abort();
+        watched.delete(id);
+      });
+      controllers.clear();
+    };
+  }, []);
+
+  const value = useMemo(
+    () => ({
+      entries,
+      pendingCount: entries.filter(({ status }) => status === "pending").length,
+      track,
+      update,
+      clearFinished,
+    }),
+    [entries, track, update, clearFinished]
+  );
+
+  return (
+    <ActivityContext.Provider value={value}>{children}</ActivityContext.Provider>
+  );
+};
+
+export default ActivityProvider;
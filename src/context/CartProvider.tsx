@@ -0,0 +1,60 @@
+import React, { useCallback, useMemo, useState } from "react";
+import { CartContext } from "./cartContext";
+import { useNetwork } from "../hooks/useNetwork";
+import type { CartItem } from "../utils/donationCart";
+import type { NetworkId } from "../utils/networks";
+
+/**
+ * Holds the donation cart. Campaign IDs only mean something on one network,
+ * so the cart belongs to the network it was filled on and reads as empty
+ * on any other.
+ */
+const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { network } = useNetwork();
+  const [cart, setCart] = useState<{ networkId: NetworkId; items: CartItem[] }>({
+    networkId: network.id,
+    items: [],
+  });
+
+  const items = useMemo(
+    () => (cart.networkId === network.id ? cart.items : []),
+    [cart, network.id]
+  );
+
+  const add = useCallback(
+    (item: CartItem) =>
+      setCart((current) => ({
+        networkId: network.id,
+        items: [
+          ...(current.networkId === network.id ? current.items : []).filter(
+            ({ campaignId }) => campaignId !== item.campaignId
+          ),
+          item,
+        ],
+      })),
+    [network.id]
+  );
+
+  const remove = useCallback(
+    (campaignId: bigint) =>
+      setCart((current) => ({
+        ...current,
+        items: current.items.filter((item) => item.campaignId !== campaignId),
+      })),
+    []
+  );
+
+  const clear = useCallback(
+    () => setCart({ networkId: network.id, items: [] }),
+    [network.id]
+  );
+
+  const value = useMemo(
+    () => ({ items, add, remove, clear }),
+    [items, add, remove, clear]
+  );
+
+  return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
+};
+
+export default CartProvider;
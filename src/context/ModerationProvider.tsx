@@ -0,0 +1,61 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { ModerationContext } from "./moderationContext";
+import { useNetwork } from "../hooks/useNetwork";
+import {
+  loadModeration,
+  moderate as applyModeration,
+  saveModeration,
+  type ModerationAction,
+  type ModerationList,
+} from "../utils/moderation";
+import type { NetworkId } from "../utils/networks";
+
+/**
+ * Holds the moderation list of the active network's Funding contract and
+ * persists every change to local storage
+ */
+const ModerationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { network } = useNetwork();
+  const [state, setState] = useState<{ networkId: NetworkId; entries: ModerationList }>(
+    () => ({ networkId: network.id, entries: loadModeration(network) })
+  );
+
+  // Reload synchronously when the network changes
+  if (state.networkId !== network.id) {
+    setState({ networkId: network.id, entries: loadModeration(network) });
+  }
+
+  useEffect(() => {
+    if (state.networkId === network.id) saveModeration(network, state.entries);
+  }, [state, network]);
+
+  const get = useCallback(
+    (campaignId: bigint) => state.entries[campaignId.toString()],
+    [state.entries]
+  );
+
+  const moderate = useCallback(
+    (campaignId: bigint, action: ModerationAction | null, reason?: string) =>
+      setState((current) => ({
+        ...current,
+        entries: applyModeration(current.entries, campaignId, action, reason),
+      })),
+    []
+  );
+
+  const replace = useCallback(
+    (entries: ModerationList) => setState((current) => ({ ...current, entries })),
+    []
+  );
+
+  const value = useMemo(
+    () => ({ entries: state.entries, get, moderate, replace }),
+    [state.entries, get, moderate, replace]
+  );
+
+  return (
+    <ModerationContext.Provider value={value}>{children}</ModerationContext.Provider>
+  );
+};
+
+export default ModerationProvider;
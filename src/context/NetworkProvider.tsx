@@ -0,0 +1,57 @@
+import React, { useCallback, useMemo, useState } from "react";
+import { NetworkContext } from "./networkContext";
+import {
+  DEFAULT_NETWORK_ID,
+  getNetwork,
+  isNetworkId,
+  type NetworkId,
+} from "../utils/networks";
+import { parseNetworkParam } from "../utils/routes";
+
+const STORAGE_KEY = "poolr:network";
+
+/**
+ * Reads the network the page was linked to, or else the last selected
+ * network from local storage
+ */
+const loadNetworkId = (): NetworkId => {
+  const linked = parseNetworkParam(window.location.search);
+  if (linked) return linked;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isNetworkId(stored) ? stored : DEFAULT_NETWORK_ID;
+  } catch {
+    return DEFAULT_NETWORK_ID;
+  }
+};
+
+/**
+ * Provides the active network to the app and remembers the selection
+ */
+const NetworkProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [networkId, setNetworkIdState] = useState<NetworkId>(loadNetworkId);
+
+  const setNetworkId = useCallback((id: NetworkId) => {
+    // Networks without a Funding contract cannot be selected
+    if (!isNetworkId(id)) return;
+
+    setNetworkIdState(id);
+    try {
+      localStorage.setItem(STORAGE_KEY, id);
+    } catch (error) {
+      console.log(`Error persisting network selection: ${error}`);
+    }
+  }, []);
+
+  const value = useMemo(
+    () => ({ network: getNetwork(networkId), setNetworkId }),
+    [networkId, setNetworkId]
+  );
+
+  return (
+    <NetworkContext.Provider value={value}>{children}</NetworkContext.Provider>
+  );
+};
+
+export default NetworkProvider;
@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { act, fireEvent, render, screen } from "@testing-library/react";
+import NetworkProvider from "./NetworkProvider";
+import WalletSessionProvider from "./WalletSessionProvider";
+import { useWallet } from "../hooks/useWallet";
+import {
+  createMockProvider,
+  MOCK_ACCOUNT,
+  rpcError,
+  type MockProvider,
+} from "../test/mockProvider";
+
+const sdk = vi.hoisted(() => ({ provider: null as unknown }));
+
+vi.mock("@base-org/account", () => ({
+  createBaseAccountSDK: () => ({
+    getProvider: () =>
+      sdk.provider && Object.assign(sdk.provider, { disconnect: async () => {} }),
+  }),
+}));
+
+const OTHER_ACCOUNT = "0x2222222222222222222222222222222222222222";
+
+const WalletStatus = () => {
+  const { account, chainId, capabilities, error, connect, disconnect } = useWallet();
+
+  return (
+    <div>
+      <p data-testid="account">{account ?? "disconnected"}</p>
+      <p data-testid="chain">{chainId ?? "none"}</p>
+      <p data-testid="paymaster">{String(capabilities.paymasterService)}</p>
+      {error && <p role="alert">{error}</p>}
+      <button onClick={connect}>Connect</button>
+      <button onClick={disconnect}>Disconnect</button>
+    </div>
+  );
+};
+
+const renderSession = () =>
+  render(
+    <NetworkProvider>
+      <WalletSessionProvider>
+        <WalletStatus />
+      </WalletSessionProvider>
+    </NetworkProvider>
+  );
+
+let provider: MockProvider;
+
+beforeEach(() => {
+  // The wallet starts on Base mainnet and does not know Base Sepolia yet
+  provider = createMockProvider({
+    chainId: 8453,
+    capabilities: { "0x14a34": { paymasterService: { supported: true } } },
+  });
+  sdk.provider = provider;
+});
+
+describe("WalletSessionProvider", () => {
+  it("connects, adds the active network and negotiates capabilities", async () => {
+    renderSession();
+
+    fireEvent.click(screen.getByRole("button", { name: "Connect" }));
+
+    expect(await screen.findByText(MOCK_ACCOUNT)).toBeInTheDocument();
+    expect(screen.getByTestId("chain")).toHaveTextContent("84532");
+    expect(await screen.findByText("true")).toBeInTheDocument();
+    expect(provider.requestsFor("wallet_addEthereumChain")).toHaveLength(1);
+  });
+
+  it("shows the error when the user rejects the connection", async () => {
+    provider.failNext("eth_requestAccounts", rpcError(4001, "User rejected the request"));
+    renderSession();
+
+    fireEvent.click(screen.getByRole("button", { name: "Connect" }));
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "User rejected the request"
+    );
+    expect(screen.getByTestId("account")).toHaveTextContent("disconnected");
+  });
+
+  it("follows account changes made in the wallet", async () => {
+    renderSession();
+    fireEvent.click(screen.getByRole("button", { name: "Connect" }));
+    await screen.findByText(MOCK_ACCOUNT);
+
+    act(() => provider.emit("accountsChanged", [OTHER_ACCOUNT]));
+    expect(screen.getByTestId("account")).toHaveTextContent(OTHER_ACCOUNT);
+
+    act(() => provider.emit("accountsChanged", []));
+    expect(screen.getByTestId("account")).toHaveTextContent("disconnected");
+    expect(localStorage.getItem("poolr:wallet-session")).toBeNull();
+  });
+
+  it("forgets the session when the wallet disconnects", async () => {
+    renderSession();
+    fireEvent.click(screen.getByRole("button", { name: "Connect" }));
+    await screen.findByText(MOCK_ACCOUNT);
+
+    act(() => provider.emit("disconnect", rpcError(4900, "Disconnected")));
+
+    expect(screen.getByTestId("account")).toHaveTextContent("disconnected");
+    expect(localStorage.getItem("poolr:wallet-session")).toBeNull();
+  });
+
+  it("restores a previous session on load without switching chains", async () => {
+    const { unmount } = renderSession();
+    fireEvent.click(screen.getByRole("button", { name: "Connect" }));
+    await screen.findByText(MOCK_ACCOUNT);
+    unmount();
+    // Meanwhile the wallet moved back to Base mainnet
+    provider.state.chainId = 8453;
+
+    renderSession();
+
+    expect(await screen.findByText(MOCK_ACCOUNT)).toBeInTheDocument();
+    expect(screen.getByTestId("chain")).toHaveTextContent("8453");
+    expect(provider.requestsFor("eth_requestAccounts")).toHaveLength(1);
+    expect(provider.requestsFor("eth_accounts")).toHaveLength(1);
+    expect(provider.requestsFor("wallet_switchEthereumChain")).toHaveLength(1);
+  });
+
+  it("forgets the session on disconnect", async () => {
+    const { unmount } = renderSession();
+    fireEvent.click(screen.getByRole("button", { name: "Connect" }));
+    await screen.findByText(MOCK_ACCOUNT);
+
+    fireEvent.click(screen.getByRole("button", { name: "Disconnect" }));
+    expect(await screen.findByText("disconnected")).toBeInTheDocument();
+    unmount();
+
+    renderSession();
+    await act(async () => {});
+    expect(screen.getByTestId("account")).toHaveTextContent("disconnected");
+    expect(provider.requestsFor("eth_accounts")).toHaveLength(0);
+  });
+});
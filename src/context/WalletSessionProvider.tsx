@@ -0,0 +1,228 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { Address } from "viem";
+import { WalletContext } from "./walletContext";
+import { useNetwork } from "../hooks/useNetwork";
+import {
+  connectWallet,
+  disconnectWallet,
+  forgetSession,
+  restoreSession,
+  subscribeToWalletEvents,
+  switchToChain,
+  type BaseAccountSDK,
+  type EventfulProvider,
+  type WalletSession,
+} from "../utils/walletService";
+import {
+  NO_CAPABILITIES,
+  getWalletCapabilities,
+  selectTransactionMode,
+  type WalletCapabilities,
+} from "../utils/walletProvider";
+import {
+  NETWORKS,
+  getNetworkByChainId,
+  isDeployed,
+  type NetworkId,
+} from "../utils/networks";
+
+/**
+ * Owns the wallet session: restores it on load, follows provider events and
+ * keeps the wallet on the active network
+ */
+const WalletSessionProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { network, setNetworkId } = useNetwork();
+  const [account, setAccount] = useState<Address | null>(null);
+  const [provider, setProvider] = useState<EventfulProvider | null>(null);
+  const [sdk, setSdk] = useState<BaseAccountSDK | null>(null);
+  const [chainId, setChainId] = useState<number | null>(null);
+  const [capabilities, setCapabilities] = useState<WalletCapabilities>(NO_CAPABILITIES);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [error, setError] = useState("");
+  const networkRef = useRef(network);
+
+  useEffect(() => {
+    networkRef.current = network;
+  }, [network]);
+
+  const reset = useCallback(() => {
+    setAccount(null);
+    setProvider(null);
+    setSdk(null);
+    setChainId(null);
+  }, []);
+
+  /**
+   * Ends the session for good: the wallet disconnected or exposes no account
+   */
+  const endSession = useCallback(() => {
+    forgetSession();
+    reset();
+  }, [reset]);
+
+  /**
+   * Adopts a session whose wallet is on the given chain
+   */
+  const adoptSession = useCallback((session: WalletSession, sessionChainId: number) => {
+    setAccount(session.address);
+    setProvider(session.provider);
+    setSdk(session.sdk);
+    setChainId(sessionChainId);
+    setError("");
+  }, []);
+
+  /**
+   * Switches the wallet to the active network and adopts the session
+   */
+  const startSession = useCallback(
+    async (session: WalletSession) => {
+      const target = networkRef.current;
+      const switched = await switchToChain(session.provider, target);
+      if (!switched) {
+        throw new Error(`Failed to switch to ${target.name} network`);
+      }
+
+      adoptSession(session, target.chain.id);
+    },
+    [adoptSession]
+  );
+
+  // Silently restore a previous session on load. Switching chains could
+  // prompt, so the wallet stays where it is until the user sends something.
+  useEffect(() => {
+    let cancelled = false;
+
+    restoreSession().then((session) => {
+      if (session && !cancelled) adoptSession(session, session.chainId);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [adoptSession]);
+
+  // Follow account and chain changes made in the wallet
+  useEffect(() => {
+    if (!provider) return;
+
+    return subscribeToWalletEvents(provider, {
+      onAccountsChanged: (accounts) => {
+        if (accounts.length === 0) {
+          endSession();
+        } else {
+          setAccount(accounts[0]);
+        }
+      },
+      onChainChanged: (newChainId) => {
+        setChainId(newChainId);
+
+        const match = getNetworkByChainId(newChainId);
+        if (match && isDeployed(match)) {
+          setNetworkId(match.id);
+        } else {
+          // Unknown chain, or no Funding contract on it: bring the wallet back
+          // to the active network
+          switchToChain(provider, networkRef.current).then((switched) => {
+            if (switched) setChainId(networkRef.current.chain.id);
+          });
+        }
+      },
+      onDisconnect: endSession,
+    });
+  }, [provider, endSession, setNetworkId]);
+
+  // Capabilities are per chain, so negotiate again whenever account or chain changes
+  useEffect(() => {
+    if (!provider || !account) {
+      setCapabilities(NO_CAPABILITIES);
+      return;
+    }
+
+    let cancelled = false;
+
+    getWalletCapabilities(provider, account, network.chain.id).then((result) => {
+      if (!cancelled) setCapabilities(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [provider, account, chainId, network]);
+
+  const connect = useCallback(async () => {
+    setError("");
+    setIsConnecting(true);
+
+    try {
+      await startSession(await connectWallet());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to connect wallet");
+      reset();
+    } finally {
+      setIsConnecting(false);
+    }
+  }, [startSession, reset]);
+
+  const disconnect = useCallback(async () => {
+    try {
+      if (sdk) {
+        await disconnectWallet(sdk);
+      }
+      reset();
+      setError("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to disconnect");
+    }
+  }, [sdk, reset]);
+
+  const switchNetwork = useCallback(
+    async (id: NetworkId) => {
+      setError("");
+
+      if (provider) {
+        const switched = await switchToChain(provider, NETWORKS[id]);
+        if (!switched) {
+          setError(`Failed to switch to ${NETWORKS[id].name} network`);
+          return;
+        }
+        setChainId(NETWORKS[id].chain.id);
+      }
+
+      setNetworkId(id);
+    },
+    [provider, setNetworkId]
+  );
+
+  const value = useMemo(
+    () => ({
+      account,
+      provider,
+      chainId,
+      capabilities,
+      transactionMode: selectTransactionMode(capabilities, network.paymasterUrl),
+      isConnecting,
+      error,
+      connect,
+      disconnect,
+      switchNetwork,
+    }),
+    [
+      account,
+      provider,
+      chainId,
+      capabilities,
+      network,
+      isConnecting,
+      error,
+      connect,
+      disconnect,
+      switchNetwork,
+    ]
+  );
+
+  return <WalletContext.Provider value={value}>{children}</WalletContext.Provider>;
+};
+
+export default WalletSessionProvider;
@@ -0,0 +1,24 @@
+import { createContext } from "react";
+import type { ActivityEntry } from "../utils/activityLog";
+
+export interface ActivityContextValue {
+  entries: ActivityEntry[];
+  pendingCount: number;
+  /** Records a newly submitted transaction */
+  track: (entry: ActivityEntry) => void;
+  /**
+   * Applies changes to a tracked entry. Setting a status, even "pending",
+   * stops the sender following it, and pending entries are then resumed.
+   */
+  update: (id: string, changes: Partial<ActivityEntry>) => void;
+  /** Removes every entry that is no longer pending */
+  clearFinished: () => void;
+}
+
+export const ActivityContext = createContext<ActivityContextValue>({
+  entries: [],
+  pendingCount: 0,
+  track: () => {},
+  update: () => {},
+  clearFinished: () => {},
+});
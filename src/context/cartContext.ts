@@ -0,0 +1,18 @@
+import { createContext } from "react";
+import type { CartItem } from "../utils/donationCart";
+
+export interface CartContextValue {
+  /** Items for the active network */
+  items: CartItem[];
+  /** Adds a donation, replacing the amount if the campaign is already in the cart */
+  add: (item: CartItem) => void;
+  remove: (campaignId: bigint) => void;
+  clear: () => void;
+}
+
+export const CartContext = createContext<CartContextValue>({
+  items: [],
+  add: () => {},
+  remove: () => {},
+  clear: () => {},
+});
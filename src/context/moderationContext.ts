@@ -0,0 +1,20 @@
+import { createContext } from "react";
+import type { ModerationAction, ModerationEntry, ModerationList } from "../utils/moderation";
+
+export interface ModerationContextValue {
+  /** Decisions for the active network's Funding contract */
+  entries: ModerationList;
+  /** Returns the decision for a campaign, if any */
+  get: (campaignId: bigint) => ModerationEntry | undefined;
+  /** Records a decision, or clears it when `action` is null */
+  moderate: (campaignId: bigint, action: ModerationAction | null, reason?: string) => void;
+  /** Replaces every decision, e.g. with an imported list */
+  replace: (entries: ModerationList) => void;
+}
+
+export const ModerationContext = createContext<ModerationContextValue>({
+  entries: {},
+  get: () => undefined,
+  moderate: () => {},
+  replace: () => {},
+});
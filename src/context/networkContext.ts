@@ -0,0 +1,17 @@
+import { createContext } from "react";
+import {
+  DEFAULT_NETWORK_ID,
+  getNetwork,
+  type DeployedNetwork,
+  type NetworkId,
+} from "../utils/networks";
+
+export interface NetworkContextValue {
+  network: DeployedNetwork;
+  setNetworkId: (id: NetworkId) => void;
+}
+
+export const NetworkContext = createContext<NetworkContextValue>({
+  network: getNetwork(DEFAULT_NETWORK_ID),
+  setNetworkId: () => {},
+});
@@ -0,0 +1,35 @@
+import { createContext } from "react";
+import type { Address } from "viem";
+import type { EventfulProvider } from "../utils/walletService";
+import type { TransactionMode } from "../utils/paymentService";
+import {
+  NO_CAPABILITIES,
+  type WalletCapabilities,
+} from "../utils/walletProvider";
+import type { NetworkId } from "../utils/networks";
+
+export interface WalletContextValue {
+  account: Address | null;
+  provider: EventfulProvider | null;
+  chainId: number | null;
+  capabilities: WalletCapabilities;
+  transactionMode: TransactionMode;
+  isConnecting: boolean;
+  error: string;
+  connect: () => Promise<void>;
+  disconnect: () => Promise<void>;
+  switchNetwork: (id: NetworkId) => Promise<void>;
+}
+
+export const WalletContext = createContext<WalletContextValue>({
+  account: null,
+  provider: null,
+  chainId: null,
+  capabilities: NO_CAPABILITIES,
+  transactionMode: "sendTransaction",
+  isConnecting: false,
+  error: "",
+  connect: async () => {},
+  disconnect: async () => {},
+  switchNetwork: async () => {},
+});
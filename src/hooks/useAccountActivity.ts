@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState } from "react";
+import type { Address } from "viem";
+import { useContract, type Donation } from "./useContract";
+import type { AccountActivity } from "../utils/logIndexer";
+
+/**
+ * Hook that loads the campaigns an account created and the donations it
+ * made, together with the current on-chain state of every campaign involved
+ * and what the account still has contributed to each, i.e. could be refunded
+ *
+ * Contributions are only looked up when the deployed contract supports payouts.
+ *
+ * @param account - The connected account, or null if none
+ */
+export const useAccountActivity = (account: Address | null) => {
+  const { getAccountActivity, getDonations, getContributions, getPayoutSupport } =
+    useContract();
+  const [activity, setActivity] = useState<AccountActivity | null>(null);
+  const [campaigns, setCampaigns] = useState<Map<bigint, Donation>>(new Map());
+  const [contributions, setContributions] = useState<Map<bigint, bigint>>(new Map());
+  const [supportsPayouts, setSupportsPayouts] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const refresh = useCallback(async () => {
+    if (!account) {
+      setActivity(null);
+      setCampaigns(new Map());
+      setContributions(new Map());
+      return;
+    }
+
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const result = await getAccountActivity(account);
+      const ids = new Set([
+        ...result.created.map(({ campaign }) => campaign.campaignId),
+        ...result.contributions.map(({ campaignId }) => campaignId),
+      ]);
+      const supported = await getPayoutSupport().catch((error) => {
+        console.log(`Error checking payout support: ${error}`);
+        return false;
+      });
+      const [donations, contributed] = await Promise.all([
+        getDonations([...ids]),
+        supported
+          ? getContributions(
+              result.contributions.map(({ campaignId }) => campaignId),
+              account
+            )
+          : new Map<bigint, bigint>(),
+      ]);
+
+      setActivity(result);
+      setCampaigns(new Map(donations.map(({ id, donation }) => [id, donation])));
+      setContributions(contributed);
+      setSupportsPayouts(supported);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load activity");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [account, getAccountActivity, getDonations, getContributions, getPayoutSupport]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { activity, campaigns, contributions, supportsPayouts, isLoading, error, refresh };
+};
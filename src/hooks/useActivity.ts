@@ -0,0 +1,8 @@
+import { useContext } from "react";
+import { ActivityContext } from "../context/activityContext";
+
+/**
+ * Hook that returns the persistent transaction activity log and the
+ * actions to record and update entries
+ */
+export const useActivity = () => useContext(ActivityContext);
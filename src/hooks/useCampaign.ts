@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from "react";
+import { useContract, type Donation } from "./useContract";
+
+/**
+ * Hook that loads a single campaign by ID
+ *
+ * `notFound` is set when the ID is beyond the number of campaigns created,
+ * so callers can render a 404 state instead of an error.
+ *
+ * @param id - The campaign ID, or null if the route parameter is not a valid ID
+ */
+export const useCampaign = (id: bigint | null) => {
+  const { getTotalDonations, getDonation } = useContract();
+  const [donation, setDonation] = useState<Donation | null>(null);
+  const [notFound, setNotFound] = useState(id === null);
+  const [isLoading, setIsLoading] = useState(id !== null);
+  const [error, setError] = useState("");
+
+  const refresh = useCallback(async () => {
+    if (id === null) {
+      setNotFound(true);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const total = await getTotalDonations();
+      if (id >= BigInt(total)) {
+        setDonation(null);
+        setNotFound(true);
+        return;
+      }
+
+      setDonation(await getDonation(id));
+      setNotFound(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load campaign");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getTotalDonations, getDonation, id]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { donation, notFound, isLoading, error, refresh };
+};
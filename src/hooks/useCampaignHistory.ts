@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useState } from "react";
+import { useContract } from "./useContract";
+import type { CampaignHistory } from "../utils/logIndexer";
+
+/**
+ * Hook that loads the donor history of a campaign from indexed events
+ *
+ * @param id - The campaign ID
+ * @param enabled - Whether to load the history (default: true)
+ */
+export const useCampaignHistory = (id: bigint, enabled: boolean = true) => {
+  const { getCampaignHistory } = useContract();
+  const [history, setHistory] = useState<CampaignHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError("");
+
+    try {
+      setHistory(await getCampaignHistory(id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load history");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getCampaignHistory, id]);
+
+  useEffect(() => {
+    if (enabled) {
+      refresh();
+    }
+  }, [enabled, refresh]);
+
+  return { history, isLoading, error, refresh };
+};
@@ -0,0 +1,55 @@
+import { useEffect, useState } from "react";
+import {
+  describeCampaign,
+  resolveCampaign,
+  type CampaignContent,
+} from "../utils/campaignMetadata";
+
+/**
+ * Delay before fetching details that were unavailable again
+ */
+const RETRY_DELAY_MS = 30_000;
+
+/**
+ * Hook that resolves a campaign's description to its off-chain details
+ *
+ * Legacy plain-text descriptions and already resolved documents are returned
+ * immediately; other references report `loading` until they are fetched.
+ * Details that are `unavailable` are fetched again after a delay for as long
+ * as the campaign is shown.
+ *
+ * @param description - The on-chain description
+ */
+export const useCampaignMetadata = (description: string): CampaignContent => {
+  const [content, setContent] = useState(() => describeCampaign(description));
+  const [source, setSource] = useState(description);
+  const [attempt, setAttempt] = useState(0);
+
+  // Reset synchronously when the campaign changes
+  if (source !== description) {
+    setSource(description);
+    setContent(describeCampaign(description));
+  }
+
+  useEffect(() => {
+    if (describeCampaign(description).status !== "loading") return;
+
+    let cancelled = false;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+
+    resolveCampaign(description).then((resolved) => {
+      if (cancelled) return;
+      setContent(resolved);
+      if (resolved.status === "unavailable") {
+        retry = setTimeout(() => setAttempt((count) => count + 1), RETRY_DELAY_MS);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(retry);
+    };
+  }, [description, attempt]);
+
+  return content;
+};
@@ -0,0 +1,26 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router";
+import {
+  parseCampaignQuery,
+  toSearchParams,
+  type CampaignQuery,
+} from "../utils/campaignQuery";
+
+/**
+ * Hook that keeps the campaign grid's search, filter and sort state in the
+ * URL query string, so it survives reloads and can be shared
+ */
+export const useCampaignQuery = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = useMemo(() => parseCampaignQuery(searchParams), [searchParams]);
+
+  const updateQuery = useCallback(
+    (changes: Partial<CampaignQuery>) => {
+      // Replace rather than push so typing in the search box does not flood history
+      setSearchParams(toSearchParams({ ...query, ...changes }), { replace: true });
+    },
+    [query, setSearchParams]
+  );
+
+  return { query, updateQuery };
+};
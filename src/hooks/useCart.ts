@@ -0,0 +1,7 @@
+import { useContext } from "react";
+import { CartContext } from "../context/cartContext";
+
+/**
+ * Hook that returns the donation cart and the actions to change it
+ */
+export const useCart = () => useContext(CartContext);
@@ -0,0 +1,22 @@
+import { useEffect, useState } from "react";
+import { nowInSeconds } from "../utils/campaignStatus";
+
+/**
+ * Hook that returns the current time in unix seconds, ticking every second
+ * until `until` so countdowns stay current
+ *
+ * @param until - Time in unix seconds to tick until, or null to not tick
+ */
+export const useClock = (until: bigint | null): bigint => {
+  const [now, setNow] = useState(nowInSeconds);
+  const running = until !== null && now < until;
+
+  useEffect(() => {
+    if (!running) return;
+
+    const timer = setInterval(() => setNow(nowInSeconds()), 1000);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  return now;
+};
@@ -1,5 +1,42 @@
-import { CONTRACT_ADDRESS, FUNDING_ABI } from "../utils/Funding";
-import { createClient } from "../utils/paymentService";
+import { useCallback, useMemo } from "react";
+import { FUNDING_ABI } from "../utils/Funding";
+import { isAddress, type Address } from "viem";
+import { useNetwork } from "./useNetwork";
+import { getPublicClient } from "../utils/paymentService";
+import {
+  getErc20Contract,
+  getFundingContract,
+  type FundingCampaign,
+} from "../utils/contracts";
+import {
+  getAccountActivity as fetchAccountActivity,
+  getCampaignHistory as fetchCampaignHistory,
+  syncFundingEvents,
+  type AccountActivity,
+  type CampaignHistory,
+  type IndexerState,
+} from "../utils/logIndexer";
+import {
+  watchFundingEvents as watchEvents,
+  type FundingEventHandlers,
+} from "../utils/liveEvents";
+import {
+  contractQueryKey,
+  dedupe,
+  fetchQuery,
+  getQueryData,
+  getQueryGeneration,
+  invalidateQueries,
+  isStale,
+  setQueryData,
+  type QueryKey,
+} from "../utils/queryCache";
+import {
+  checkPayout as fetchPayoutCheck,
+  supportsPayouts,
+  type PayoutCheck,
+} from "../utils/payouts";
+import type { PayoutKind } from "../utils/campaignStatus";
 
 interface Donation {
   targetAmount: bigint;
@@ -9,58 +46,328 @@ interface Donation {
   description: string;
 }
 
-export type { Donation };
+interface DonationWithId {
+  id: bigint;
+  donation: Donation;
+}
+
+/**
+ * Asset donations are denominated in. `address` is null when donations
+ * are not backed by an ERC-20 token.
+ */
+interface DonationToken {
+  address: `0x${string}` | null;
+  symbol: string;
+  decimals: number;
+}
+
+export type { Donation, DonationWithId, DonationToken };
 
 /**
- * Hook for interacting with the Funding contract
+ * Number of campaigns fetched per multicall request
+ */
+const MULTICALL_CHUNK_SIZE = 50;
+
+/**
+ * Converts a getDonation result into a Donation
+ */
+const toDonation = (campaign: FundingCampaign): Donation => ({
+  targetAmount: campaign.targetAmount,
+  totalDonated: campaign.totalDonated,
+  creator: campaign.creator,
+  timestamp: campaign.timestamp,
+  description: campaign.description,
+});
+
+export const NATIVE_DONATION_TOKEN: DonationToken = {
+  address: null,
+  symbol: "ETH",
+  decimals: 18,
+};
+
+/**
+ * Hook for interacting with the Funding contract on the active network
+ *
+ * Campaign, total and owner reads go through the shared query cache: they
+ * are served from cache for DEFAULT_STALE_TIME_MS, concurrent identical
+ * reads share one request, and confirmed writes invalidate what they changed.
  */
 export const useContract = () => {
-  const rpcUrl = import.meta.env.VITE_BASE_SEPOLIA_RPC;
-  const client = createClient(rpcUrl);
-
-  const getDonation = async (id: bigint): Promise<Donation> => {
-    const result = await client.readContract({
-      address: CONTRACT_ADDRESS as `0x${string}`,
-      abi: FUNDING_ABI,
-      functionName: "getDonation",
-      args: [id],
-    });
-
-    const donation = result as any;
-    return {
-      targetAmount: BigInt(donation.targetAmount),
-      totalDonated: BigInt(donation.totalDonated),
-      creator: donation.creator,
-      timestamp: BigInt(donation.timestamp),
-      description: donation.description,
-    };
-  };
+  const { network } = useNetwork();
+  const client = getPublicClient(network);
+  const contractAddress = network.fundingAddress;
+  const funding = useMemo(
+    () => getFundingContract(client, contractAddress),
+    [client, contractAddress]
+  );
 
-  const getTotalDonations = async (): Promise<number> => {
-    const result = await client.readContract({
-      address: CONTRACT_ADDRESS as `0x${string}`,
-      abi: FUNDING_ABI,
-      functionName: "totalDonations",
-    });
+  const queryKey = useCallback(
+    (...call: (string | bigint)[]) => contractQueryKey(network, contractAddress, ...call),
+    [network, contractAddress]
+  );
 
-    return Number(result);
-  };
+  const getDonation = useCallback(
+    (id: bigint): Promise<Donation> =>
+      fetchQuery(queryKey("getDonation", id), async () =>
+        toDonation(await funding.read.getDonation([id]))
+      ),
+    [funding, queryKey]
+  );
 
-  const getTotalDonated = async (id: bigint): Promise<bigint> => {
-    const result = await client.readContract({
-      address: CONTRACT_ADDRESS as `0x${string}`,
-      abi: FUNDING_ABI,
-      functionName: "getTotalDonated",
-      args: [id],
-    });
+  /**
+   * Returns cached campaigns, fresh or stale, without a request. Used to
+   * render right away while the campaigns are revalidated.
+   */
+  const peekDonations = useCallback(
+    (ids: bigint[]): DonationWithId[] =>
+      ids.flatMap((id) => {
+        const cached = getQueryData<Donation>(queryKey("getDonation", id));
+        return cached ? [{ id, donation: cached.data }] : [];
+      }),
+    [queryKey]
+  );
 
-    return BigInt(result as string);
-  };
+  /**
+   * Fetches several campaigns at once through Multicall3, in chunks of
+   * MULTICALL_CHUNK_SIZE. Only campaigns missing from the cache or stale are
+   * requested; campaigns that fail to load are served stale if cached and
+   * left out otherwise.
+   */
+  const getDonations = useCallback(
+    async (ids: bigint[]): Promise<DonationWithId[]> => {
+      const missing = ids.filter((id) => {
+        const cached = getQueryData(queryKey("getDonation", id));
+        return !cached || isStale(cached);
+      });
+
+      for (let i = 0; i < missing.length; i += MULTICALL_CHUNK_SIZE) {
+        const chunk = missing.slice(i, i + MULTICALL_CHUNK_SIZE);
+        const keys = chunk.map((id) => queryKey("getDonation", id));
+        const generations = keys.map(getQueryGeneration);
+        const results = await dedupe(
+          queryKey("getDonations", ...chunk),
+          () =>
+            client.multicall({
+              contracts: chunk.map(
+                (id) =>
+                  ({
+                    address: contractAddress,
+                    abi: FUNDING_ABI,
+                    functionName: "getDonation",
+                    args: [id],
+                  }) as const
+              ),
+              allowFailure: true,
+            }),
+          keys
+        );
+
+        // Campaigns invalidated while the chunk was in flight are not cached
+        const loaded: [QueryKey, Donation, number][] = [];
+        results.forEach((result, index) => {
+          if (result.status === "success") {
+            loaded.push([keys[index], toDonation(result.result), generations[index]]);
+          } else {
+            console.error(`Error loading donation ${chunk[index]}:`, result.error);
+          }
+        });
+        setQueryData(loaded);
+      }
+
+      return peekDonations(ids);
+    },
+    [client, contractAddress, queryKey, peekDonations]
+  );
+
+  const getTotalDonations = useCallback(
+    (): Promise<number> =>
+      fetchQuery(queryKey("totalDonations"), async () =>
+        Number(await funding.read.totalDonations())
+      ),
+    [funding, queryKey]
+  );
+
+  /**
+   * Returns the cached number of campaigns, fresh or stale, without a request
+   */
+  const peekTotalDonations = useCallback(
+    (): number | undefined => getQueryData<number>(queryKey("totalDonations"))?.data,
+    [queryKey]
+  );
+
+  const getTotalDonated = useCallback(
+    (id: bigint): Promise<bigint> =>
+      fetchQuery(queryKey("getTotalDonated", id), () =>
+        funding.read.getTotalDonated([id])
+      ),
+    [funding, queryKey]
+  );
+
+  const getOwner = useCallback(
+    (): Promise<Address> => fetchQuery(queryKey("owner"), () => funding.read.owner()),
+    [funding, queryKey]
+  );
+
+  /**
+   * Marks cached reads of the given campaigns as stale, e.g. after a
+   * confirmed donation or a live event
+   */
+  const invalidateCampaigns = useCallback(
+    (ids: bigint[]) => {
+      for (const id of ids) {
+        invalidateQueries(queryKey("getDonation", id));
+        invalidateQueries(queryKey("getTotalDonated", id));
+      }
+    },
+    [queryKey]
+  );
+
+  /**
+   * Marks the cached number of campaigns as stale, e.g. after a campaign is created
+   */
+  const invalidateCampaignCount = useCallback(
+    () => invalidateQueries(queryKey("totalDonations")),
+    [queryKey]
+  );
+
+  const getContribution = useCallback(
+    (id: bigint, donor: Address): Promise<bigint> =>
+      funding.read.getContribution([id, donor]),
+    [funding]
+  );
+
+  /**
+   * Fetches what a donor has contributed to several campaigns through
+   * Multicall3. Campaigns whose lookup fails are left out.
+   */
+  const getContributions = useCallback(
+    async (ids: bigint[], donor: Address): Promise<Map<bigint, bigint>> => {
+      const contributions = new Map<bigint, bigint>();
+
+      for (let i = 0; i < ids.length; i += MULTICALL_CHUNK_SIZE) {
+        const chunk = ids.slice(i, i + MULTICALL_CHUNK_SIZE);
+        const results = await client.multicall({
+          contracts: chunk.map(
+            (id) =>
+              ({
+                address: contractAddress,
+                abi: FUNDING_ABI,
+                functionName: "getContribution",
+                args: [id, donor],
+              }) as const
+          ),
+          allowFailure: true,
+        });
+
+        results.forEach((result, index) => {
+          if (result.status === "success") {
+            contributions.set(chunk[index], result.result);
+          } else {
+            console.error(`Error loading contribution to ${chunk[index]}:`, result.error);
+          }
+        });
+      }
+
+      return contributions;
+    },
+    [client, contractAddress]
+  );
+
+  /**
+   * Whether the deployed contract implements withdrawals and refunds. Its
+   * bytecode never changes, so the answer is cached for the session.
+   */
+  const getPayoutSupport = useCallback(
+    (): Promise<boolean> =>
+      fetchQuery(
+        queryKey("supportsPayouts"),
+        () => supportsPayouts(client, contractAddress),
+        Infinity
+      ),
+    [client, contractAddress, queryKey]
+  );
+
+  // Payout checks follow the contract's current state, so they are never cached
+  const checkPayout = useCallback(
+    (kind: PayoutKind, id: bigint, account: Address): Promise<PayoutCheck> =>
+      fetchPayoutCheck(client, contractAddress, kind, id, account),
+    [client, contractAddress]
+  );
+
+  const getDonationToken = useCallback(async (): Promise<DonationToken> => {
+    const address = network.donationTokenAddress;
+    if (!isAddress(address)) {
+      return NATIVE_DONATION_TOKEN;
+    }
+
+    // Token metadata never changes, so it is cached for the session
+    return fetchQuery(
+      contractQueryKey(network, address, "metadata"),
+      async () => {
+        const token = getErc20Contract(client, address);
+        const [symbol, decimals] = await Promise.all([
+          token.read.symbol(),
+          token.read.decimals(),
+        ]);
+
+        return { address, symbol, decimals };
+      },
+      Infinity
+    );
+  }, [client, network]);
+
+  // Allowances decide whether to add an approval, so they are always read fresh
+  const getAllowance = useCallback(
+    (token: Address, owner: Address): Promise<bigint> =>
+      getErc20Contract(client, token).read.allowance([owner, contractAddress]),
+    [client, contractAddress]
+  );
+
+  const getCampaignHistory = useCallback(
+    (id: bigint): Promise<CampaignHistory> => fetchCampaignHistory(client, network, id),
+    [client, network]
+  );
+
+  const getAccountActivity = useCallback(
+    (account: string): Promise<AccountActivity> =>
+      fetchAccountActivity(client, network, account),
+    [client, network]
+  );
+
+  /**
+   * Syncs and returns every indexed Funding event, for platform-wide statistics
+   */
+  const getIndexedEvents = useCallback(
+    (): Promise<IndexerState> => syncFundingEvents(client, network),
+    [client, network]
+  );
+
+  const watchFundingEvents = useCallback(
+    (handlers: FundingEventHandlers) => watchEvents(client, network, handlers),
+    [client, network]
+  );
 
   return {
+    client,
     getDonation,
+    getDonations,
+    peekDonations,
     getTotalDonations,
+    peekTotalDonations,
     getTotalDonated,
-    contractAddress: CONTRACT_ADDRESS,
+    getOwner,
+    invalidateCampaigns,
+    invalidateCampaignCount,
+    getContribution,
+    getContributions,
+    getPayoutSupport,
+    checkPayout,
+    getDonationToken,
+    getAllowance,
+    getCampaignHistory,
+    getAccountActivity,
+    getIndexedEvents,
+    watchFundingEvents,
+    contractAddress,
   };
 };
@@ -0,0 +1,51 @@
+import { useEffect, useRef, useState } from "react";
+import { useContract } from "./useContract";
+import type { FundingEventHandlers, LiveStatus } from "../utils/liveEvents";
+
+/**
+ * Hook that subscribes to live Funding contract events for the lifetime of
+ * the component and returns the connection status
+ *
+ * Cached reads of the affected campaign are invalidated before the handlers
+ * run, so handlers that re-read it get the new state.
+ *
+ * @param handlers - Callbacks for new campaigns, donations, withdrawals and refunds
+ */
+export const useLiveFundingEvents = (
+  handlers: Omit<FundingEventHandlers, "onStatusChange">
+): LiveStatus => {
+  const { watchFundingEvents, invalidateCampaigns, invalidateCampaignCount } =
+    useContract();
+  const [status, setStatus] = useState<LiveStatus>("connecting");
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  }, [handlers]);
+
+  useEffect(
+    () =>
+      watchFundingEvents({
+        onDonationCreated: (record) => {
+          invalidateCampaignCount();
+          handlersRef.current.onDonationCreated?.(record);
+        },
+        onDonationMade: (record) => {
+          invalidateCampaigns([record.campaignId]);
+          handlersRef.current.onDonationMade?.(record);
+        },
+        onFundsWithdrawn: (record) => {
+          invalidateCampaigns([record.campaignId]);
+          handlersRef.current.onFundsWithdrawn?.(record);
+        },
+        onRefundClaimed: (record) => {
+          invalidateCampaigns([record.campaignId]);
+          handlersRef.current.onRefundClaimed?.(record);
+        },
+        onStatusChange: setStatus,
+      }),
+    [watchFundingEvents, invalidateCampaigns, invalidateCampaignCount]
+  );
+
+  return status;
+};
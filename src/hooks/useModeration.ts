@@ -0,0 +1,7 @@
+import { useContext } from "react";
+import { ModerationContext } from "../context/moderationContext";
+
+/**
+ * Hook that returns the moderation list and the actions to change it
+ */
+export const useModeration = () => useContext(ModerationContext);
@@ -0,0 +1,7 @@
+import { useContext } from "react";
+import { NetworkContext } from "../context/networkContext";
+
+/**
+ * Hook that returns the active network and a setter to change it
+ */
+export const useNetwork = () => useContext(NetworkContext);
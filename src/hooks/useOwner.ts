@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+import type { Address } from "viem";
+import { useContract } from "./useContract";
+
+/**
+ * Hook that reads the Funding contract's owner and whether it is the
+ * connected account
+ *
+ * @param account - The connected account, or null if none
+ */
+export const useOwner = (account: Address | null) => {
+  const { getOwner } = useContract();
+  const [owner, setOwner] = useState<Address | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    getOwner()
+      .then((address) => {
+        if (!cancelled) setOwner(address);
+      })
+      .catch((error) => {
+        console.log(`Error reading contract owner: ${error}`);
+        if (!cancelled) setOwner(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [getOwner]);
+
+  return {
+    owner,
+    isOwner: !!owner && !!account && owner.toLowerCase() === account.toLowerCase(),
+    isLoading,
+  };
+};
@@ -0,0 +1,74 @@
+import { useEffect } from "react";
+
+/**
+ * Metadata describing the current page
+ */
+export interface PageMetadata {
+  title: string;
+  description?: string;
+  url?: string;
+}
+
+/**
+ * Sets a meta tag in the document head, creating it if needed
+ *
+ * @returns The tag's previous content, or null if it did not exist
+ */
+const setMetaTag = (
+  attribute: "name" | "property",
+  key: string,
+  content: string
+): string | null => {
+  let tag = document.head.querySelector<HTMLMetaElement>(
+    `meta[${attribute}="${key}"]`
+  );
+  const previous = tag?.content ?? null;
+
+  if (!tag) {
+    tag = document.createElement("meta");
+    tag.setAttribute(attribute, key);
+    document.head.appendChild(tag);
+  }
+  tag.content = content;
+
+  return previous;
+};
+
+/**
+ * Hook that sets the document title, description and Open Graph tags for
+ * the lifetime of the component, restoring the previous values on unmount
+ *
+ * @param metadata - Title, description and canonical URL of the page
+ */
+export const usePageMetadata = ({ title, description, url }: PageMetadata) => {
+  useEffect(() => {
+    const previousTitle = document.title;
+    const tags: Array<["name" | "property", string, string | undefined]> = [
+      ["name", "description", description],
+      ["property", "og:title", title],
+      ["property", "og:description", description],
+      ["property", "og:url", url],
+      ["name", "twitter:title", title],
+      ["name", "twitter:description", description],
+    ];
+
+    document.title = title;
+    const restore = tags
+      .filter(([, , content]) => content !== undefined)
+      .map(([attribute, key, content]) => {
+        const previous = setMetaTag(attribute, key, content!);
+        return () => {
+          if (previous === null) {
+            document.head.querySelector(`meta[${attribute}="${key}"]`)?.remove();
+          } else {
+            setMetaTag(attribute, key, previous);
+          }
+        };
+      });
+
+    return () => {
+      document.title = previousTitle;
+      restore.forEach((undo) => undo());
+    };
+  }, [title, description, url]);
+};
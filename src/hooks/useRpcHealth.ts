@@ -0,0 +1,16 @@
+import { useCallback, useSyncExternalStore } from "react";
+import { getRpcHealth, subscribeRpcHealth, type RpcHealth } from "../utils/rpcTransport";
+import { useNetwork } from "./useNetwork";
+
+/**
+ * Hook that returns the health of the active network's RPC endpoints,
+ * updating as requests succeed, retry and fail over
+ *
+ * @returns The endpoints' health, or undefined before the first client is created
+ */
+export const useRpcHealth = (): RpcHealth | undefined => {
+  const { network } = useNetwork();
+  const getSnapshot = useCallback(() => getRpcHealth(network.id), [network.id]);
+
+  return useSyncExternalStore(subscribeRpcHealth, getSnapshot);
+};
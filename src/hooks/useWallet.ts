@@ -0,0 +1,8 @@
+import { useContext } from "react";
+import { WalletContext } from "../context/walletContext";
+
+/**
+ * Hook that returns the wallet session: account, provider, capabilities
+ * and the actions to connect, disconnect and switch networks
+ */
+export const useWallet = () => useContext(WalletContext);
@@ -1,10 +1,33 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
+import { BrowserRouter } from 'react-router'
 import './index.css'
 import App from './App.tsx'
+import NetworkProvider from './context/NetworkProvider.tsx'
+import WalletSessionProvider from './context/WalletSessionProvider.tsx'
+import ActivityProvider from './context/ActivityProvider.tsx'
+import CartProvider from './context/CartProvider.tsx'
+import ModerationProvider from './context/ModerationProvider.tsx'
+import { hydrateQueryCache } from './utils/queryCache.ts'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
+// Load persisted reads first so cached campaigns render on the first paint; a
+// slow or blocked IndexedDB only delays it by the hydration timeout
+hydrateQueryCache().then(() =>
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <BrowserRouter>
+        <NetworkProvider>
+          <WalletSessionProvider>
+            <ActivityProvider>
+              <CartProvider>
+                <ModerationProvider>
+                  <App />
+                </ModerationProvider>
+              </CartProvider>
+            </ActivityProvider>
+          </WalletSessionProvider>
+        </NetworkProvider>
+      </BrowserRouter>
+    </StrictMode>,
+  ),
 )
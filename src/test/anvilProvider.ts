@@ -0,0 +1,115 @@
+/**
+ * Anvil Wallet Provider
+ *
+ * An EIP-1193 provider for integration tests that signs with one of Anvil's
+ * unlocked dev accounts:
+ * - eth_* requests are forwarded to the node
+ * - wallet_sendCalls is emulated by sending each call as its own transaction
+ *   and recording the receipts, which wallet_getCallsStatus then reports
+ *
+ * @module anvilProvider
+ */
+
+import { http, numberToHex, type Address, type Hex } from "viem";
+import type {
+  CallsStatus,
+  ChainCapabilities,
+  EventfulProvider,
+  RequestProvider,
+  SendCallsParams,
+} from "../utils/walletRpc";
+
+/**
+ * First of Anvil's default dev accounts
+ */
+export const ANVIL_ACCOUNT: Address = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+
+/**
+ * How long to wait for a transaction to be mined before giving up
+ */
+const RECEIPT_TIMEOUT_MS = 30_000;
+
+type Receipt = {
+  transactionHash: Hex;
+  blockHash: Hex;
+  blockNumber: Hex;
+  gasUsed: Hex;
+  status: Hex;
+  logs: { address: Address; data: Hex; topics: [Hex, ...Hex[]] | [] }[];
+};
+
+/**
+ * Creates a provider that sends from an unlocked Anvil account
+ *
+ * @param rpcUrl - The Anvil node, e.g. http://127.0.0.1:8545
+ * @param account - Unlocked account to send from (default: ANVIL_ACCOUNT)
+ * @returns The provider
+ *
+ * @example
+ * const provider = createAnvilProvider(import.meta.env.ANVIL_RPC_URL);
+ */
+export const createAnvilProvider = (
+  rpcUrl: string,
+  account: Address = ANVIL_ACCOUNT
+): EventfulProvider => {
+  const node = http(rpcUrl)({});
+  const batches = new Map<string, CallsStatus>();
+
+  const waitForReceipt = async (hash: Hex): Promise<Receipt> => {
+    const deadline = Date.now() + RECEIPT_TIMEOUT_MS;
+
+    while (Date.now() < deadline) {
+      const receipt = (await node.request({
+        method: "eth_getTransactionReceipt",
+        params: [hash],
+      })) as Receipt | null;
+      if (receipt) return receipt;
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    throw new Error(`Transaction ${hash} was not mined within ${RECEIPT_TIMEOUT_MS}ms`);
+  };
+
+  const sendCalls = async ({ calls }: SendCallsParams) => {
+    const receipts: Receipt[] = [];
+
+    for (const call of calls) {
+      const hash = (await node.request({
+        method: "eth_sendTransaction",
+        params: [{ from: account, ...call }],
+      })) as Hex;
+      receipts.push(await waitForReceipt(hash));
+    }
+
+    const id = numberToHex(batches.size + 1, { size: 32 });
+    batches.set(id, {
+      status: receipts.every((receipt) => receipt.status === "0x1") ? 200 : 500,
+      receipts,
+    });
+    return id;
+  };
+
+  const request = async ({ method, params }: { method: string; params?: unknown[] }) => {
+    switch (method) {
+      case "eth_requestAccounts":
+      case "eth_accounts":
+        return [account];
+      case "wallet_switchEthereumChain":
+      case "wallet_addEthereumChain":
+        return null;
+      case "wallet_getCapabilities":
+        return {
+          "0x0": { atomic: { status: "unsupported" } },
+        } satisfies Record<string, ChainCapabilities>;
+      case "wallet_sendCalls":
+        return sendCalls((params as [SendCallsParams])[0]);
+      case "wallet_getCallsStatus":
+        return batches.get((params as [string])[0]) ?? { status: 100 };
+      default:
+        return node.request({ method, params } as Parameters<typeof node.request>[0]);
+    }
+  };
+
+  // Results follow the schema per method; the switch above is untyped
+  return { request: request as RequestProvider["request"] };
+};
@@ -0,0 +1,132 @@
+/**
+ * Integration tests against a Funding contract on a local Anvil node
+ *
+ * Skipped unless ANVIL_RPC_URL and ANVIL_FUNDING_BYTECODE are set. A fresh
+ * Funding contract is deployed from the given creation bytecode before the
+ * tests run, so a plain Anvil node is enough:
+ *
+ *   anvil
+ *   ANVIL_RPC_URL=http://127.0.0.1:8545 \
+ *   ANVIL_FUNDING_BYTECODE=$(forge inspect Funding bytecode) npm test
+ */
+
+import { beforeAll, describe, expect, it } from "vitest";
+import { createWalletClient, http, isHex, type Address, type Hex } from "viem";
+import { FUNDING_ABI } from "../../utils/Funding";
+import { NETWORKS, type NetworkConfig } from "../../utils/networks";
+import {
+  createClient,
+  encodeContractCall,
+  executeTransaction,
+} from "../../utils/paymentService";
+import type { ContractCall } from "../../utils/preflight";
+import { fundingCall, getFundingContract } from "../../utils/contracts";
+import { decodeFundingLogs } from "../../utils/logIndexer";
+import { mapCartResults, buildCartCalls } from "../../utils/donationCart";
+import { ANVIL_ACCOUNT, createAnvilProvider } from "../anvilProvider";
+
+const RPC_URL: string | undefined = import.meta.env.ANVIL_RPC_URL;
+const FUNDING_BYTECODE: Hex = isHex(import.meta.env.ANVIL_FUNDING_BYTECODE)
+  ? import.meta.env.ANVIL_FUNDING_BYTECODE
+  : "0x";
+
+const encode = (calls: ContractCall[]) =>
+  calls.map(({ address, abi, functionName, args }) =>
+    encodeContractCall(address, abi, functionName, args)
+  );
+
+describe.skipIf(!RPC_URL || FUNDING_BYTECODE === "0x")("Funding on Anvil", () => {
+  const network: NetworkConfig = {
+    ...NETWORKS.anvil,
+    rpcUrls: RPC_URL ? [RPC_URL] : NETWORKS.anvil.rpcUrls,
+  };
+  const client = createClient(network);
+  const provider = createAnvilProvider(network.rpcUrls[0]);
+  let fundingAddress: Address;
+  let funding: ReturnType<typeof getFundingContract>;
+
+  beforeAll(async () => {
+    const wallet = createWalletClient({
+      account: ANVIL_ACCOUNT,
+      chain: network.chain,
+      transport: http(network.rpcUrls[0]),
+    });
+    const hash = await wallet.deployContract({
+      abi: FUNDING_ABI,
+      bytecode: FUNDING_BYTECODE,
+      args: [ANVIL_ACCOUNT],
+    });
+    const { contractAddress } = await client.waitForTransactionReceipt({
+      hash,
+      timeout: 30_000,
+    });
+    if (!contractAddress) {
+      throw new Error("Funding deployment did not create a contract");
+    }
+
+    fundingAddress = contractAddress;
+    funding = getFundingContract(client, fundingAddress);
+  });
+
+  const createCampaign = async (description: string) => {
+    const { status } = await executeTransaction({
+      provider,
+      from: ANVIL_ACCOUNT,
+      calls: encode([
+        fundingCall(fundingAddress, "createDonation", [1000n, description]),
+      ]),
+      mode: "sendTransaction",
+      client,
+    });
+    const receipt = await client.getTransactionReceipt({
+      hash: status.receipts![0].transactionHash,
+    });
+    const { created } = await decodeFundingLogs(client, receipt.logs);
+    return created[0];
+  };
+
+  it("creates a campaign with a user-paid transaction", async () => {
+    const before = await funding.read.totalDonations();
+
+    const campaign = await createCampaign("Anvil campaign");
+
+    expect(await funding.read.totalDonations()).toBe(before + 1n);
+    expect(campaign).toMatchObject({
+      campaignId: before,
+      targetAmount: 1000n,
+      creator: ANVIL_ACCOUNT,
+      description: "Anvil campaign",
+    });
+
+    const stored = await funding.read.getDonation([campaign.campaignId]);
+    expect(stored.description).toBe("Anvil campaign");
+  });
+
+  it("donates to several campaigns in one batch", async () => {
+    const first = await createCampaign("First cart campaign");
+    const second = await createCampaign("Second cart campaign");
+    // 100 and 200 wei with 18 decimals
+    const items = [first, second].map((campaign, index) => ({
+      campaignId: campaign.campaignId,
+      description: campaign.description,
+      amount: `0.000000000000000${index + 1}`,
+    }));
+
+    const { status } = await executeTransaction({
+      provider,
+      from: ANVIL_ACCOUNT,
+      calls: encode(buildCartCalls(items, 18, fundingAddress, null)),
+      paymasterUrl: "http://paymaster.invalid",
+      chainId: network.chain.id,
+      backoff: { initialDelayMs: 100 },
+    });
+
+    expect(await funding.read.getTotalDonated([first.campaignId])).toBe(100n);
+    expect(await funding.read.getTotalDonated([second.campaignId])).toBe(200n);
+    expect(
+      mapCartResults(items, status, ANVIL_ACCOUNT, fundingAddress, 18).map(
+        (result) => result.success
+      )
+    ).toEqual([true, true]);
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Mock Wallet Provider
+ *
+ * A scriptable, in-memory EIP-1193 provider for tests. It emulates the
+ * wallet methods the app calls:
+ * - eth_requestAccounts, eth_accounts and eth_chainId
+ * - wallet_switchEthereumChain, failing with 4902 for chains the wallet does
+ *   not know until wallet_addEthereumChain adds them
+ * - wallet_getCapabilities, wallet_sendCalls and wallet_getCallsStatus
+ * - eth_sendTransaction
+ *
+ * Every request is recorded, and any method can be made to fail or answer
+ * differently for a single test.
+ *
+ * @module mockProvider
+ */
+
+import { numberToHex, padHex, type Address, type Hex } from "viem";
+import type {
+  CallsStatus,
+  ChainCapabilities,
+  EventfulProvider,
+  RequestProvider,
+  SendCallsParams,
+  WalletEventMap,
+  WalletRpcMethod,
+} from "../utils/walletRpc";
+
+export const MOCK_ACCOUNT: Address = "0x1111111111111111111111111111111111111111";
+
+/**
+ * Initial state of a mock provider
+ */
+export interface MockProviderOptions {
+  /** Accounts returned once connected (default: [MOCK_ACCOUNT]) */
+  accounts?: Address[];
+  /** Whether eth_accounts already returns the accounts (default: false) */
+  connected?: boolean;
+  /** Active chain (default: Base Sepolia) */
+  chainId?: number;
+  /** Chains the wallet can switch to without adding them (default: the active chain) */
+  knownChains?: number[];
+  /** Result of wallet_getCapabilities, or null if the wallet does not implement it */
+  capabilities?: Record<string, ChainCapabilities> | null;
+  /**
+   * Statuses returned by successive wallet_getCallsStatus polls of a batch;
+   * the last one repeats (default: confirmed on the first poll)
+   */
+  callsStatuses?: CallsStatus[];
+  /** Return `{ id }` from wallet_sendCalls instead of a bare batch ID */
+  sendCallsReturnsObject?: boolean;
+}
+
+export interface RecordedRequest {
+  method: string;
+  params?: unknown;
+}
+
+type Handler = (params: unknown) => unknown;
+
+/**
+ * The mock provider with its recorded state and scripting helpers
+ */
+export interface MockProvider extends EventfulProvider {
+  /** Every request made, in order */
+  requests: RecordedRequest[];
+  /** Batches sent through wallet_sendCalls, by batch ID */
+  batches: Map<string, SendCallsParams>;
+  /** Transactions sent through eth_sendTransaction, by hash */
+  transactions: Map<Hex, unknown>;
+  state: {
+    accounts: Address[];
+    connected: boolean;
+    chainId: number;
+    knownChains: Set<number>;
+  };
+  /** Replaces the handler of a method */
+  setHandler: (method: WalletRpcMethod, handler: Handler) => void;
+  /** Makes the next request of a method fail with the given error */
+  failNext: (method: WalletRpcMethod, error: Error) => void;
+  /** Emits a provider event to every listener */
+  emit: <E extends keyof WalletEventMap>(event: E, payload: WalletEventMap[E]) => void;
+  /** Requests made with the given method */
+  requestsFor: (method: WalletRpcMethod) => RecordedRequest[];
+}
+
+/**
+ * Creates an EIP-1193 error with a code, like a wallet would throw
+ *
+ * @param code - EIP-1193 error code, e.g. 4001 or 4902
+ * @param message - Error message
+ */
+export const rpcError = (code: number, message: string) =>
+  Object.assign(new Error(message), { code });
+
+const CONFIRMED: CallsStatus = { status: "CONFIRMED", receipts: [] };
+
+/**
+ * Creates a scriptable in-memory wallet provider
+ *
+ * @param options - Initial accounts, chain, capabilities and batch statuses
+ * @returns The provider, usable anywhere a RequestProvider is expected
+ *
+ * @example
+ * const provider = createMockProvider({ knownChains: [] });
+ * await switchToChain(provider, NETWORKS.baseSepolia); // goes through 4902
+ */
+export const createMockProvider = (
+  options: MockProviderOptions = {}
+): MockProvider => {
+  const chainId = options.chainId ?? 84532;
+  const state: MockProvider["state"] = {
+    accounts: options.accounts ?? [MOCK_ACCOUNT],
+    connected: options.connected ?? false,
+    chainId,
+    knownChains: new Set(options.knownChains ?? [chainId]),
+  };
+  const requests: RecordedRequest[] = [];
+  const batches = new Map<string, SendCallsParams>();
+  const polls = new Map<string, number>();
+  const transactions = new Map<Hex, unknown>();
+  const listeners = new Map<string, Set<(payload: never) => void>>();
+  const overrides = new Map<string, Handler>();
+  const failures = new Map<string, Error>();
+  let nonce = 0;
+
+  const emit: MockProvider["emit"] = (event, payload) => {
+    listeners.get(event)?.forEach((listener) => listener(payload as never));
+  };
+
+  const handlers: Record<WalletRpcMethod, Handler> = {
+    eth_requestAccounts: () => {
+      state.connected = true;
+      return state.accounts;
+    },
+    eth_accounts: () => (state.connected ? state.accounts : []),
+    eth_chainId: () => numberToHex(state.chainId),
+    wallet_switchEthereumChain: (params) => {
+      const [{ chainId: target }] = params as [{ chainId: Hex }];
+      const id = Number(target);
+      if (!state.knownChains.has(id)) {
+        throw rpcError(4902, `Unrecognized chain ID ${target}`);
+      }
+      state.chainId = id;
+      emit("chainChanged", target);
+      return null;
+    },
+    wallet_addEthereumChain: (params) => {
+      const [{ chainId: target }] = params as [{ chainId: Hex }];
+      state.knownChains.add(Number(target));
+      state.chainId = Number(target);
+      emit("chainChanged", target);
+      return null;
+    },
+    eth_sendTransaction: (params) => {
+      const hash = padHex(numberToHex(++nonce), { size: 32 });
+      transactions.set(hash, (params as unknown[])[0]);
+      return hash;
+    },
+    wallet_sendCalls: (params) => {
+      const [batch] = params as [SendCallsParams];
+      const id = `0xbatch${++nonce}`;
+      batches.set(id, batch);
+      return options.sendCallsReturnsObject ? { id } : id;
+    },
+    wallet_getCallsStatus: (params) => {
+      const [id] = params as [string];
+      if (!batches.has(id)) {
+        throw rpcError(5730, `Unknown bundle id ${id}`);
+      }
+      const statuses = options.callsStatuses ?? [CONFIRMED];
+      const poll = polls.get(id) ?? 0;
+      polls.set(id, poll + 1);
+      return statuses[Math.min(poll, statuses.length - 1)];
+    },
+    wallet_getCapabilities: () => {
+      if (options.capabilities === null) {
+        throw rpcError(4200, "Method not supported");
+      }
+      return options.capabilities ?? {};
+    },
+  };
+
+  const request = async ({ method, params }: { method: string; params?: unknown }) => {
+    requests.push({ method, params });
+
+    const failure = failures.get(method);
+    if (failure) {
+      failures.delete(method);
+      throw failure;
+    }
+
+    const handler = overrides.get(method) ?? handlers[method as WalletRpcMethod];
+    if (!handler) {
+      throw rpcError(4200, `Method ${method} not supported`);
+    }
+    return handler(params);
+  };
+
+  return {
+    // Results follow the schema per method; the handler table is untyped
+    request: request as RequestProvider["request"],
+    on: (event, listener) => {
+      const set = listeners.get(event) ?? new Set();
+      set.add(listener as (payload: never) => void);
+      listeners.set(event, set);
+    },
+    removeListener: (event, listener) => {
+      listeners.get(event)?.delete(listener as (payload: never) => void);
+    },
+    requests,
+    batches,
+    transactions,
+    state,
+    setHandler: (method, handler) => overrides.set(method, handler),
+    failNext: (method, error) => failures.set(method, error),
+    emit,
+    requestsFor: (method) => requests.filter((entry) => entry.method === method),
+  };
+};
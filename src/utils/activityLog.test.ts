@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createMockProvider, MOCK_ACCOUNT, rpcError } from "../test/mockProvider";
+import { resumeActivity, type ActivityEntry } from "./activityLog";
+import type { createClient } from "./paymentService";
+
+const client = {
+  waitForTransactionReceipt: vi.fn(async () => ({ status: "reverted" })),
+} as unknown as ReturnType<typeof createClient>;
+
+const entry = (mode: ActivityEntry["mode"]): ActivityEntry => ({
+  id: "0xbatch",
+  batchId: "0xbatch",
+  mode,
+  chainId: 84532,
+  from: MOCK_ACCOUNT,
+  intent: { kind: "donate", campaignId: "1", amount: "1", symbol: "ETH" },
+  callCount: 1,
+  status: "pending",
+  transactionHashes: ["0xbatch"],
+  submittedAt: 0,
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("resumeActivity", () => {
+  it("leaves a batch pending when confirmation times out", async () => {
+    vi.useFakeTimers();
+    const provider = createMockProvider();
+    provider.setHandler("wallet_getCallsStatus", () => ({ status: 100 }));
+
+    const changes = resumeActivity(entry("sponsored"), provider, client);
+    await vi.runAllTimersAsync();
+
+    expect(await changes).toEqual({});
+  });
+
+  it("leaves a batch pending when the wallet cannot be reached", async () => {
+    const provider = createMockProvider();
+    provider.setHandler("wallet_getCallsStatus", () => {
+      throw rpcError(-32603, "Internal error");
+    });
+
+    expect(await resumeActivity(entry("sponsored"), provider, client)).toEqual({});
+  });
+
+  it("fails batches the wallet or the chain report as failed", async () => {
+    const provider = createMockProvider();
+    provider.setHandler("wallet_getCallsStatus", () => ({ status: 500 }));
+
+    expect(await resumeActivity(entry("sponsored"), provider, client)).toEqual({
+      status: "failed",
+      error: "Transaction failed: 500",
+    });
+    expect(await resumeActivity(entry("sendTransaction"), provider, client)).toEqual({
+      status: "failed",
+      error: "Transaction 0xbatch reverted",
+    });
+  });
+});
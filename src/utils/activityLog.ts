@@ -0,0 +1,193 @@
+/**
+ * Activity Log Module
+ *
+ * This module keeps a persistent record of the transactions the user submits:
+ * - Storing each submitted batch with its intent (create, donate, withdraw or
+ *   refund) in local storage
+ * - Resuming confirmation polling for batches still pending after a reload
+ * - Describing entries for display in the activity center
+ *
+ * @module activityLog
+ */
+
+import {
+  getCallsStatus,
+  isCallsFailed,
+  waitForBatchConfirmation,
+  type CallsStatus,
+  type createClient,
+  type RequestProvider,
+  type TransactionMode,
+} from "./paymentService";
+
+type PublicClient = ReturnType<typeof createClient>;
+
+/**
+ * What a transaction was meant to do, recorded when it is submitted
+ */
+export type TransactionIntent =
+  | { kind: "create"; description: string; amount: string; symbol: string }
+  | { kind: "donate"; campaignId: string; amount: string; symbol: string }
+  | { kind: "donateBatch"; campaignIds: string[]; amount: string; symbol: string }
+  | { kind: "withdraw"; campaignId: string; amount: string; symbol: string }
+  | { kind: "refund"; campaignId: string; amount: string; symbol: string };
+
+export type ActivityStatus = "pending" | "confirmed" | "failed";
+
+/**
+ * A submitted transaction as stored in the activity log
+ */
+export interface ActivityEntry {
+  /** Batch ID (or first transaction hash) the entry was created with */
+  id: string;
+  /** Latest batch ID or transaction hash to poll for */
+  batchId: string;
+  mode: TransactionMode;
+  chainId: number;
+  from: string;
+  intent: TransactionIntent;
+  status: ActivityStatus;
+  /** Number of calls in the request; user-paid mode sends one transaction per call */
+  callCount: number;
+  transactionHashes: `0x${string}`[];
+  submittedAt: number;
+  error?: string;
+}
+
+const STORAGE_KEY = "poolr:activity";
+
+/**
+ * Oldest entries beyond this count are dropped when saving
+ */
+export const MAX_ACTIVITY_ENTRIES = 50;
+
+/**
+ * Loads the activity log from local storage
+ *
+ * @returns Stored entries, newest first, or an empty list if nothing is stored
+ */
+export const loadActivity = (): ActivityEntry[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as ActivityEntry[]) : [];
+  } catch (error) {
+    console.log(`Error loading activity log: ${error}`);
+    return [];
+  }
+};
+
+/**
+ * Saves the activity log to local storage, keeping the newest entries
+ *
+ * @param entries - Entries, newest first
+ */
+export const saveActivity = (entries: ActivityEntry[]): void => {
+  try {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify(entries.slice(0, MAX_ACTIVITY_ENTRIES))
+    );
+  } catch (error) {
+    console.log(`Error saving activity log: ${error}`);
+  }
+};
+
+/**
+ * Collects the transaction hashes from a confirmed batch status
+ */
+export const receiptHashes = (status: CallsStatus): `0x${string}`[] =>
+  status.receipts?.map((receipt) => receipt.transactionHash) ?? [];
+
+/**
+ * Waits for a pending entry to settle and returns the changes to apply
+ *
+ * Sponsored batches are polled through wallet_getCallsStatus. User-paid
+ * entries wait for the receipt of the last transaction sent; if the page was
+ * reloaded before every call was sent, the entry is reported as failed.
+ *
+ * Only a failure reported by the wallet or the chain fails the entry. If
+ * polling times out or the node cannot be reached, no changes are returned
+ * and the entry stays pending until it is resumed again.
+ *
+ * @param entry - The pending entry
+ * @param provider - Wallet provider, required for sponsored batches
+ * @param client - Public client for the entry's chain
+ * @param signal - Aborts polling, e.g. when the account or network changes
+ * @returns The entry's final status and transaction hashes, or no changes if
+ *   it could not be settled yet
+ *
+ * @example
+ * const changes = await resumeActivity(entry, provider, client, controller.signal);
+ */
+export const resumeActivity = async (
+  entry: ActivityEntry,
+  provider: RequestProvider | null,
+  client: PublicClient,
+  signal?: AbortSignal
+): Promise<Partial<ActivityEntry>> => {
+  try {
+    if (entry.mode === "sponsored") {
+      if (!provider) {
+        throw new Error("Wallet not connected");
+      }
+
+      const status = await waitForBatchConfirmation(provider, entry.batchId, {
+        signal,
+      });
+      return { status: "confirmed", transactionHashes: receiptHashes(status) };
+    }
+
+    const receipt = await client.waitForTransactionReceipt({
+      hash: entry.batchId as `0x${string}`,
+    });
+    if (receipt.status !== "success") {
+      return { status: "failed", error: `Transaction ${entry.batchId} reverted` };
+    }
+    if (entry.transactionHashes.length < entry.callCount) {
+      return {
+        status: "failed",
+        error: "Interrupted before every transaction was sent",
+      };
+    }
+    return { status: "confirmed" };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+
+    // Polling gave up: fail the batch only if the wallet says it failed
+    if (entry.mode === "sponsored" && provider) {
+      const status = await getCallsStatus(provider, entry.batchId).catch(() => null);
+      if (status && isCallsFailed(status)) {
+        return {
+          status: "failed",
+          error: `Transaction failed: ${status.error ?? status.status}`,
+        };
+      }
+    }
+
+    console.log(`Error resuming activity ${entry.id}: ${error}`);
+    return {};
+  }
+};
+
+/**
+ * Describes an entry's intent for display
+ *
+ * @param intent - The recorded intent
+ * @returns A short sentence, e.g. "Donate 0.1 ETH to campaign #3"
+ */
+export const describeIntent = (intent: TransactionIntent): string => {
+  switch (intent.kind) {
+    case "create":
+      return `Create "${intent.description}" for ${intent.amount} ${intent.symbol}`;
+    case "donate":
+      return `Donate ${intent.amount} ${intent.symbol} to campaign #${intent.campaignId}`;
+    case "donateBatch":
+      return `Donate ${intent.amount} ${intent.symbol} to campaigns ${intent.campaignIds
+        .map((id) => `#${id}`)
+        .join(", ")}`;
+    case "withdraw":
+      return `Withdraw ${intent.amount} ${intent.symbol} from campaign #${intent.campaignId}`;
+    case "refund":
+      return `Claim a ${intent.amount} ${intent.symbol} refund from campaign #${intent.campaignId}`;
+  }
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { formatAmount, MAX_UINT256, parseAmount, validateAmount } from "./amount";
+
+describe("parseAmount", () => {
+  it("converts decimal input into exact base units", () => {
+    expect(parseAmount("0.1", 18)).toBe(100_000_000_000_000_000n);
+    expect(parseAmount("1.5", 6)).toBe(1_500_000n);
+    expect(parseAmount(" .25 ", 2)).toBe(25n);
+    expect(parseAmount("7", 0)).toBe(7n);
+  });
+
+  it("accepts the largest uint256 and nothing above it", () => {
+    expect(parseAmount(MAX_UINT256.toString(), 0)).toBe(MAX_UINT256);
+    expect(() => parseAmount((MAX_UINT256 + 1n).toString(), 0)).toThrow(
+      "Amount is too large"
+    );
+  });
+
+  it("only accepts zero when asked to", () => {
+    expect(() => parseAmount("0.0", 18)).toThrow("Amount must be greater than zero");
+    expect(parseAmount("0.0", 18, true)).toBe(0n);
+  });
+});
+
+describe("validateAmount", () => {
+  it.each([
+    ["", 18, "Enter an amount"],
+    ["-1", 18, "Amount cannot be negative"],
+    ["-0.5", 18, "Amount cannot be negative"],
+    ["1e18", 18, "Enter a valid number"],
+    ["1E-6", 18, "Enter a valid number"],
+    [".", 18, "Enter a valid number"],
+    ["1.2.3", 18, "Enter a valid number"],
+    ["0.1234567", 6, "At most 6 decimal places are allowed"],
+    ["1.5", 0, "Decimal places are not allowed"],
+    [`1${"0".repeat(60)}`, 18, "Amount is too large"],
+  ])("rejects %j with %i decimals", (input, decimals, message) => {
+    expect(validateAmount(input, decimals)).toBe(message);
+  });
+
+  it("accepts input within the token's decimals", () => {
+    expect(validateAmount("0.123456", 6)).toBeNull();
+    expect(validateAmount("12.", 18)).toBeNull();
+  });
+});
+
+describe("formatAmount", () => {
+  it("rounds half up to the requested fraction digits", () => {
+    expect(formatAmount(1_234_567_890_000_000_000_000n, 18, { locale: "en-US" })).toBe(
+      "1,234.5679"
+    );
+    expect(formatAmount(100_000_000_000_000_000n, 18, { locale: "en-US" })).toBe("0.1");
+  });
+});
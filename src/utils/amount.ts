@@ -0,0 +1,187 @@
+/**
+ * Amount Module
+ *
+ * This module converts between user-facing decimal strings and exact on-chain
+ * base units without going through floating point:
+ * - Parsing input strings into bigint base units for any number of decimals
+ * - Validating input (empty, malformed, negative, too many decimals, uint256 overflow)
+ * - Formatting bigint amounts with locale-aware grouping and compact notation
+ *
+ * @module amount
+ */
+
+/**
+ * Largest value a uint256 can hold
+ */
+export const MAX_UINT256 = 2n ** 256n - 1n;
+
+const DECIMAL_PATTERN = /^(\d*)(?:\.(\d*))?$/;
+
+/**
+ * Options accepted by {@link formatAmount}
+ */
+export interface FormatAmountOptions {
+  /** BCP 47 locale used for grouping and the decimal separator (default: browser locale) */
+  locale?: string;
+  /** Maximum number of fraction digits shown, rounded half up (default: 4) */
+  maximumFractionDigits?: number;
+  /** Minimum number of fraction digits shown (default: 0) */
+  minimumFractionDigits?: number;
+  /** Use compact notation such as 1.2K or 3.4M (default: false) */
+  compact?: boolean;
+}
+
+/**
+ * Validates a user-entered amount
+ *
+ * @param input - The amount as typed by the user, e.g. "0.1"
+ * @param decimals - Number of decimals of the asset
+ * @param allowZero - Whether "0" is an acceptable amount (default: false)
+ * @returns An error message, or null if the input is valid
+ *
+ * @example
+ * validateAmount('1.1234567', 6); // 'At most 6 decimal places are allowed'
+ */
+export const validateAmount = (
+  input: string,
+  decimals: number,
+  allowZero: boolean = false
+): string | null => {
+  const value = input.trim();
+
+  if (!value) {
+    return "Enter an amount";
+  }
+
+  if (value.startsWith("-")) {
+    return "Amount cannot be negative";
+  }
+
+  const match = DECIMAL_PATTERN.exec(value);
+  if (!match || value === ".") {
+    return "Enter a valid number";
+  }
+
+  const fraction = match[2] ?? "";
+  if (fraction.length > decimals) {
+    return decimals === 0
+      ? "Decimal places are not allowed"
+      : `At most ${decimals} decimal places are allowed`;
+  }
+
+  const units = BigInt((match[1] || "0") + fraction.padEnd(decimals, "0"));
+  if (units > MAX_UINT256) {
+    return "Amount is too large";
+  }
+
+  if (units === 0n && !allowZero) {
+    return "Amount must be greater than zero";
+  }
+
+  return null;
+};
+
+/**
+ * Parses a user-entered amount into exact base units
+ *
+ * @param input - The amount as typed by the user, e.g. "0.1"
+ * @param decimals - Number of decimals of the asset
+ * @param allowZero - Whether "0" is an acceptable amount (default: false)
+ * @returns The amount in base units
+ * @throws If the input fails {@link validateAmount}
+ *
+ * @example
+ * parseAmount('0.1', 18); // 100000000000000000n
+ */
+export const parseAmount = (
+  input: string,
+  decimals: number,
+  allowZero: boolean = false
+): bigint => {
+  const error = validateAmount(input, decimals, allowZero);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const [whole, fraction = ""] = input.trim().split(".");
+  return BigInt((whole || "0") + fraction.padEnd(decimals, "0"));
+};
+
+/**
+ * Returns the decimal separator used by a locale
+ */
+const decimalSeparator = (locale?: string) =>
+  new Intl.NumberFormat(locale)
+    .formatToParts(1.1)
+    .find((part) => part.type === "decimal")?.value ?? ".";
+
+/**
+ * Formats an amount in base units for display
+ *
+ * The integer part is grouped exactly using bigint formatting; the fraction is
+ * rounded half up to `maximumFractionDigits`. Compact notation goes through a
+ * float and is meant for summaries only.
+ *
+ * @param value - The amount in base units
+ * @param decimals - Number of decimals of the asset
+ * @param options - Locale, fraction digits and notation
+ * @returns The formatted amount
+ *
+ * @example
+ * formatAmount(1234567890000000000000n, 18, { locale: 'en-US' }); // '1,234.5679'
+ * formatAmount(1234567890000000000000n, 18, { compact: true });   // '1.23K'
+ */
+export const formatAmount = (
+  value: bigint,
+  decimals: number,
+  options: FormatAmountOptions = {}
+): string => {
+  const {
+    locale,
+    maximumFractionDigits = 4,
+    minimumFractionDigits = 0,
+    compact = false,
+  } = options;
+
+  const negative = value < 0n;
+  const absolute = negative ? -value : value;
+  const base = 10n ** BigInt(decimals);
+
+  if (compact) {
+    const approx = Number(absolute / base) + Number(absolute % base) / Number(base);
+    return new Intl.NumberFormat(locale, {
+      notation: "compact",
+      maximumFractionDigits: Math.min(maximumFractionDigits, 2),
+    }).format(negative ? -approx : approx);
+  }
+
+  // Round half up to the requested number of fraction digits
+  const digits = Math.min(maximumFractionDigits, decimals);
+  const step = 10n ** BigInt(decimals - digits);
+  const rounded = ((absolute + step / 2n) / step) * step;
+
+  const whole = rounded / base;
+  let fraction = (rounded % base)
+    .toString()
+    .padStart(decimals, "0")
+    .slice(0, digits)
+    .replace(/0+$/, "");
+  fraction = fraction.padEnd(Math.min(minimumFractionDigits, digits), "0");
+
+  const integer = new Intl.NumberFormat(locale).format(whole);
+  const formatted = fraction
+    ? `${integer}${decimalSeparator(locale)}${fraction}`
+    : integer;
+
+  return negative && rounded !== 0n ? `-${formatted}` : formatted;
+};
+
+/**
+ * Computes the share of `part` in `total` as a percentage with two decimals
+ *
+ * @param part - The numerator in base units
+ * @param total - The denominator in base units
+ * @returns The percentage, 0 when `total` is zero
+ */
+export const percentOf = (part: bigint, total: bigint): number =>
+  total === 0n ? 0 : Number((part * 10000n) / total) / 100;
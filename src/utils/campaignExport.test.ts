@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import type { DonationToken, DonationWithId } from "../hooks/useContract";
+import type { DonationRecord } from "./logIndexer";
+import { campaignsCsv, campaignsJson, donationsCsv } from "./campaignExport";
+
+const TOKEN: DonationToken = {
+  address: "0x00000000000000000000000000000000000000c0",
+  symbol: "USDC",
+  decimals: 6,
+};
+
+const CREATOR = "0x00000000000000000000000000000000000000a1";
+const DONOR = "0x00000000000000000000000000000000000000b0";
+const HASH = `0x${"ab".repeat(32)}` as const;
+
+const CAMPAIGNS: DonationWithId[] = [
+  {
+    id: 3n,
+    donation: {
+      targetAmount: 1_500_000n,
+      totalDonated: 250_001n,
+      creator: CREATOR,
+      timestamp: 1700000000n,
+      description: "Roof, phase 2",
+    },
+  },
+];
+
+const DONATIONS: DonationRecord[] = [
+  {
+    campaignId: 3n,
+    donor: DONOR,
+    amount: 250_001n,
+    timestamp: 1700000100n,
+    blockNumber: 123n,
+    transactionHash: HASH,
+    logIndex: 4,
+  },
+];
+
+describe("campaignsCsv", () => {
+  it("writes exact base units next to token amounts", () => {
+    expect(campaignsCsv(CAMPAIGNS, TOKEN, (description) => description)).toBe(
+      "campaign_id,title,creator,created_at,token,target_base_units,target,raised_base_units,raised\r\n" +
+        `3,"Roof, phase 2",${CREATOR},2023-11-14T22:13:20.000Z,USDC,1500000,1.5,250001,0.250001\r\n`
+    );
+  });
+});
+
+describe("donationsCsv", () => {
+  it("writes one row per DonationMade log", () => {
+    expect(donationsCsv(DONATIONS, TOKEN).split("\r\n")[1]).toBe(
+      `3,${DONOR},USDC,250001,0.250001,123,${HASH},4,2023-11-14T22:15:00.000Z`
+    );
+  });
+});
+
+describe("campaignsJson", () => {
+  it("encodes base units as strings", () => {
+    const document = JSON.parse(
+      campaignsJson(CAMPAIGNS, DONATIONS, TOKEN, () => "Roof")
+    );
+
+    expect(document.campaigns[0]).toMatchObject({
+      campaignId: "3",
+      title: "Roof",
+      raisedAmount: "250001",
+      raisedFormatted: "0.250001",
+    });
+    expect(document.donations[0]).toMatchObject({
+      amount: "250001",
+      amountFormatted: "0.250001",
+      blockNumber: "123",
+      transactionHash: HASH,
+    });
+  });
+});
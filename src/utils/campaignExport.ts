@@ -0,0 +1,133 @@
+/**
+ * Campaign Export Module
+ *
+ * This module prepares campaigns and their donation history for accounting:
+ * - Campaign rows: id, title, creator, target, raised and creation date
+ * - Donation rows from DonationMade logs: donor, amount, block, transaction and time
+ * - Every amount both in exact base units and as a decimal in token units
+ * - CSV documents per table, or one JSON document with both
+ *
+ * @module campaignExport
+ */
+
+import { formatUnits } from "viem";
+import type { DonationToken, DonationWithId } from "../hooks/useContract";
+import type { DonationRecord } from "./logIndexer";
+import { toCsv, toJson } from "./exportFile";
+
+const isoDate = (timestamp: bigint) => new Date(Number(timestamp) * 1000).toISOString();
+
+/**
+ * Builds the campaigns table as CSV
+ *
+ * @param campaigns - Campaigns with their current on-chain state
+ * @param token - The donation token
+ * @param titleOf - Resolves a description to the title to show
+ * @returns The CSV text
+ */
+export const campaignsCsv = (
+  campaigns: DonationWithId[],
+  token: DonationToken,
+  titleOf: (description: string) => string
+): string =>
+  toCsv(
+    [
+      "campaign_id",
+      "title",
+      "creator",
+      "created_at",
+      "token",
+      "target_base_units",
+      "target",
+      "raised_base_units",
+      "raised",
+    ],
+    campaigns.map(({ id, donation }) => [
+      id,
+      titleOf(donation.description),
+      donation.creator,
+      isoDate(donation.timestamp),
+      token.symbol,
+      donation.targetAmount,
+      formatUnits(donation.targetAmount, token.decimals),
+      donation.totalDonated,
+      formatUnits(donation.totalDonated, token.decimals),
+    ])
+  );
+
+/**
+ * Builds the donations table as CSV
+ *
+ * @param donations - Indexed DonationMade records
+ * @param token - The donation token
+ * @returns The CSV text
+ */
+export const donationsCsv = (donations: DonationRecord[], token: DonationToken): string =>
+  toCsv(
+    [
+      "campaign_id",
+      "donor",
+      "token",
+      "amount_base_units",
+      "amount",
+      "block_number",
+      "transaction_hash",
+      "log_index",
+      "timestamp",
+    ],
+    donations.map((donation) => [
+      donation.campaignId,
+      donation.donor,
+      token.symbol,
+      donation.amount,
+      formatUnits(donation.amount, token.decimals),
+      donation.blockNumber,
+      donation.transactionHash,
+      donation.logIndex,
+      isoDate(donation.timestamp),
+    ])
+  );
+
+/**
+ * Builds one JSON document with campaigns and their donations
+ *
+ * Base-unit amounts are decimal strings, so they survive parsers that read
+ * numbers as doubles.
+ *
+ * @param campaigns - Campaigns with their current on-chain state
+ * @param donations - Indexed DonationMade records
+ * @param token - The donation token
+ * @param titleOf - Resolves a description to the title to show
+ * @returns The JSON text
+ */
+export const campaignsJson = (
+  campaigns: DonationWithId[],
+  donations: DonationRecord[],
+  token: DonationToken,
+  titleOf: (description: string) => string
+): string =>
+  toJson({
+    exportedAt: new Date().toISOString(),
+    token,
+    campaigns: campaigns.map(({ id, donation }) => ({
+      campaignId: id,
+      title: titleOf(donation.description),
+      description: donation.description,
+      creator: donation.creator,
+      createdAt: isoDate(donation.timestamp),
+      targetAmount: donation.targetAmount,
+      targetFormatted: formatUnits(donation.targetAmount, token.decimals),
+      raisedAmount: donation.totalDonated,
+      raisedFormatted: formatUnits(donation.totalDonated, token.decimals),
+    })),
+    donations: donations.map((donation) => ({
+      campaignId: donation.campaignId,
+      donor: donation.donor,
+      amount: donation.amount,
+      amountFormatted: formatUnits(donation.amount, token.decimals),
+      blockNumber: donation.blockNumber,
+      transactionHash: donation.transactionHash,
+      logIndex: donation.logIndex,
+      timestamp: isoDate(donation.timestamp),
+    })),
+  });
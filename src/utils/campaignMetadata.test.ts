@@ -0,0 +1,232 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  describeCampaign,
+  excerpt,
+  fetchCampaignMetadata,
+  formatMetadataReference,
+  parseLinkLines,
+  parseMetadataDocument,
+  parseMetadataReference,
+  resolveCampaign,
+  serializeMetadata,
+  sha256Hex,
+  toGatewayUrl,
+  UNTITLED_CAMPAIGN,
+  type CampaignDraft,
+} from "./campaignMetadata";
+
+const DRAFT: CampaignDraft = {
+  title: "New roof for the library",
+  body: "## Why\n\nThe roof **leaks**.",
+  category: "community",
+  image: "ipfs://bafycover",
+  links: [{ label: "Website", url: "https://library.example" }],
+};
+
+const serve = (text: string) =>
+  vi.fn(async () => new Response(text, { status: 200 }));
+
+const referenceFor = async (uri: string, text: string) =>
+  formatMetadataReference({ uri, digest: await sha256Hex(text) });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe("parseMetadataReference", () => {
+  it("parses ipfs and https references", () => {
+    const digest = "ab".repeat(32);
+
+    expect(parseMetadataReference(`ipfs://bafy123#sha256=${digest}`)).toEqual({
+      uri: "ipfs://bafy123",
+      digest,
+    });
+    expect(
+      parseMetadataReference(`https://cdn.example/c.json#sha256=${digest.toUpperCase()}`)
+    ).toEqual({ uri: "https://cdn.example/c.json", digest });
+  });
+
+  it("treats anything else as a legacy description", () => {
+    expect(parseMetadataReference("Help build a playground")).toBeNull();
+    expect(parseMetadataReference("ipfs://bafy123")).toBeNull();
+    expect(parseMetadataReference(`http://insecure.example#sha256=${"ab".repeat(32)}`)).toBeNull();
+  });
+});
+
+describe("parseMetadataDocument", () => {
+  it("drops unsafe URLs and unknown categories", () => {
+    const metadata = parseMetadataDocument({
+      version: 1,
+      title: "  Clean water  ",
+      body: "Wells",
+      category: "unknown",
+      image: "javascript:alert(1)",
+      links: [
+        { label: "", url: "https://water.example/about" },
+        { label: "Bad", url: "javascript:alert(1)" },
+      ],
+    });
+
+    expect(metadata).toEqual({
+      version: 1,
+      title: "Clean water",
+      body: "Wells",
+      category: "other",
+      links: [{ label: "water.example", url: "https://water.example/about" }],
+    });
+  });
+
+  it("keeps only positive integer deadlines", () => {
+    const base = { version: 1, title: "Roof", links: [] };
+
+    expect(parseMetadataDocument({ ...base, deadline: 1700000000 }).deadline).toBe(1700000000);
+    expect(parseMetadataDocument({ ...base, deadline: "1700000000" })).not.toHaveProperty("deadline");
+    expect(parseMetadataDocument({ ...base, deadline: -1 })).not.toHaveProperty("deadline");
+  });
+
+  it("rejects documents without a title or with another version", () => {
+    expect(() => parseMetadataDocument({ version: 1, title: " " })).toThrow("no title");
+    expect(() => parseMetadataDocument({ version: 2, title: "Later" })).toThrow(
+      "Unsupported campaign metadata version"
+    );
+  });
+});
+
+describe("resolveCampaign", () => {
+  it("returns legacy descriptions without fetching", async () => {
+    const fetch = serve("");
+    vi.stubGlobal("fetch", fetch);
+
+    expect(await resolveCampaign("Help build a playground")).toEqual({
+      status: "legacy",
+      title: "Help build a playground",
+    });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("fetches through the gateway, verifies the digest and caches the result", async () => {
+    const document = serializeMetadata(DRAFT);
+    const description = await referenceFor("ipfs://bafyresolve", document);
+    const fetch = serve(document);
+    vi.stubGlobal("fetch", fetch);
+
+    expect(describeCampaign(description)).toEqual({
+      status: "loading",
+      title: UNTITLED_CAMPAIGN,
+    });
+
+    const [first, second] = await Promise.all([
+      resolveCampaign(description),
+      resolveCampaign(description),
+    ]);
+
+    expect(first).toEqual(second);
+    expect(first).toMatchObject({
+      status: "resolved",
+      title: DRAFT.title,
+      metadata: { category: "community", image: "ipfs://bafycover" },
+    });
+    expect(fetch).toHaveBeenCalledExactlyOnceWith(toGatewayUrl("ipfs://bafyresolve"), {
+      signal: expect.any(AbortSignal),
+    });
+    expect(describeCampaign(description).status).toBe("resolved");
+  });
+
+  it("rejects documents that do not match their digest", async () => {
+    const description = await referenceFor(
+      "https://cdn.example/tampered.json",
+      serializeMetadata(DRAFT)
+    );
+    vi.stubGlobal("fetch", serve(serializeMetadata({ ...DRAFT, title: "Changed" })));
+
+    expect(await resolveCampaign(description)).toEqual({
+      status: "unavailable",
+      title: UNTITLED_CAMPAIGN,
+      error: "Campaign details do not match their on-chain hash",
+    });
+  });
+
+  it("retries after a failed fetch", async () => {
+    const document = serializeMetadata(DRAFT);
+    const description = await referenceFor("https://cdn.example/retry.json", document);
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("", { status: 504 }))
+      .mockResolvedValueOnce(new Response(document, { status: 200 }));
+    vi.stubGlobal("fetch", fetch);
+
+    expect((await resolveCampaign(description)).status).toBe("unavailable");
+    expect((await resolveCampaign(description)).status).toBe("resolved");
+  });
+
+  it("gives up on gateways that do not answer in time", async () => {
+    const description = await referenceFor("https://cdn.example/slow.json", "{}");
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        (_url: string, { signal }: RequestInit) =>
+          new Promise<Response>((_resolve, reject) =>
+            signal?.addEventListener("abort", () => reject(signal.reason))
+          )
+      )
+    );
+
+    const reference = parseMetadataReference(description)!;
+
+    await expect(fetchCampaignMetadata(reference, 10)).rejects.toThrow(
+      "Timed out fetching campaign details"
+    );
+  });
+});
+
+describe("publishCampaignMetadata", () => {
+  const load = async () => {
+    vi.resetModules();
+    return import("./campaignMetadata");
+  };
+
+  it("keeps only the title when no storage is configured", async () => {
+    vi.stubEnv("VITE_METADATA_UPLOAD_URL", "");
+    const { publishCampaignMetadata } = await load();
+
+    expect(await publishCampaignMetadata(DRAFT)).toBe(DRAFT.title);
+  });
+
+  it("uploads the document and returns a verifiable reference", async () => {
+    vi.stubEnv("VITE_METADATA_UPLOAD_URL", "https://pin.example/upload");
+    const fetch = vi.fn(async () => Response.json({ cid: "bafypublished" }));
+    vi.stubGlobal("fetch", fetch);
+    const { publishCampaignMetadata, describeCampaign } = await load();
+
+    const description = await publishCampaignMetadata(DRAFT);
+    const document = serializeMetadata(DRAFT);
+
+    expect(description).toBe(await referenceFor("ipfs://bafypublished", document));
+    expect(fetch).toHaveBeenCalledWith(
+      "https://pin.example/upload",
+      expect.objectContaining({ method: "POST", body: document })
+    );
+    expect(describeCampaign(description).title).toBe(DRAFT.title);
+  });
+});
+
+describe("parseLinkLines", () => {
+  it("reads labelled and bare links and skips the rest", () => {
+    expect(
+      parseLinkLines("Website | https://a.example\nhttps://b.example\nnot a link\n")
+    ).toEqual([
+      { label: "Website", url: "https://a.example" },
+      { label: "", url: "https://b.example" },
+    ]);
+  });
+});
+
+describe("excerpt", () => {
+  it("strips markdown and shortens long text", () => {
+    expect(excerpt("## Why\n\nThe roof **leaks**, see [photos](https://x.example).")).toBe(
+      "Why The roof leaks, see photos."
+    );
+    expect(excerpt("a".repeat(200), 10)).toBe(`${"a".repeat(9)}…`);
+  });
+});
@@ -0,0 +1,412 @@
+/**
+ * Campaign Metadata Module
+ *
+ * This module stores rich campaign details off-chain and resolves them for display:
+ * - A versioned JSON document with title, markdown body, category, cover image and links
+ * - Publishing the document to a storage endpoint, then putting a content-addressed
+ *   reference (`<uri>#sha256=<digest>`) into the on-chain description field
+ * - Resolving references through an IPFS gateway, verifying the digest before use
+ * - Falling back to the plain-text description for legacy campaigns
+ *
+ * @module campaignMetadata
+ */
+
+export type CampaignCategory =
+  | "community"
+  | "education"
+  | "health"
+  | "environment"
+  | "technology"
+  | "arts"
+  | "emergency"
+  | "other";
+
+export const CAMPAIGN_CATEGORIES: Record<CampaignCategory, string> = {
+  community: "Community",
+  education: "Education",
+  health: "Health",
+  environment: "Environment",
+  technology: "Technology",
+  arts: "Arts & culture",
+  emergency: "Emergency relief",
+  other: "Other",
+};
+
+export interface CampaignLink {
+  label: string;
+  url: string;
+}
+
+/**
+ * Campaign details stored off-chain
+ */
+export interface CampaignMetadata {
+  version: 1;
+  title: string;
+  /** Long description in markdown */
+  body: string;
+  category: CampaignCategory;
+  /** Cover image as an https:// or ipfs:// URI */
+  image?: string;
+  links: CampaignLink[];
+  /** End of the campaign in unix seconds */
+  deadline?: number;
+}
+
+/**
+ * Details entered when creating a campaign
+ */
+export type CampaignDraft = Omit<CampaignMetadata, "version">;
+
+/**
+ * What a campaign's description resolves to
+ *
+ * `title` is always set, so callers can render something in every state.
+ */
+export type CampaignContent =
+  | { status: "legacy"; title: string }
+  | { status: "loading"; title: string }
+  | { status: "resolved"; title: string; metadata: CampaignMetadata }
+  | { status: "unavailable"; title: string; error: string };
+
+/**
+ * A parsed metadata reference from the description field
+ */
+export interface MetadataReference {
+  uri: string;
+  /** Hex SHA-256 digest of the document bytes */
+  digest: string;
+}
+
+const env = import.meta.env;
+
+const UPLOAD_URL: string = env.VITE_METADATA_UPLOAD_URL ?? "";
+const IPFS_GATEWAY: string = env.VITE_IPFS_GATEWAY || "https://ipfs.io/ipfs/";
+
+/**
+ * Title shown while a campaign's metadata has not been resolved
+ */
+export const UNTITLED_CAMPAIGN = "Untitled campaign";
+
+const MAX_TITLE_LENGTH = 120;
+const MAX_BODY_LENGTH = 20000;
+const MAX_LINKS = 5;
+
+/**
+ * How long a gateway may take to return a document before the fetch is abandoned
+ */
+const METADATA_FETCH_TIMEOUT_MS = 15_000;
+
+const REFERENCE_PATTERN = /^((?:ipfs|https):\/\/[^\s#]+)#sha256=([0-9a-f]{64})$/i;
+
+/**
+ * Documents resolved so far, by description, for synchronous lookups
+ */
+const resolved = new Map<string, CampaignMetadata>();
+
+/**
+ * In-flight and settled lookups, by description, so each document is fetched once
+ */
+const lookups = new Map<string, Promise<CampaignMetadata>>();
+
+/**
+ * Returns true if metadata documents can be published, i.e. an upload
+ * endpoint is configured
+ */
+export const isMetadataStorageConfigured = (): boolean => !!UPLOAD_URL;
+
+/**
+ * Parses a metadata reference from a campaign description
+ *
+ * @param description - The on-chain description
+ * @returns The reference, or null for a legacy plain-text description
+ *
+ * @example
+ * parseMetadataReference('ipfs://bafy...#sha256=ab12...'); // { uri: 'ipfs://bafy...', digest: 'ab12...' }
+ * parseMetadataReference('Help build a playground'); // null
+ */
+export const parseMetadataReference = (
+  description: string
+): MetadataReference | null => {
+  const match = REFERENCE_PATTERN.exec(description.trim());
+  return match ? { uri: match[1], digest: match[2].toLowerCase() } : null;
+};
+
+/**
+ * Formats a metadata reference for the description field
+ */
+export const formatMetadataReference = ({ uri, digest }: MetadataReference): string =>
+  `${uri}#sha256=${digest}`;
+
+/**
+ * Converts ipfs:// URIs to gateway URLs; other URIs are returned as is
+ *
+ * @param uri - An ipfs:// or https:// URI
+ * @returns A URL the browser can fetch
+ */
+export const toGatewayUrl = (uri: string): string =>
+  uri.startsWith("ipfs://")
+    ? `${IPFS_GATEWAY.replace(/\/?$/, "/")}${uri.slice("ipfs://".length)}`
+    : uri;
+
+/**
+ * Computes the hex SHA-256 digest of a string's UTF-8 bytes
+ */
+export const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+const isSafeUrl = (value: string, schemes: string[]) => {
+  try {
+    return schemes.includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const asString = (value: unknown, maxLength: number) =>
+  typeof value === "string" ? value.trim().slice(0, maxLength) : "";
+
+/**
+ * Validates a metadata document, dropping unsafe URLs and clamping lengths
+ *
+ * @param raw - The parsed JSON document
+ * @returns The campaign metadata
+ * @throws If the document is not version 1 or has no title
+ */
+export const parseMetadataDocument = (raw: unknown): CampaignMetadata => {
+  const doc = (typeof raw === "object" && raw !== null ? raw : {}) as Record<
+    string,
+    unknown
+  >;
+
+  if (doc.version !== 1) {
+    throw new Error("Unsupported campaign metadata version");
+  }
+
+  const title = asString(doc.title, MAX_TITLE_LENGTH);
+  if (!title) {
+    throw new Error("Campaign metadata has no title");
+  }
+
+  const category = asString(doc.category, 32);
+  const image = asString(doc.image, 2048);
+  const links = Array.isArray(doc.links) ? doc.links : [];
+  const deadline = doc.deadline;
+
+  return {
+    version: 1,
+    title,
+    body: asString(doc.body, MAX_BODY_LENGTH),
+    category: Object.keys(CAMPAIGN_CATEGORIES).includes(category)
+      ? (category as CampaignCategory)
+      : "other",
+    ...(isSafeUrl(image, ["https:", "ipfs:"]) && { image }),
+    links: links
+      .map((link) => ({
+        label: asString(link?.label, 80),
+        url: asString(link?.url, 2048),
+      }))
+      .filter((link) => isSafeUrl(link.url, ["https:", "http:"]))
+      .map((link) => ({ ...link, label: link.label || new URL(link.url).hostname }))
+      .slice(0, MAX_LINKS),
+    ...(Number.isSafeInteger(deadline) && (deadline as number) > 0 && {
+      deadline: deadline as number,
+    }),
+  };
+};
+
+/**
+ * Parses links entered one per line, as `https://…` or `Label | https://…`
+ *
+ * @param text - The entered lines
+ * @returns Links with an http(s) URL; other lines are skipped
+ */
+export const parseLinkLines = (text: string): CampaignLink[] =>
+  text
+    .split(/\r?\n/)
+    .map((line) => {
+      const separator = line.lastIndexOf("|");
+      return separator === -1
+        ? { label: "", url: line.trim() }
+        : { label: line.slice(0, separator).trim(), url: line.slice(separator + 1).trim() };
+    })
+    .filter((link) => isSafeUrl(link.url, ["https:", "http:"]));
+
+/**
+ * Serializes a draft into the document that is published and hashed
+ */
+export const serializeMetadata = (draft: CampaignDraft): string =>
+  JSON.stringify(parseMetadataDocument({ version: 1, ...draft }));
+
+/**
+ * Publishes campaign details and returns the value for the description field
+ *
+ * The document is POSTed to the configured upload endpoint, which must answer
+ * with `{ uri }` or `{ cid }`. Without an endpoint only the title is kept, as
+ * a legacy plain-text description.
+ *
+ * @param draft - The details entered by the creator
+ * @returns A metadata reference, or the title if storage is not configured
+ * @throws If the upload fails or returns no URI
+ *
+ * @example
+ * const description = await publishCampaignMetadata({ title: 'New roof', body: '...', category: 'community', links: [] });
+ */
+export const publishCampaignMetadata = async (draft: CampaignDraft): Promise<string> => {
+  if (!UPLOAD_URL) {
+    return draft.title.trim();
+  }
+
+  const document = serializeMetadata(draft);
+  const response = await fetch(UPLOAD_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: document,
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to upload campaign details (${response.status})`);
+  }
+
+  const { uri, cid } = (await response.json()) as { uri?: string; cid?: string };
+  const location = uri ?? (cid ? `ipfs://${cid}` : "");
+  if (!/^(ipfs|https):\/\//.test(location)) {
+    throw new Error("Metadata storage returned no URI");
+  }
+
+  const description = formatMetadataReference({
+    uri: location,
+    digest: await sha256Hex(document),
+  });
+  resolved.set(description, JSON.parse(document) as CampaignMetadata);
+  return description;
+};
+
+/**
+ * Fetches and verifies the metadata a description refers to
+ *
+ * @param reference - The parsed reference
+ * @param timeoutMs - Time allowed for the whole download (default: METADATA_FETCH_TIMEOUT_MS)
+ * @returns The campaign metadata
+ * @throws If the document cannot be fetched in time, does not match its digest or is invalid
+ */
+export const fetchCampaignMetadata = async (
+  reference: MetadataReference,
+  timeoutMs: number = METADATA_FETCH_TIMEOUT_MS
+): Promise<CampaignMetadata> => {
+  const signal = AbortSignal.timeout(timeoutMs);
+  let text: string;
+  try {
+    const response = await fetch(toGatewayUrl(reference.uri), { signal });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch campaign details (${response.status})`);
+    }
+    text = await response.text();
+  } catch (error) {
+    if (signal.aborted) {
+      throw new Error("Timed out fetching campaign details");
+    }
+    throw error;
+  }
+
+  if ((await sha256Hex(text)) !== reference.digest) {
+    throw new Error("Campaign details do not match their on-chain hash");
+  }
+
+  return parseMetadataDocument(JSON.parse(text));
+};
+
+/**
+ * Describes a campaign from what is already known, without fetching
+ *
+ * @param description - The on-chain description
+ * @returns Legacy content, resolved metadata, or a loading placeholder
+ */
+export const describeCampaign = (description: string): CampaignContent => {
+  if (!parseMetadataReference(description)) {
+    return { status: "legacy", title: description };
+  }
+
+  const metadata = resolved.get(description);
+  return metadata
+    ? { status: "resolved", title: metadata.title, metadata }
+    : { status: "loading", title: UNTITLED_CAMPAIGN };
+};
+
+/**
+ * Returns the title to display for a campaign, without fetching
+ *
+ * @param description - The on-chain description
+ */
+export const campaignTitle = (description: string): string =>
+  describeCampaign(description).title;
+
+/**
+ * Returns the text the campaign search matches against, without fetching
+ *
+ * @param description - The on-chain description
+ */
+export const campaignSearchText = (description: string): string => {
+  const content = describeCampaign(description);
+  return content.status === "resolved"
+    ? [content.title, CAMPAIGN_CATEGORIES[content.metadata.category], content.metadata.body].join(" ")
+    : content.title;
+};
+
+/**
+ * Resolves a campaign description to its content
+ *
+ * Each reference is fetched once; failed lookups are retried on the next call.
+ *
+ * @param description - The on-chain description
+ * @returns Legacy, resolved or unavailable content
+ *
+ * @example
+ * const content = await resolveCampaign(donation.description);
+ * if (content.status === 'resolved') console.log(content.metadata.category);
+ */
+export const resolveCampaign = async (description: string): Promise<CampaignContent> => {
+  const reference = parseMetadataReference(description);
+  if (!reference) {
+    return { status: "legacy", title: description };
+  }
+
+  let lookup = lookups.get(description);
+  if (!lookup) {
+    const cached = resolved.get(description);
+    lookup = cached ? Promise.resolve(cached) : fetchCampaignMetadata(reference);
+    lookups.set(description, lookup);
+  }
+
+  try {
+    const metadata = await lookup;
+    resolved.set(description, metadata);
+    return { status: "resolved", title: metadata.title, metadata };
+  } catch (error) {
+    lookups.delete(description);
+    console.log(`Error resolving campaign metadata: ${error}`);
+    return {
+      status: "unavailable",
+      title: UNTITLED_CAMPAIGN,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
+
+/**
+ * Strips markdown syntax and shortens a body for previews
+ *
+ * @param body - Markdown text
+ * @param maxLength - Maximum length of the excerpt
+ */
+export const excerpt = (body: string, maxLength = 140): string => {
+  const text = body
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[#>*_`~-]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+};
@@ -0,0 +1,193 @@
+/**
+ * Campaign Query Module
+ *
+ * This module narrows down and orders the campaigns loaded in the grid:
+ * - Free-text search on the campaign title, or on all resolved metadata
+ * - Filters for the user's own, fully funded and nearly funded campaigns,
+ *   and for a given creator address
+ * - Sorting by age, amount raised, distance to goal and target size
+ * - Reading and writing the query from and to URL search params
+ *
+ * @module campaignQuery
+ */
+
+import type { DonationWithId } from "../hooks/useContract";
+import { campaignSearchText } from "./campaignMetadata";
+
+export type CampaignFilter = "all" | "mine" | "funded" | "nearlyFunded";
+
+export type CampaignSort = "newest" | "mostFunded" | "closestToGoal" | "largestTarget";
+
+/**
+ * Search, filter and sort state of the campaign grid
+ */
+export interface CampaignQuery {
+  search: string;
+  filter: CampaignFilter;
+  /** Only show campaigns created by this address, or empty for any creator */
+  creator: string;
+  sort: CampaignSort;
+}
+
+export const DEFAULT_CAMPAIGN_QUERY: CampaignQuery = {
+  search: "",
+  filter: "all",
+  creator: "",
+  sort: "newest",
+};
+
+/**
+ * Returns true if the query leaves every field at its default, i.e. shows
+ * the campaigns as loaded, newest first
+ */
+export const isDefaultCampaignQuery = (query: CampaignQuery): boolean =>
+  (Object.keys(DEFAULT_CAMPAIGN_QUERY) as Array<keyof CampaignQuery>).every(
+    (key) => query[key] === DEFAULT_CAMPAIGN_QUERY[key]
+  );
+
+export const CAMPAIGN_FILTERS: Record<CampaignFilter, string> = {
+  all: "All campaigns",
+  mine: "My campaigns",
+  funded: "Fully funded",
+  nearlyFunded: "Nearly funded",
+};
+
+export const CAMPAIGN_SORTS: Record<CampaignSort, string> = {
+  newest: "Newest",
+  mostFunded: "Most funded",
+  closestToGoal: "Closest to goal",
+  largestTarget: "Largest target",
+};
+
+/**
+ * Share of the target, in basis points, from which a campaign counts as nearly funded
+ */
+const NEARLY_FUNDED_BPS = 8000n;
+
+/**
+ * URL search param names for each query field
+ */
+const PARAMS = {
+  search: "q",
+  filter: "filter",
+  creator: "creator",
+  sort: "sort",
+} as const;
+
+const isFunded = ({ donation }: DonationWithId) =>
+  donation.totalDonated >= donation.targetAmount;
+
+const isNearlyFunded = ({ donation }: DonationWithId) =>
+  donation.totalDonated < donation.targetAmount &&
+  donation.totalDonated * 10000n >= donation.targetAmount * NEARLY_FUNDED_BPS;
+
+const remaining = ({ donation }: DonationWithId) =>
+  donation.targetAmount - donation.totalDonated;
+
+/**
+ * Orders bigints descending, for use in Array.prototype.sort
+ */
+const descending = (a: bigint, b: bigint) => (a === b ? 0 : a > b ? -1 : 1);
+
+const COMPARATORS: Record<CampaignSort, (a: DonationWithId, b: DonationWithId) => number> = {
+  newest: (a, b) => descending(a.id, b.id),
+  mostFunded: (a, b) =>
+    descending(a.donation.totalDonated, b.donation.totalDonated) ||
+    descending(a.id, b.id),
+  // Funded campaigns have nothing left to raise, so they go last
+  closestToGoal: (a, b) =>
+    Number(isFunded(a)) - Number(isFunded(b)) ||
+    descending(remaining(b), remaining(a)) ||
+    descending(a.id, b.id),
+  largestTarget: (a, b) =>
+    descending(a.donation.targetAmount, b.donation.targetAmount) ||
+    descending(a.id, b.id),
+};
+
+/**
+ * Applies a query to the loaded campaigns
+ *
+ * @param campaigns - The campaigns to search
+ * @param query - Search, filter and sort state
+ * @param account - Connected account, used by the "mine" filter
+ * @returns The matching campaigns in the requested order
+ *
+ * @example
+ * const visible = applyCampaignQuery(donations, { ...DEFAULT_CAMPAIGN_QUERY, search: 'school' }, account);
+ */
+export const applyCampaignQuery = (
+  campaigns: DonationWithId[],
+  query: CampaignQuery,
+  account: string | null
+): DonationWithId[] => {
+  const search = query.search.trim().toLowerCase();
+  const creator = query.creator.trim().toLowerCase();
+  const owner = account?.toLowerCase();
+
+  return campaigns
+    .filter((campaign) => {
+      const { description, creator: campaignCreator } = campaign.donation;
+
+      if (search && !campaignSearchText(description).toLowerCase().includes(search)) {
+        return false;
+      }
+      if (creator && campaignCreator.toLowerCase() !== creator) return false;
+
+      switch (query.filter) {
+        case "mine":
+          return !!owner && campaignCreator.toLowerCase() === owner;
+        case "funded":
+          return isFunded(campaign);
+        case "nearlyFunded":
+          return isNearlyFunded(campaign);
+        default:
+          return true;
+      }
+    })
+    .sort(COMPARATORS[query.sort]);
+};
+
+/**
+ * Reads a query from URL search params, falling back to defaults for
+ * missing or unknown values
+ *
+ * @param params - The current URL search params
+ * @returns The campaign query
+ */
+export const parseCampaignQuery = (params: URLSearchParams): CampaignQuery => {
+  const filter = params.get(PARAMS.filter) ?? "";
+  const sort = params.get(PARAMS.sort) ?? "";
+
+  return {
+    search: params.get(PARAMS.search) ?? DEFAULT_CAMPAIGN_QUERY.search,
+    filter: Object.keys(CAMPAIGN_FILTERS).includes(filter)
+      ? (filter as CampaignFilter)
+      : DEFAULT_CAMPAIGN_QUERY.filter,
+    creator: params.get(PARAMS.creator) ?? DEFAULT_CAMPAIGN_QUERY.creator,
+    sort: Object.keys(CAMPAIGN_SORTS).includes(sort)
+      ? (sort as CampaignSort)
+      : DEFAULT_CAMPAIGN_QUERY.sort,
+  };
+};
+
+/**
+ * Writes a query to URL search params, omitting fields left at their default
+ *
+ * @param query - The campaign query
+ * @returns Search params for the URL
+ *
+ * @example
+ * toSearchParams({ ...DEFAULT_CAMPAIGN_QUERY, sort: 'mostFunded' }).toString(); // 'sort=mostFunded'
+ */
+export const toSearchParams = (query: CampaignQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+
+  (Object.keys(PARAMS) as Array<keyof CampaignQuery>).forEach((key) => {
+    const value = query[key];
+    if (value.trim() && value !== DEFAULT_CAMPAIGN_QUERY[key]) {
+      params.set(PARAMS[key], value);
+    }
+  });
+
+  return params;
+};
@@ -0,0 +1,173 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Donation, DonationToken } from "../hooks/useContract";
+import type { CampaignMetadata } from "./campaignMetadata";
+import {
+  allowsRefund,
+  allowsWithdrawal,
+  campaignDeadline,
+  checkDonation,
+  contentDeadline,
+  formatCountdown,
+  getCampaignStatus,
+} from "./campaignStatus";
+
+const TOKEN: DonationToken = { address: null, symbol: "ETH", decimals: 18 };
+
+const ETH = 10n ** 18n;
+
+const campaign = (totalDonated: bigint, targetAmount = 10n * ETH): Donation => ({
+  targetAmount,
+  totalDonated,
+  creator: "0x0000000000000000000000000000000000000001",
+  timestamp: 1000n,
+  description: "Library roof",
+});
+
+const METADATA: CampaignMetadata = {
+  version: 1,
+  title: "Library roof",
+  body: "",
+  category: "community",
+  links: [],
+  deadline: 5000,
+};
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.resetModules();
+});
+
+describe("campaignDeadline", () => {
+  it("prefers the deadline from the metadata", () => {
+    expect(campaignDeadline(campaign(0n), METADATA, 100n)).toBe(5000n);
+  });
+
+  it("falls back to the default duration from creation, or none", () => {
+    expect(campaignDeadline(campaign(0n), null, 100n)).toBe(1100n);
+    expect(campaignDeadline(campaign(0n), null, null)).toBeNull();
+  });
+
+  it("reads the default duration in days from the environment", async () => {
+    vi.stubEnv("VITE_CAMPAIGN_DURATION_DAYS", "2");
+    const { DEFAULT_CAMPAIGN_DURATION } = await import("./campaignStatus");
+
+    expect(DEFAULT_CAMPAIGN_DURATION).toBe(172800n);
+  });
+
+  it("ignores a zero default duration", async () => {
+    vi.stubEnv("VITE_CAMPAIGN_DURATION_DAYS", "0");
+    const { DEFAULT_CAMPAIGN_DURATION } = await import("./campaignStatus");
+
+    expect(DEFAULT_CAMPAIGN_DURATION).toBeNull();
+  });
+
+  it("is unknown while the metadata that may set it is not resolved", () => {
+    const donation = campaign(0n);
+
+    expect(contentDeadline(donation, { status: "loading", title: "" }, 100n)).toBeUndefined();
+    expect(
+      contentDeadline(donation, { status: "unavailable", title: "", error: "" }, 100n)
+    ).toBeUndefined();
+    expect(contentDeadline(donation, { status: "legacy", title: "" }, 100n)).toBe(1100n);
+  });
+});
+
+describe("getCampaignStatus", () => {
+  it.each([
+    [0n, null, "active"],
+    [0n, 2000n, "active"],
+    [10n * ETH, 2000n, "funded"],
+    [12n * ETH, null, "funded"],
+    [0n, 1500n, "expired"],
+    [10n * ETH, 1500n, "closed"],
+  ] as const)("with %s donated and deadline %s is %s", (donated, deadline, status) => {
+    expect(getCampaignStatus(campaign(donated), deadline, 1500n)).toBe(status);
+  });
+
+  it("is unknown until the deadline is known", () => {
+    expect(getCampaignStatus(campaign(0n), undefined, 1500n)).toBe("unknown");
+  });
+});
+
+describe("checkDonation", () => {
+  it("blocks donations to ended campaigns whatever the policy", () => {
+    for (const status of ["expired", "closed"] as const) {
+      expect(checkDonation(campaign(0n), status, ETH, TOKEN, "allow")).toEqual({
+        allowed: false,
+        reason: "This campaign has ended",
+      });
+    }
+  });
+
+  it("accepts anything under the allow policy", () => {
+    expect(checkDonation(campaign(10n * ETH), "funded", ETH, TOKEN, "allow")).toEqual({
+      allowed: true,
+    });
+  });
+
+  it("warns about funded campaigns and amounts beyond the goal", () => {
+    expect(checkDonation(campaign(10n * ETH), "funded", null, TOKEN, "warn")).toMatchObject({
+      allowed: true,
+      warning: "This campaign has already reached its goal",
+    });
+    expect(checkDonation(campaign(9n * ETH), "active", 2n * ETH, TOKEN, "warn")).toEqual({
+      allowed: true,
+      warning: "Only 1 ETH is needed to reach the goal",
+    });
+    expect(checkDonation(campaign(9n * ETH), "active", ETH, TOKEN, "warn")).toEqual({
+      allowed: true,
+    });
+  });
+
+  it("caps donations at the remaining amount", () => {
+    expect(checkDonation(campaign(10n * ETH), "funded", null, TOKEN, "cap")).toMatchObject({
+      allowed: false,
+    });
+    expect(
+      checkDonation(campaign(9n * ETH), "active", ETH + 1n, TOKEN, "cap")
+    ).toEqual({ allowed: false, reason: "At most 1 ETH can be donated" });
+    expect(checkDonation(campaign(9n * ETH), "active", ETH, TOKEN, "cap")).toEqual({
+      allowed: true,
+    });
+  });
+
+  it("applies the policy to campaigns of unknown status and warns they may have ended", () => {
+    expect(checkDonation(campaign(0n), "unknown", ETH, TOKEN, "warn")).toEqual({
+      allowed: true,
+      warning: "This campaign's deadline could not be checked yet",
+    });
+    expect(
+      checkDonation(campaign(9n * ETH), "unknown", ETH + 1n, TOKEN, "cap")
+    ).toEqual({ allowed: false, reason: "At most 1 ETH can be donated" });
+  });
+
+  it("reads the policy from the environment, defaulting to warn", async () => {
+    expect((await import("./campaignStatus")).OVERFUNDING_POLICY).toBe("warn");
+
+    vi.resetModules();
+    vi.stubEnv("VITE_OVERFUNDING_POLICY", "cap");
+    expect((await import("./campaignStatus")).OVERFUNDING_POLICY).toBe("cap");
+
+    vi.resetModules();
+    vi.stubEnv("VITE_OVERFUNDING_POLICY", "refund");
+    expect((await import("./campaignStatus")).OVERFUNDING_POLICY).toBe("warn");
+  });
+});
+
+describe("payouts", () => {
+  it("lets creators withdraw once the goal is reached and donors claim refunds when it was missed", () => {
+    const statuses = ["active", "funded", "expired", "closed"] as const;
+
+    expect(statuses.filter(allowsWithdrawal)).toEqual(["funded", "closed"]);
+    expect(statuses.filter(allowsRefund)).toEqual(["expired"]);
+  });
+});
+
+describe("formatCountdown", () => {
+  it("shows the two largest units", () => {
+    expect(formatCountdown(3n * 86400n + 4n * 3600n + 59n)).toBe("3d 4h");
+    expect(formatCountdown(12n * 60n + 5n)).toBe("12m 5s");
+    expect(formatCountdown(3600n)).toBe("1h 0m");
+    expect(formatCountdown(-5n)).toBe("0s");
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Campaign Status Module
+ *
+ * This module derives where a campaign is in its lifecycle and whether it
+ * should still take donations:
+ * - Deadlines from the campaign's metadata, or a configured default duration
+ * - Status (active, funded, expired, closed) from the deadline and the amount raised
+ * - The over-funding policy applied to donations beyond the target
+ * - When creators can withdraw and donors can claim refunds
+ * - Countdown formatting
+ *
+ * Everything here is advisory. The Funding contract knows nothing about
+ * deadlines or over-funding, so it accepts donations whatever the status
+ * shown, and payouts follow the contract's own rules.
+ *
+ * @module campaignStatus
+ */
+
+import type { Donation, DonationToken } from "../hooks/useContract";
+import type { CampaignContent, CampaignMetadata } from "./campaignMetadata";
+import { formatAmount } from "./amount";
+
+/**
+ * - `active`: open and below its target
+ * - `funded`: target reached, deadline not passed (or none set)
+ * - `expired`: deadline passed below the target
+ * - `closed`: deadline passed after reaching the target
+ * - `unknown`: the deadline depends on metadata that is loading or unavailable
+ */
+export type CampaignStatus = "active" | "funded" | "expired" | "closed" | "unknown";
+
+/**
+ * How donations beyond a campaign's target are handled
+ *
+ * - `allow`: accepted silently
+ * - `warn`: accepted after warning the donor
+ * - `cap`: limited to the remaining amount; funded campaigns take no more donations
+ */
+export type OverfundingPolicy = "allow" | "warn" | "cap";
+
+/**
+ * A creator withdrawing what was raised, or a donor reclaiming a contribution
+ */
+export type PayoutKind = "withdraw" | "refund";
+
+export const CAMPAIGN_STATUS_LABELS: Record<CampaignStatus, string> = {
+  active: "Active",
+  funded: "Funded",
+  expired: "Expired",
+  closed: "Closed",
+  unknown: "Unknown",
+};
+
+/**
+ * Shown next to a status to make clear the contract does not enforce it
+ */
+export const CAMPAIGN_STATUS_NOTICE =
+  "Advisory only: the contract does not enforce deadlines or goals";
+
+const OVERFUNDING_POLICIES: OverfundingPolicy[] = ["allow", "warn", "cap"];
+
+const SECONDS_PER_DAY = 86400n;
+
+const env = import.meta.env;
+
+/**
+ * Over-funding policy from VITE_OVERFUNDING_POLICY (default: warn)
+ */
+export const OVERFUNDING_POLICY: OverfundingPolicy = OVERFUNDING_POLICIES.includes(
+  env.VITE_OVERFUNDING_POLICY
+)
+  ? env.VITE_OVERFUNDING_POLICY
+  : "warn";
+
+/**
+ * Duration given to campaigns without their own deadline, from
+ * VITE_CAMPAIGN_DURATION_DAYS, or null for open-ended campaigns. Zero is
+ * ignored, since it would end every campaign the moment it is created.
+ */
+export const DEFAULT_CAMPAIGN_DURATION: bigint | null = /^0*[1-9]\d*$/.test(
+  env.VITE_CAMPAIGN_DURATION_DAYS ?? ""
+)
+  ? BigInt(env.VITE_CAMPAIGN_DURATION_DAYS) * SECONDS_PER_DAY
+  : null;
+
+/**
+ * Whether a donation can be made, with the message to show the donor
+ */
+export interface DonationAvailability {
+  allowed: boolean;
+  /** Why donations are disabled */
+  reason?: string;
+  /** Shown when the donation is allowed but goes beyond the target */
+  warning?: string;
+}
+
+/**
+ * Returns the current time in unix seconds
+ */
+export const nowInSeconds = (): bigint => BigInt(Math.floor(Date.now() / 1000));
+
+/**
+ * Determines a campaign's deadline
+ *
+ * @param donation - The campaign
+ * @param metadata - Its resolved metadata, if any
+ * @param defaultDuration - Duration for campaigns without their own deadline
+ * @returns The deadline in unix seconds, or null if the campaign has none
+ */
+export const campaignDeadline = (
+  donation: Donation,
+  metadata?: CampaignMetadata | null,
+  defaultDuration: bigint | null = DEFAULT_CAMPAIGN_DURATION
+): bigint | null => {
+  if (metadata?.deadline) {
+    return BigInt(metadata.deadline);
+  }
+  return defaultDuration === null ? null : donation.timestamp + defaultDuration;
+};
+
+/**
+ * Determines a campaign's deadline from its resolved content
+ *
+ * @param donation - The campaign
+ * @param content - Its content, as returned by useCampaignMetadata
+ * @param defaultDuration - Duration for campaigns without their own deadline
+ * @returns The deadline in unix seconds, null if the campaign has none, or
+ *   undefined while metadata that may set one is loading or unavailable
+ */
+export const contentDeadline = (
+  donation: Donation,
+  content: CampaignContent,
+  defaultDuration: bigint | null = DEFAULT_CAMPAIGN_DURATION
+): bigint | null | undefined => {
+  if (content.status === "resolved") {
+    return campaignDeadline(donation, content.metadata, defaultDuration);
+  }
+  return content.status === "legacy"
+    ? campaignDeadline(donation, null, defaultDuration)
+    : undefined;
+};
+
+/**
+ * Derives a campaign's status
+ *
+ * @param donation - The campaign
+ * @param deadline - Its deadline in unix seconds, null if it has none, or
+ *   undefined if it is not known yet
+ * @param now - The current time in unix seconds
+ * @returns The campaign status
+ *
+ * @example
+ * getCampaignStatus(donation, contentDeadline(donation, content), nowInSeconds());
+ */
+export const getCampaignStatus = (
+  donation: Donation,
+  deadline: bigint | null | undefined,
+  now: bigint
+): CampaignStatus => {
+  if (deadline === undefined) return "unknown";
+
+  const funded = donation.totalDonated >= donation.targetAmount;
+  const ended = deadline !== null && now >= deadline;
+
+  if (ended) return funded ? "closed" : "expired";
+  return funded ? "funded" : "active";
+};
+
+/**
+ * Checks a donation against the campaign's status and the over-funding policy
+ *
+ * @param donation - The campaign
+ * @param status - Its current status
+ * @param amount - The amount entered, or null if none is entered yet
+ * @param token - The donation token, used to format messages
+ * @param policy - The over-funding policy
+ * @returns Whether the donation can be made, and what to tell the donor
+ */
+export const checkDonation = (
+  donation: Donation,
+  status: CampaignStatus,
+  amount: bigint | null,
+  token: DonationToken,
+  policy: OverfundingPolicy = OVERFUNDING_POLICY
+): DonationAvailability => {
+  if (status === "expired" || status === "closed") {
+    return { allowed: false, reason: "This campaign has ended" };
+  }
+
+  if (status === "unknown") {
+    // Judge by the amounts alone, and say the campaign may have ended
+    const availability = checkDonation(
+      donation,
+      getCampaignStatus(donation, null, 0n),
+      amount,
+      token,
+      policy
+    );
+    return availability.allowed
+      ? {
+          ...availability,
+          warning: availability.warning ?? "This campaign's deadline could not be checked yet",
+        }
+      : availability;
+  }
+
+  if (policy === "allow") {
+    return { allowed: true };
+  }
+
+  const remaining = donation.targetAmount - donation.totalDonated;
+
+  if (status === "funded") {
+    return policy === "cap"
+      ? { allowed: false, reason: "This campaign has reached its goal" }
+      : {
+          allowed: true,
+          warning: "This campaign has already reached its goal",
+        };
+  }
+
+  if (amount !== null && amount > remaining) {
+    const left = `${formatAmount(remaining, token.decimals, {
+      maximumFractionDigits: token.decimals,
+    })} ${token.symbol}`;
+
+    return policy === "cap"
+      ? { allowed: false, reason: `At most ${left} can be donated` }
+      : { allowed: true, warning: `Only ${left} is needed to reach the goal` };
+  }
+
+  return { allowed: true };
+};
+
+/**
+ * Returns true if the status suggests the creator can withdraw, i.e. the goal
+ * was reached. Only used to explain; the contract decides.
+ */
+export const allowsWithdrawal = (status: CampaignStatus): boolean =>
+  status === "funded" || status === "closed";
+
+/**
+ * Returns true if the status suggests donors can claim refunds, i.e. the
+ * deadline passed before the goal was reached. Only used to explain; the
+ * contract decides.
+ */
+export const allowsRefund = (status: CampaignStatus): boolean => status === "expired";
+
+/**
+ * Key of a campaign's payout in the app's per-action stage map, next to the
+ * campaign ID used for its donations
+ */
+export const payoutStageKey = (kind: PayoutKind, id: bigint): string => `${kind}:${id}`;
+
+/**
+ * Formats the time left until a deadline
+ *
+ * @param seconds - Seconds left
+ * @returns The two largest units, e.g. "3d 4h" or "12m 5s"
+ */
+export const formatCountdown = (seconds: bigint): string => {
+  const total = Number(seconds > 0n ? seconds : 0n);
+  const units: [string, number][] = [
+    ["d", Math.floor(total / 86400)],
+    ["h", Math.floor(total / 3600) % 24],
+    ["m", Math.floor(total / 60) % 60],
+    ["s", total % 60],
+  ];
+  const first = units.findIndex(([, value]) => value > 0);
+
+  return first === -1
+    ? "0s"
+    : units
+        .slice(first, first + 2)
+        .map(([unit, value]) => `${value}${unit}`)
+        .join(" ");
+};
@@ -0,0 +1,146 @@
+/**
+ * Contracts Module
+ *
+ * This module gives typed access to the Funding contract and the donation
+ * token, with every type derived from their ABIs:
+ * - Contract instances whose reads return decoded, typed results
+ * - Call builders for writes, checked against each function's arguments
+ * - Decoding of Funding events into typed logs
+ *
+ * @module contracts
+ */
+
+import {
+  getContract,
+  parseEventLogs,
+  type Address,
+  type ContractFunctionArgs,
+  type ContractFunctionName,
+  type ContractFunctionReturnType,
+  type Log,
+} from "viem";
+import { FUNDING_ABI } from "./Funding";
+import { ERC20_ABI } from "./ERC20";
+import type { createClient } from "./paymentService";
+import type { ContractCall } from "./preflight";
+
+type PublicClient = ReturnType<typeof createClient>;
+
+export type FundingAbi = typeof FUNDING_ABI;
+export type Erc20Abi = typeof ERC20_ABI;
+
+type WriteMutability = "nonpayable" | "payable";
+
+/**
+ * Names of the Funding functions that change state
+ */
+export type FundingWriteFunction = ContractFunctionName<FundingAbi, WriteMutability>;
+
+/**
+ * Names of the ERC-20 functions that change state
+ */
+export type Erc20WriteFunction = ContractFunctionName<Erc20Abi, WriteMutability>;
+
+/**
+ * Campaign struct exactly as returned by getDonation
+ */
+export type FundingCampaign = ContractFunctionReturnType<
+  FundingAbi,
+  "view",
+  "getDonation"
+>;
+
+/**
+ * Funding events, decoded with their arguments typed per event
+ */
+export type FundingEventLog = ReturnType<typeof parseFundingEvents>[number];
+
+/**
+ * Creates a typed Funding contract instance
+ *
+ * @param client - Public client for the contract's chain
+ * @param address - The Funding contract address
+ * @returns A contract whose `read` methods are typed from FUNDING_ABI
+ *
+ * @example
+ * const funding = getFundingContract(client, network.fundingAddress);
+ * const campaign = await funding.read.getDonation([3n]);
+ * console.log(campaign.description);
+ */
+export const getFundingContract = (client: PublicClient, address: Address) =>
+  getContract({ address, abi: FUNDING_ABI, client });
+
+/**
+ * Creates a typed ERC-20 contract instance
+ *
+ * @param client - Public client for the token's chain
+ * @param address - The token address
+ * @returns A contract whose `read` methods are typed from ERC20_ABI
+ */
+export const getErc20Contract = (client: PublicClient, address: Address) =>
+  getContract({ address, abi: ERC20_ABI, client });
+
+/**
+ * Builds a call to a Funding write function
+ *
+ * @param address - The Funding contract address
+ * @param functionName - The function to call
+ * @param args - The function's arguments, typed from the ABI
+ * @returns A call ready for preflight and encoding
+ *
+ * @example
+ * const call = fundingCall(network.fundingAddress, 'donate', [3n, amount]);
+ */
+export const fundingCall = <F extends FundingWriteFunction>(
+  address: Address,
+  functionName: F,
+  args: ContractFunctionArgs<FundingAbi, WriteMutability, F>
+): ContractCall => ({
+  address,
+  abi: FUNDING_ABI,
+  functionName,
+  args: args as readonly unknown[],
+});
+
+/**
+ * Builds a call to an ERC-20 write function
+ *
+ * @param address - The token address
+ * @param functionName - The function to call
+ * @param args - The function's arguments, typed from the ABI
+ * @returns A call ready for preflight and encoding
+ *
+ * @example
+ * const call = erc20Call(token.address, 'approve', [network.fundingAddress, amount]);
+ */
+export const erc20Call = <F extends Erc20WriteFunction>(
+  address: Address,
+  functionName: F,
+  args: ContractFunctionArgs<Erc20Abi, WriteMutability, F>
+): ContractCall => ({
+  address,
+  abi: ERC20_ABI,
+  functionName,
+  args: args as readonly unknown[],
+});
+
+/**
+ * Decodes Funding events (campaigns created, donations, withdrawals and
+ * refunds) from raw logs
+ *
+ * Logs that are not Funding events are skipped.
+ *
+ * @param logs - Raw logs
+ * @returns Decoded events with typed `args`
+ *
+ * @example
+ * for (const event of parseFundingEvents(receipt.logs)) {
+ *   if (event.eventName === 'DonationMade') console.log(event.args.donor);
+ * }
+ */
+export const parseFundingEvents = (logs: Log[]) =>
+  parseEventLogs({
+    abi: FUNDING_ABI,
+    logs,
+    eventName: ["DonationCreated", "DonationMade", "FundsWithdrawn", "RefundClaimed"],
+  });
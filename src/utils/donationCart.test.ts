@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import type { Donation, DonationToken } from "../hooks/useContract";
+import { checkCart, type CartItem } from "./donationCart";
+
+const TOKEN: DonationToken = { address: null, symbol: "ETH", decimals: 18 };
+
+const ETH = 10n ** 18n;
+
+const campaign = (totalDonated: bigint, targetAmount = 10n * ETH): Donation => ({
+  targetAmount,
+  totalDonated,
+  creator: "0x0000000000000000000000000000000000000001",
+  timestamp: 1000n,
+  description: "Library roof",
+});
+
+const item = (campaignId: bigint, amount: string): CartItem => ({
+  campaignId,
+  description: `Campaign ${campaignId}`,
+  amount,
+});
+
+describe("checkCart", () => {
+  it("accepts items within what their campaigns still need", () => {
+    const items = [item(1n, "1"), item(2n, "5")];
+
+    expect(checkCart(items, [campaign(9n * ETH), campaign(0n)], TOKEN, "cap")).toBeNull();
+  });
+
+  it("refuses an item that now exceeds the amount still needed", () => {
+    const items = [item(1n, "1"), item(2n, "2")];
+
+    expect(checkCart(items, [campaign(0n), campaign(9n * ETH)], TOKEN, "cap")).toBe(
+      "Campaign 2: At most 1 ETH can be donated"
+    );
+  });
+
+  it("refuses items for a campaign that has since reached its goal", () => {
+    expect(checkCart([item(1n, "1")], [campaign(10n * ETH)], TOKEN, "cap")).toBe(
+      "Campaign 1: This campaign has reached its goal"
+    );
+  });
+
+  it("counts several items for one campaign together", () => {
+    const donation = campaign(8n * ETH);
+
+    expect(
+      checkCart([item(1n, "1"), item(1n, "1.5")], [donation, donation], TOKEN, "cap")
+    ).toBe("Campaign 1: At most 2 ETH can be donated");
+  });
+
+  it("lets over-funding through unless the policy caps it", () => {
+    expect(checkCart([item(1n, "5")], [campaign(9n * ETH)], TOKEN, "warn")).toBeNull();
+  });
+});
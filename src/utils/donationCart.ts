@@ -0,0 +1,203 @@
+/**
+ * Donation Cart Module
+ *
+ * This module supports donating to several campaigns in a single batch:
+ * - Describing cart items and totalling them in base units
+ * - Rechecking the cart against the campaigns' current state
+ * - Building the approve and donate calls for the whole cart
+ * - Mapping DonationMade events in the batch receipts back to cart items
+ *
+ * @module donationCart
+ */
+
+import { hexToBigInt, type Address, type Log } from "viem";
+import { erc20Call, fundingCall, parseFundingEvents } from "./contracts";
+import { parseAmount } from "./amount";
+import {
+  checkDonation,
+  OVERFUNDING_POLICY,
+  type OverfundingPolicy,
+} from "./campaignStatus";
+import type { Donation, DonationToken } from "../hooks/useContract";
+import type { CallsReceipt, CallsStatus } from "./paymentService";
+import type { ContractCall } from "./preflight";
+
+/**
+ * A pending donation in the cart
+ */
+export interface CartItem {
+  campaignId: bigint;
+  description: string;
+  /** Amount as entered by the user */
+  amount: string;
+}
+
+/**
+ * Outcome of a single cart item after the batch settled
+ */
+export interface CartItemResult {
+  campaignId: bigint;
+  /** True if a matching DonationMade event was found in the receipts */
+  success: boolean;
+  amount: bigint;
+  transactionHash?: `0x${string}`;
+}
+
+/**
+ * Sums the cart in base units
+ *
+ * @param items - Cart items
+ * @param decimals - Decimals of the donation token
+ * @returns The total amount
+ * @throws If any item's amount is invalid
+ */
+export const cartTotal = (items: CartItem[], decimals: number): bigint =>
+  items.reduce((sum, item) => sum + parseAmount(item.amount, decimals), 0n);
+
+/**
+ * Checks every cart item against its campaign's current totals
+ *
+ * Other donors may have given since an item was added, so the items are
+ * judged by the amount still needed, with several items for one campaign
+ * counted together. Deadlines are left to the donate forms.
+ *
+ * @param items - Cart items
+ * @param donations - The campaigns, freshly read, in the same order as the items
+ * @param token - The donation token
+ * @param policy - The over-funding policy
+ * @returns Why the first refused item cannot be donated, or null if all can
+ */
+export const checkCart = (
+  items: CartItem[],
+  donations: Donation[],
+  token: DonationToken,
+  policy: OverfundingPolicy = OVERFUNDING_POLICY
+): string | null => {
+  const totals = new Map<bigint, bigint>();
+
+  for (const [index, item] of items.entries()) {
+    const amount =
+      (totals.get(item.campaignId) ?? 0n) + parseAmount(item.amount, token.decimals);
+    totals.set(item.campaignId, amount);
+
+    const availability = checkDonation(donations[index], "unknown", amount, token, policy);
+    if (!availability.allowed) {
+      return `${item.description}: ${availability.reason}`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Builds the calls that donate the whole cart
+ *
+ * Token donations need a single approve for the cart total, placed first so
+ * that every donate call in the batch can pull its share.
+ *
+ * @param items - Cart items
+ * @param decimals - Decimals of the donation token
+ * @param fundingAddress - The Funding contract
+ * @param approveToken - Token to approve, or null if no approval is needed
+ * @returns The calls in execution order
+ *
+ * @example
+ * const calls = buildCartCalls(items, 18, network.fundingAddress, null);
+ */
+export const buildCartCalls = (
+  items: CartItem[],
+  decimals: number,
+  fundingAddress: Address,
+  approveToken: Address | null
+): ContractCall[] => {
+  const calls: ContractCall[] = [];
+
+  if (approveToken) {
+    calls.push(
+      erc20Call(approveToken, "approve", [fundingAddress, cartTotal(items, decimals)])
+    );
+  }
+
+  for (const item of items) {
+    calls.push(
+      fundingCall(fundingAddress, "donate", [
+        item.campaignId,
+        parseAmount(item.amount, decimals),
+      ])
+    );
+  }
+
+  return calls;
+};
+
+/**
+ * Completes a bare log from a wallet receipt with the receipt's block and
+ * transaction; wallets do not report the log's own index
+ */
+const receiptLog = (
+  receipt: CallsReceipt,
+  log: NonNullable<CallsReceipt["logs"]>[number]
+): Log => ({
+  address: log.address,
+  data: log.data,
+  topics: log.topics,
+  blockHash: receipt.blockHash ?? null,
+  blockNumber: receipt.blockNumber ? hexToBigInt(receipt.blockNumber) : null,
+  transactionHash: receipt.transactionHash,
+  transactionIndex: null,
+  logIndex: null,
+  removed: false,
+});
+
+/**
+ * Maps the DonationMade events in a settled batch back to cart items
+ *
+ * Each item is matched to one unused event for the same campaign, donor and
+ * amount, so two items for the same campaign are matched separately.
+ *
+ * @param items - The cart items that were submitted
+ * @param status - The batch status with its receipts
+ * @param donor - The account that sent the batch
+ * @param fundingAddress - The Funding contract
+ * @param decimals - Decimals of the donation token
+ * @returns One result per item, in cart order
+ */
+export const mapCartResults = (
+  items: CartItem[],
+  status: CallsStatus,
+  donor: string,
+  fundingAddress: string,
+  decimals: number
+): CartItemResult[] => {
+  const events = (status.receipts ?? []).flatMap((receipt) =>
+    parseFundingEvents(
+      (receipt.logs ?? [])
+        .filter((log) => log.address.toLowerCase() === fundingAddress.toLowerCase())
+        .map((log) => receiptLog(receipt, log))
+    ).flatMap((event) =>
+      event.eventName === "DonationMade"
+        ? [{ args: event.args, transactionHash: receipt.transactionHash, used: false }]
+        : []
+    )
+  );
+
+  return items.map((item) => {
+    const amount = parseAmount(item.amount, decimals);
+    const match = events.find(
+      (event) =>
+        !event.used &&
+        event.args.id === item.campaignId &&
+        event.args.amount === amount &&
+        event.args.donor.toLowerCase() === donor.toLowerCase()
+    );
+
+    if (match) match.used = true;
+
+    return {
+      campaignId: item.campaignId,
+      success: !!match,
+      amount,
+      transactionHash: match?.transactionHash,
+    };
+  });
+};
@@ -0,0 +1,66 @@
+/**
+ * Export File Module
+ *
+ * This module turns tabular data into files the user can download:
+ * - CSV with quoting and spreadsheet formula escaping
+ * - JSON with bigints encoded as decimal strings
+ * - Triggering a download of the generated file in the browser
+ *
+ * @module exportFile
+ */
+
+export type CsvValue = string | number | bigint | boolean | null | undefined;
+
+/**
+ * Escapes a single CSV field
+ *
+ * Fields starting with `=`, `+`, `-` or `@` are prefixed with a quote so
+ * spreadsheets do not evaluate user-controlled text as a formula.
+ */
+const csvField = (value: CsvValue): string => {
+  if (value === null || value === undefined) return "";
+  if (typeof value !== "string") return value.toString();
+
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Builds a CSV document
+ *
+ * @param header - Column names
+ * @param rows - One array of values per row, in column order
+ * @returns The CSV text with CRLF line endings
+ *
+ * @example
+ * toCsv(['id', 'title'], [[1n, 'Roof, phase 2']]); // 'id,title\r\n1,"Roof, phase 2"\r\n'
+ */
+export const toCsv = (header: string[], rows: CsvValue[][]): string =>
+  [header, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+
+/**
+ * Serializes a value as indented JSON, encoding bigints as decimal strings
+ */
+export const toJson = (value: unknown): string =>
+  JSON.stringify(
+    value,
+    (_key, item) => (typeof item === "bigint" ? item.toString() : item),
+    2
+  );
+
+/**
+ * Starts a download of generated content
+ *
+ * @param filename - Name suggested to the browser
+ * @param content - The file content
+ * @param type - MIME type, e.g. "text/csv"
+ */
+export const downloadFile = (filename: string, content: string, type: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${type};charset=utf-8` }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoke after the click has been handled so the download can start
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
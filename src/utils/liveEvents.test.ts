@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  encodeAbiParameters,
+  encodeEventTopics,
+  padHex,
+  numberToHex,
+  type Log,
+} from "viem";
+import { CONTRACT_ADDRESS, FUNDING_ABI } from "./Funding";
+import { NETWORKS, type DeployedNetwork } from "./networks";
+import { watchFundingEvents, type LiveStatus } from "./liveEvents";
+
+const network: DeployedNetwork = { ...NETWORKS.anvil, fundingAddress: CONTRACT_ADDRESS };
+const DONOR = "0x00000000000000000000000000000000000000b0";
+const INTERVAL = 1000;
+
+/**
+ * A raw DonationMade log as the node would return it
+ */
+const donationLog = (blockNumber: bigint, campaignId: bigint): Log => ({
+  address: network.fundingAddress,
+  topics: encodeEventTopics({ abi: FUNDING_ABI, eventName: "DonationMade" }) as [
+    `0x${string}`,
+  ],
+  data: encodeAbiParameters(
+    [{ type: "uint256" }, { type: "address" }, { type: "uint256" }],
+    [campaignId, DONOR, 1n]
+  ),
+  blockNumber,
+  blockHash: padHex(numberToHex(blockNumber)),
+  transactionHash: padHex(numberToHex(blockNumber * 100n + campaignId)),
+  transactionIndex: 0,
+  logIndex: Number(campaignId),
+  removed: false,
+});
+
+/**
+ * Public client stand-in: a chain of `head` blocks holding `logs`, and
+ * subscriptions the test can feed or fail
+ */
+const createNode = (logs: Log[] = []) => {
+  const node = {
+    head: 100n,
+    logs,
+    subscriptions: [] as {
+      onLogs: (logs: Log[]) => void;
+      onError: (error: Error) => void;
+      unwatch: ReturnType<typeof vi.fn>;
+    }[],
+    getBlockNumber: vi.fn(async () => node.head),
+    getLogs: vi.fn(async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) =>
+      node.logs.filter(
+        ({ blockNumber }) => blockNumber! >= fromBlock && blockNumber! <= toBlock
+      )
+    ),
+    getBlock: vi.fn(async () => ({ timestamp: 1700000000n })),
+    watchContractEvent: vi.fn(
+      (params: { onLogs: (logs: Log[]) => void; onError: (error: Error) => void }) => {
+        const unwatch = vi.fn();
+        node.subscriptions.push({ ...params, unwatch });
+        return unwatch;
+      }
+    ),
+  };
+  return node;
+};
+
+const watch = (node: ReturnType<typeof createNode>, maxReconnectAttempts = 3) => {
+  const donations: bigint[] = [];
+  const statuses: LiveStatus[] = [];
+  const stop = watchFundingEvents(
+    node as unknown as Parameters<typeof watchFundingEvents>[0],
+    network,
+    {
+      onDonationMade: (record) => donations.push(record.campaignId),
+      onStatusChange: (status) => statuses.push(status),
+    },
+    { pollingIntervalMs: INTERVAL, reconnectDelayMs: INTERVAL, maxReconnectAttempts }
+  );
+  return { donations, statuses, stop };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("watchFundingEvents", () => {
+  it("counts failures again once a subscription survives an interval", async () => {
+    const node = createNode();
+    const { statuses, stop } = watch(node, 1);
+    await vi.advanceTimersByTimeAsync(0);
+
+    node.subscriptions[0].onError(new Error("filter not found"));
+    await vi.advanceTimersByTimeAsync(INTERVAL);
+    await vi.advanceTimersByTimeAsync(INTERVAL);
+    expect(statuses.at(-1)).toBe("live");
+
+    // A later, unrelated error reconnects instead of switching to polling
+    node.subscriptions[1].onError(new Error("rate limited"));
+    expect(statuses.at(-1)).toBe("reconnecting");
+    await vi.advanceTimersByTimeAsync(INTERVAL);
+    expect(node.subscriptions).toHaveLength(3);
+    stop();
+  });
+
+  it("dispatches events emitted while reconnecting exactly once", async () => {
+    const node = createNode();
+    const { donations, stop } = watch(node);
+    await vi.advanceTimersByTimeAsync(0);
+
+    node.subscriptions[0].onError(new Error("connection reset"));
+    node.head = 105n;
+    node.logs.push(donationLog(102n, 1n), donationLog(105n, 2n));
+    await vi.advanceTimersByTimeAsync(INTERVAL);
+
+    expect(node.getLogs).toHaveBeenCalledWith(
+      expect.objectContaining({ fromBlock: 101n, toBlock: 105n })
+    );
+    // The new subscription reports a block the catch-up already covered, then a new one
+    node.subscriptions[1].onLogs([donationLog(105n, 2n)]);
+    node.subscriptions[1].onLogs([donationLog(106n, 3n)]);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(donations).toEqual([1n, 2n, 3n]);
+    stop();
+  });
+
+  it("keeps track of the head while the subscription is quiet", async () => {
+    const node = createNode();
+    const { stop } = watch(node);
+    await vi.advanceTimersByTimeAsync(0);
+
+    node.head = 50_000n;
+    await vi.advanceTimersByTimeAsync(INTERVAL);
+    await vi.advanceTimersByTimeAsync(INTERVAL);
+
+    node.subscriptions[0].onError(new Error("connection reset"));
+    node.head = 50_005n;
+    await vi.advanceTimersByTimeAsync(INTERVAL);
+
+    expect(node.getLogs).toHaveBeenCalledExactlyOnceWith(
+      expect.objectContaining({ fromBlock: 50_001n, toBlock: 50_005n })
+    );
+    stop();
+  });
+
+  it("catches up in ranges the RPC accepts", async () => {
+    const node = createNode();
+    const getLogs = node.getLogs.getMockImplementation()!;
+    node.getLogs.mockImplementation(async (range) => {
+      if (range.toBlock - range.fromBlock >= 1000n) {
+        throw new Error("exceed maximum block range: 1000");
+      }
+      return getLogs(range);
+    });
+    const { donations, statuses, stop } = watch(node);
+    await vi.advanceTimersByTimeAsync(0);
+
+    node.subscriptions[0].onError(new Error("connection reset"));
+    node.head = 5100n;
+    node.logs.push(donationLog(4000n, 1n));
+    await vi.advanceTimersByTimeAsync(INTERVAL);
+    await vi.advanceTimersByTimeAsync(INTERVAL);
+
+    expect(donations).toEqual([1n]);
+    expect(statuses.at(-1)).toBe("live");
+    stop();
+  });
+
+  it("drops a poll still in flight when connectivity returns", async () => {
+    const node = createNode();
+    const { donations, statuses, stop } = watch(node, 0);
+    await vi.advanceTimersByTimeAsync(0);
+
+    // Falls back to polling straight away, with the poll's getLogs stalled
+    let release: () => void = () => undefined;
+    node.getLogs.mockImplementationOnce(
+      ({ fromBlock, toBlock }) =>
+        new Promise((resolve) => {
+          release = () =>
+            resolve(
+              node.logs.filter(
+                ({ blockNumber }) => blockNumber! >= fromBlock && blockNumber! <= toBlock
+              )
+            );
+        })
+    );
+    node.head = 101n;
+    node.logs.push(donationLog(101n, 4n));
+    node.subscriptions[0].onError(new Error("subscription failed"));
+    await vi.advanceTimersByTimeAsync(0);
+
+    window.dispatchEvent(new Event("online"));
+    await vi.advanceTimersByTimeAsync(0);
+    release();
+    await vi.advanceTimersByTimeAsync(INTERVAL);
+
+    expect(donations).toEqual([4n]);
+    expect(statuses).not.toContain("polling");
+    stop();
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Live Events Module
+ *
+ * This module keeps the app in sync with on-chain activity by watching the
+ * Funding contract's events:
+ * - Subscribing through viem's watchContractEvent
+ * - Reconnecting with exponential backoff when the subscription errors
+ * - Catching up with chunked getLogs on events emitted while reconnecting
+ * - Falling back to plain getLogs polling if the subscription keeps failing
+ * - Reporting connection status so the UI can show a live indicator
+ *
+ * @module liveEvents
+ */
+
+import type { Log } from "viem";
+import { FUNDING_ABI } from "./Funding";
+import type { createClient } from "./paymentService";
+import type { DeployedNetwork } from "./networks";
+import {
+  decodeFundingLogs,
+  fetchFundingEventsInChunks,
+  type CampaignCreatedRecord,
+  type DonationRecord,
+  type FundingRecords,
+  type RefundRecord,
+  type WithdrawalRecord,
+} from "./logIndexer";
+
+type PublicClient = ReturnType<typeof createClient>;
+
+/**
+ * Connection status of the live subscription
+ */
+export type LiveStatus =
+  | "connecting"
+  | "live"
+  | "polling"
+  | "reconnecting"
+  | "offline";
+
+/**
+ * Callbacks invoked by {@link watchFundingEvents}
+ */
+export interface FundingEventHandlers {
+  onDonationCreated?: (record: CampaignCreatedRecord) => void;
+  onDonationMade?: (record: DonationRecord) => void;
+  onFundsWithdrawn?: (record: WithdrawalRecord) => void;
+  onRefundClaimed?: (record: RefundRecord) => void;
+  onStatusChange?: (status: LiveStatus) => void;
+}
+
+/**
+ * Options accepted by {@link watchFundingEvents}
+ */
+export interface WatchOptions {
+  /** Interval between polls, both for the subscription and the fallback (default: 4000) */
+  pollingIntervalMs?: number;
+  /** Failed reconnects before switching to getLogs polling (default: 3) */
+  maxReconnectAttempts?: number;
+  /** Delay before the first reconnect, doubled after each failure (default: 2000) */
+  reconnectDelayMs?: number;
+}
+
+/**
+ * Watches the Funding contract for new campaigns and donations
+ *
+ * @param client - Viem public client
+ * @param network - Network the Funding contract is deployed on
+ * @param handlers - Callbacks for decoded events and status changes
+ * @param options - Polling and reconnect configuration
+ * @returns A function that stops watching
+ *
+ * @example
+ * const unwatch = watchFundingEvents(client, NETWORKS.baseSepolia, {
+ *   onDonationMade: (donation) => console.log('New donation', donation),
+ *   onStatusChange: (status) => console.log('Live status', status),
+ * });
+ */
+export const watchFundingEvents = (
+  client: PublicClient,
+  network: DeployedNetwork,
+  handlers: FundingEventHandlers,
+  options: WatchOptions = {}
+): (() => void) => {
+  const {
+    pollingIntervalMs = 4000,
+    maxReconnectAttempts = 3,
+    reconnectDelayMs = 2000,
+  } = options;
+
+  let stopped = false;
+  // Consecutive subscription failures; reset once a subscription survives an interval
+  let failures = 0;
+  // Last block whose events have all been dispatched
+  let lastBlock: bigint | null = null;
+  let unwatch: (() => void) | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  // Bumped on every restart so work still in flight from before is dropped
+  let epoch = 0;
+
+  const setStatus = (status: LiveStatus) => {
+    if (!stopped) handlers.onStatusChange?.(status);
+  };
+
+  const dispatch = (records: FundingRecords) => {
+    if (stopped) return;
+    records.created.forEach((record) => handlers.onDonationCreated?.(record));
+    records.donations.forEach((record) => handlers.onDonationMade?.(record));
+    records.withdrawals.forEach((record) => handlers.onFundsWithdrawn?.(record));
+    records.refunds.forEach((record) => handlers.onRefundClaimed?.(record));
+
+    const blocks = [
+      ...records.created,
+      ...records.donations,
+      ...records.withdrawals,
+      ...records.refunds,
+    ].map((record) => record.blockNumber);
+    for (const block of blocks) {
+      if (lastBlock === null || block > lastBlock) lastBlock = block;
+    }
+  };
+
+  const clearTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  /**
+   * Stops the current subscription or poll loop and starts a new epoch, so
+   * anything they still have in flight is discarded
+   */
+  const restart = (): number => {
+    unwatch?.();
+    unwatch = null;
+    clearTimer();
+    epoch += 1;
+    return epoch;
+  };
+
+  /**
+   * Dispatches events from the blocks after `lastBlock` up to the latest
+   * block, e.g. those emitted while reconnecting, fetched in chunks the RPC
+   * accepts. The first run only records the latest block as the starting point.
+   *
+   * @returns False if a restart happened meanwhile and the rest was dropped
+   */
+  const catchUp = async (run: number): Promise<boolean> => {
+    const latest = await client.getBlockNumber();
+    if (run !== epoch) return false;
+
+    if (lastBlock !== null && latest > lastBlock) {
+      await fetchFundingEventsInChunks(
+        client,
+        network,
+        lastBlock + 1n,
+        latest,
+        (records, toBlock) => {
+          if (run !== epoch) return false;
+          dispatch(records);
+          if (lastBlock === null || toBlock > lastBlock) lastBlock = toBlock;
+        }
+      );
+      if (run !== epoch) return false;
+    }
+    if (lastBlock === null || latest > lastBlock) lastBlock = latest;
+    return true;
+  };
+
+  const poll = async (run: number) => {
+    if (stopped || run !== epoch) return;
+
+    try {
+      if (await catchUp(run)) setStatus("polling");
+    } catch (error) {
+      if (run !== epoch) return;
+      console.log(`Error polling funding events: ${error}`);
+      setStatus("reconnecting");
+    }
+
+    if (!stopped && run === epoch) timer = setTimeout(() => poll(run), pollingIntervalMs);
+  };
+
+  const fail = (run: number, error: unknown) => {
+    if (stopped || run !== epoch) return;
+
+    console.log(`Funding event subscription error: ${error}`);
+    failures += 1;
+    const next = restart();
+
+    if (failures > maxReconnectAttempts) {
+      // Subscription keeps failing: fall back to plain getLogs polling
+      poll(next);
+      return;
+    }
+
+    setStatus("reconnecting");
+    timer = setTimeout(subscribe, reconnectDelayMs * 2 ** (failures - 1));
+  };
+
+  const subscribe = () => {
+    if (stopped) return;
+    const run = restart();
+    setStatus(failures === 0 ? "connecting" : "reconnecting");
+
+    // Logs that arrive before the catch-up has finished are held back, and
+    // logs from blocks the catch-up covered are dropped so none is dispatched twice
+    let held: Log[][] | null = [];
+    let coveredUpTo: bigint | null = null;
+
+    const deliver = (logs: Log[]) => {
+      const fresh = logs.filter(
+        (log) =>
+          log.blockNumber !== null && (coveredUpTo === null || log.blockNumber > coveredUpTo)
+      );
+      if (fresh.length === 0) return;
+
+      decodeFundingLogs(client, fresh)
+        .then((records) => {
+          if (run === epoch) dispatch(records);
+        })
+        .catch((error) => console.log(`Error decoding funding events: ${error}`));
+    };
+
+    unwatch = client.watchContractEvent({
+      address: network.fundingAddress,
+      abi: FUNDING_ABI,
+      pollingInterval: pollingIntervalMs,
+      onLogs: (logs) => {
+        if (run !== epoch) return;
+        if (held) held.push(logs);
+        else deliver(logs);
+      },
+      onError: (error) => fail(run, error),
+    });
+
+    // The subscription only sees new blocks, so fetch what it missed
+    catchUp(run)
+      .then((current) => {
+        if (!current) return;
+        coveredUpTo = lastBlock;
+        const logs = held ?? [];
+        held = null;
+        logs.forEach(deliver);
+      })
+      .catch((error) => fail(run, error));
+
+    // The first poll happens after one interval; once the subscription has
+    // survived it, it counts as healthy again. Each interval it survives after
+    // the catch-up, the head seen an interval earlier has been polled, so
+    // `lastBlock` moves up to it and a later catch-up stays short.
+    let healthy = false;
+    let seen: bigint | null = null;
+    const heartbeat = () => {
+      timer = setTimeout(async () => {
+        if (run !== epoch) return;
+        if (!healthy) {
+          healthy = true;
+          failures = 0;
+          setStatus("live");
+        }
+
+        if (held === null && seen !== null && (lastBlock === null || seen > lastBlock)) {
+          lastBlock = seen;
+        }
+        try {
+          seen = held === null ? await client.getBlockNumber() : null;
+        } catch (error) {
+          console.log(`Error reading the latest block: ${error}`);
+          seen = null;
+        }
+        if (run === epoch) heartbeat();
+      }, pollingIntervalMs);
+    };
+    heartbeat();
+  };
+
+  const handleOffline = () => {
+    setStatus("offline");
+  };
+
+  const handleOnline = () => {
+    // Resubscribe once connectivity returns, catching up on missed blocks
+    failures = 0;
+    subscribe();
+  };
+
+  window.addEventListener("offline", handleOffline);
+  window.addEventListener("online", handleOnline);
+  subscribe();
+
+  return () => {
+    stopped = true;
+    restart();
+    window.removeEventListener("offline", handleOffline);
+    window.removeEventListener("online", handleOnline);
+  };
+};
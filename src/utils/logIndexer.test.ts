@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from "vitest";
+import { CONTRACT_ADDRESS } from "./Funding";
+import { NETWORKS, type DeployedNetwork } from "./networks";
+import { findDeployBlock, isRangeLimitError, syncFundingEvents } from "./logIndexer";
+
+const network: DeployedNetwork = {
+  ...NETWORKS.anvil,
+  fundingAddress: CONTRACT_ADDRESS,
+  fundingDeployBlock: 0n,
+};
+
+/**
+ * Public client for a chain of `head` blocks with the contract deployed at
+ * `deployedAt`, whose getLogs rejects ranges wider than `maxRange`
+ */
+const createNode = ({ head = 10_000n, deployedAt = 6000n, maxRange = 5000n } = {}) => ({
+  getBlockNumber: vi.fn(async () => head),
+  getCode: vi.fn(async ({ blockNumber }: { blockNumber: bigint }) =>
+    blockNumber >= deployedAt ? "0x6080" : undefined
+  ),
+  getLogs: vi.fn(async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) => {
+    if (toBlock - fromBlock + 1n > maxRange) {
+      throw new Error(`exceed maximum block range: ${maxRange}`);
+    }
+    return [];
+  }),
+  getBlock: vi.fn(),
+});
+
+type Client = Parameters<typeof syncFundingEvents>[0];
+
+describe("findDeployBlock", () => {
+  it("finds the first block with code", async () => {
+    const node = createNode({ deployedAt: 1234n });
+
+    const block = await findDeployBlock(
+      node as unknown as Client,
+      network.fundingAddress,
+      10_000n
+    );
+
+    expect(block).toBe(1234n);
+    expect(node.getCode.mock.calls.length).toBeLessThan(20);
+  });
+
+  it("fails when nothing is deployed", async () => {
+    const node = createNode({ deployedAt: 20_000n });
+
+    await expect(
+      findDeployBlock(node as unknown as Client, network.fundingAddress, 10_000n)
+    ).rejects.toThrow("No contract deployed");
+  });
+});
+
+describe("syncFundingEvents", () => {
+  it("starts at the deploy block when none is configured", async () => {
+    const node = createNode();
+
+    const state = await syncFundingEvents(node as unknown as Client, network, 2000n);
+
+    expect(state.cursor).toBe(10_000n);
+    expect(node.getLogs.mock.calls[0][0]).toMatchObject({ fromBlock: 6000n });
+  });
+
+  it("shrinks rejected ranges and grows them back after successes", async () => {
+    const node = createNode({ head: 10_000n, deployedAt: 1n, maxRange: 1000n });
+
+    await syncFundingEvents(node as unknown as Client, network, 2000n);
+
+    const sizes = node.getLogs.mock.calls.map(
+      ([{ fromBlock, toBlock }]) => toBlock - fromBlock + 1n
+    );
+    // 2000 fails, 1000 succeeds, 2000 fails again, and so on
+    expect(sizes.slice(0, 4)).toEqual([2000n, 1000n, 2000n, 1000n]);
+  });
+
+  it("stops on errors other than range limits", async () => {
+    const node = createNode({ deployedAt: 1n });
+    node.getLogs.mockRejectedValueOnce(new Error("execution reverted"));
+
+    await expect(
+      syncFundingEvents(node as unknown as Client, network, 2000n)
+    ).rejects.toThrow("execution reverted");
+    expect(node.getLogs).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("isRangeLimitError", () => {
+  it.each([
+    ["query returned more than 10000 results", true],
+    ["Log response size exceeded", true],
+    ["block range is too wide", true],
+    ["rate limit exceeded", false],
+    ["execution reverted", false],
+  ])("%s → %s", (message, expected) => {
+    expect(isRangeLimitError(new Error(message))).toBe(expected);
+  });
+});
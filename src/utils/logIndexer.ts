@@ -0,0 +1,631 @@
+/**
+ * Log Indexer Module
+ *
+ * This module indexes the Funding contract's events (campaigns created,
+ * donations, withdrawals and refunds) on top of a public client:
+ * - Finding the contract's deploy block when none is configured
+ * - Fetching logs in block-range chunks, shrinking the range while the RPC
+ *   rejects it as too large and growing it back afterwards
+ * - Decoding events into typed records with block timestamps
+ * - Persisting the indexed records and block cursor to local storage
+ * - Exposing per-campaign donor history and per-account activity, including
+ *   what creators withdrew and donors had refunded
+ *
+ * @module logIndexer
+ */
+
+import { BaseError, LimitExceededRpcError, type Address, type Log } from "viem";
+import { parseFundingEvents } from "./contracts";
+import type { createClient } from "./paymentService";
+import type { DeployedNetwork } from "./networks";
+
+type PublicClient = ReturnType<typeof createClient>;
+
+/**
+ * A campaign creation decoded from a DonationCreated log
+ */
+export interface CampaignCreatedRecord {
+  campaignId: bigint;
+  targetAmount: bigint;
+  creator: string;
+  description: string;
+  timestamp: bigint;
+  blockNumber: bigint;
+  transactionHash: `0x${string}`;
+}
+
+/**
+ * A single donation decoded from a DonationMade log
+ */
+export interface DonationRecord {
+  campaignId: bigint;
+  donor: string;
+  amount: bigint;
+  timestamp: bigint;
+  blockNumber: bigint;
+  transactionHash: `0x${string}`;
+  logIndex: number;
+}
+
+/**
+ * A creator withdrawal decoded from a FundsWithdrawn log
+ */
+export interface WithdrawalRecord {
+  campaignId: bigint;
+  creator: string;
+  amount: bigint;
+  blockNumber: bigint;
+  transactionHash: `0x${string}`;
+}
+
+/**
+ * A donor refund decoded from a RefundClaimed log
+ */
+export interface RefundRecord {
+  campaignId: bigint;
+  donor: string;
+  amount: bigint;
+  blockNumber: bigint;
+  transactionHash: `0x${string}`;
+}
+
+/**
+ * Everything the indexer knows, up to and including block `cursor`
+ */
+export interface IndexerState {
+  cursor: bigint;
+  created: CampaignCreatedRecord[];
+  donations: DonationRecord[];
+  withdrawals: WithdrawalRecord[];
+  refunds: RefundRecord[];
+}
+
+/**
+ * Records decoded from a batch of logs
+ */
+export type FundingRecords = Omit<IndexerState, "cursor">;
+
+/**
+ * Donor history for a single campaign
+ */
+export interface CampaignHistory {
+  donations: DonationRecord[];
+  contributors: { donor: string; total: bigint; count: number }[];
+}
+
+const DEFAULT_CHUNK_SIZE = 2000n;
+
+/**
+ * Messages RPC providers use when a getLogs range or result set is too large
+ */
+const RANGE_LIMIT_PATTERN =
+  /block range|range (is )?too (large|wide|big)|more than \d+ (results|logs)|response size|too many (results|logs|blocks)|query timeout/i;
+
+// Versioned so states indexed before withdrawals and refunds were decoded are rebuilt
+const storageKey = (network: DeployedNetwork) =>
+  `poolr:indexer:v2:${network.chain.id}:${network.fundingAddress.toLowerCase()}`;
+
+/**
+ * In-flight sync per storage key so concurrent callers share one run
+ */
+const inFlight = new Map<string, Promise<IndexerState>>();
+
+/**
+ * Serializes indexer state, encoding bigints as decimal strings
+ */
+const serializeState = (state: IndexerState) =>
+  JSON.stringify(state, (_key, value) =>
+    typeof value === "bigint" ? { $bigint: value.toString() } : value
+  );
+
+/**
+ * Parses serialized indexer state, restoring bigints
+ */
+const deserializeState = (raw: string): IndexerState =>
+  JSON.parse(raw, (_key, value) =>
+    value && typeof value === "object" && "$bigint" in value
+      ? BigInt(value.$bigint)
+      : value
+  );
+
+/**
+ * Loads the persisted indexer state, or an empty state at the deploy block
+ *
+ * Without a configured deploy block the empty state's cursor is -1, and
+ * {@link syncFundingEvents} looks the deploy block up before indexing.
+ *
+ * @param network - Network the state was indexed on
+ * @returns The persisted state
+ */
+export const loadIndexerState = (network: DeployedNetwork): IndexerState => {
+  const empty: IndexerState = {
+    cursor: network.fundingDeployBlock - 1n,
+    created: [],
+    donations: [],
+    withdrawals: [],
+    refunds: [],
+  };
+
+  try {
+    const raw = localStorage.getItem(storageKey(network));
+    return raw ? deserializeState(raw) : empty;
+  } catch (error) {
+    console.log(`Error reading indexer state: ${error}`);
+    return empty;
+  }
+};
+
+/**
+ * Persists the indexer state to local storage
+ */
+const saveIndexerState = (network: DeployedNetwork, state: IndexerState) => {
+  try {
+    localStorage.setItem(storageKey(network), serializeState(state));
+  } catch (error) {
+    console.log(`Error persisting indexer state: ${error}`);
+  }
+};
+
+/**
+ * Decodes raw Funding contract logs into typed records
+ *
+ * DonationMade carries no timestamp, so each distinct block is looked up once.
+ *
+ * @param client - Viem public client
+ * @param logs - Raw logs emitted by the Funding contract
+ * @returns Decoded records, by event
+ */
+export const decodeFundingLogs = async (
+  client: PublicClient,
+  logs: Log[]
+): Promise<FundingRecords> => {
+  const events = parseFundingEvents(logs);
+
+  const blockTimes = new Map<bigint, bigint>();
+  const donationBlocks = new Set(
+    events
+      .filter((event) => event.eventName === "DonationMade")
+      .map((event) => event.blockNumber)
+  );
+  await Promise.all(
+    [...donationBlocks].map(async (blockNumber) => {
+      const block = await client.getBlock({ blockNumber });
+      blockTimes.set(blockNumber, block.timestamp);
+    })
+  );
+
+  const created: CampaignCreatedRecord[] = [];
+  const donations: DonationRecord[] = [];
+  const withdrawals: WithdrawalRecord[] = [];
+  const refunds: RefundRecord[] = [];
+
+  for (const event of events) {
+    if (event.eventName === "DonationCreated") {
+      const { args } = event;
+      created.push({
+        campaignId: args.id,
+        targetAmount: args.amount,
+        creator: args.creator,
+        description: args.description,
+        timestamp: args.timestamp,
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+      });
+    } else if (event.eventName === "FundsWithdrawn") {
+      const { args } = event;
+      withdrawals.push({
+        campaignId: args.id,
+        creator: args.creator,
+        amount: args.amount,
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+      });
+    } else if (event.eventName === "RefundClaimed") {
+      const { args } = event;
+      refunds.push({
+        campaignId: args.id,
+        donor: args.donor,
+        amount: args.amount,
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+      });
+    } else {
+      const { args } = event;
+      donations.push({
+        campaignId: args.id,
+        donor: args.donor,
+        amount: args.amount,
+        timestamp: blockTimes.get(event.blockNumber) ?? 0n,
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+        logIndex: event.logIndex,
+      });
+    }
+  }
+
+  return { created, donations, withdrawals, refunds };
+};
+
+/**
+ * Fetches and decodes Funding events in the given block range
+ *
+ * @param client - Viem public client
+ * @param network - Network the Funding contract is deployed on
+ * @param fromBlock - First block (inclusive)
+ * @param toBlock - Last block (inclusive)
+ * @returns Decoded records, by event
+ */
+export const fetchFundingEvents = async (
+  client: PublicClient,
+  network: DeployedNetwork,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<FundingRecords> => {
+  const logs = await client.getLogs({
+    address: network.fundingAddress,
+    fromBlock,
+    toBlock,
+  });
+
+  return decodeFundingLogs(client, logs);
+};
+
+/**
+ * Returns true if the RPC rejected a getLogs request for covering too many
+ * blocks or returning too many logs, so a smaller range may succeed
+ */
+export const isRangeLimitError = (error: unknown): boolean => {
+  if (!(error instanceof Error)) return false;
+  if (error instanceof BaseError && error.walk((err) => err instanceof LimitExceededRpcError)) {
+    return true;
+  }
+
+  const details = error instanceof BaseError ? `${error.shortMessage} ${error.details}` : "";
+  return RANGE_LIMIT_PATTERN.test(`${error.message} ${details}`);
+};
+
+/**
+ * Finds the block a contract was deployed in by binary search over getCode
+ *
+ * Needs an RPC that serves historical state; set the network's deploy block
+ * to skip the search.
+ *
+ * @param client - Viem public client
+ * @param address - The contract address
+ * @param latest - A block at which the contract is deployed
+ * @returns The first block with code at the address
+ * @throws If there is no contract at the address
+ */
+export const findDeployBlock = async (
+  client: PublicClient,
+  address: Address,
+  latest: bigint
+): Promise<bigint> => {
+  const hasCode = async (blockNumber: bigint) => {
+    const code = await client.getCode({ address, blockNumber });
+    return !!code && code !== "0x";
+  };
+
+  if (!(await hasCode(latest))) {
+    throw new Error(`No contract deployed at ${address}`);
+  }
+
+  let low = 0n;
+  let high = latest;
+  while (low < high) {
+    const middle = (low + high) / 2n;
+    if (await hasCode(middle)) high = middle;
+    else low = middle + 1n;
+  }
+  return low;
+};
+
+/**
+ * Fetches Funding events in a block range, in chunks the RPC accepts
+ *
+ * Logs are fetched in chunks of at most `chunkSize` blocks. If the RPC rejects
+ * a range as too large the chunk is halved and retried, and it doubles again
+ * after every chunk that succeeds; other errors are thrown.
+ *
+ * @param client - Viem public client
+ * @param network - Network the Funding contract is deployed on
+ * @param fromBlock - First block (inclusive)
+ * @param toBlock - Last block (inclusive)
+ * @param onChunk - Called with each chunk's records and last block, in order;
+ *   returning false stops the fetch
+ * @param chunkSize - Maximum number of blocks per getLogs request (default: 2000)
+ */
+export const fetchFundingEventsInChunks = async (
+  client: PublicClient,
+  network: DeployedNetwork,
+  fromBlock: bigint,
+  toBlock: bigint,
+  onChunk: (records: FundingRecords, toBlock: bigint) => boolean | void,
+  chunkSize: bigint = DEFAULT_CHUNK_SIZE
+): Promise<void> => {
+  let start = fromBlock;
+  let size = chunkSize;
+
+  while (start <= toBlock) {
+    const end = start + size - 1n < toBlock ? start + size - 1n : toBlock;
+
+    let records: FundingRecords;
+    try {
+      records = await fetchFundingEvents(client, network, start, end);
+    } catch (error) {
+      if (size <= 1n || !isRangeLimitError(error)) throw error;
+      size /= 2n;
+      continue;
+    }
+
+    if (onChunk(records, end) === false) return;
+    start = end + 1n;
+    size = size * 2n < chunkSize ? size * 2n : chunkSize;
+  }
+};
+
+/**
+ * Indexes all Funding events from the persisted cursor up to the latest block
+ *
+ * Logs are fetched with {@link fetchFundingEventsInChunks}, and the cursor is
+ * persisted after every chunk, so an interrupted sync resumes where it stopped.
+ *
+ * When the network has no deploy block configured it is looked up first, so
+ * the sync never scans from the genesis block.
+ *
+ * @param client - Viem public client
+ * @param network - Network the Funding contract is deployed on
+ * @param chunkSize - Maximum number of blocks per getLogs request (default: 2000)
+ * @returns The up-to-date indexer state
+ *
+ * @example
+ * const state = await syncFundingEvents(client, NETWORKS.baseSepolia);
+ * console.log(`${state.donations.length} donations indexed`);
+ */
+export const syncFundingEvents = (
+  client: PublicClient,
+  network: DeployedNetwork,
+  chunkSize: bigint = DEFAULT_CHUNK_SIZE
+): Promise<IndexerState> => {
+  const key = storageKey(network);
+  const running = inFlight.get(key);
+  if (running) return running;
+
+  const run = (async () => {
+    const state = loadIndexerState(network);
+    const latest = await client.getBlockNumber();
+
+    if (state.cursor < 0n) {
+      try {
+        state.cursor = (await findDeployBlock(client, network.fundingAddress, latest)) - 1n;
+      } catch (error) {
+        throw new Error(
+          `Could not find the Funding contract's deploy block on ${network.name}; ` +
+            `configure it to index events (${error instanceof Error ? error.message : error})`
+        );
+      }
+      saveIndexerState(network, state);
+    }
+
+    await fetchFundingEventsInChunks(
+      client,
+      network,
+      state.cursor + 1n,
+      latest,
+      ({ created, donations, withdrawals, refunds }, toBlock) => {
+        state.created.push(...created);
+        state.donations.push(...donations);
+        state.withdrawals.push(...withdrawals);
+        state.refunds.push(...refunds);
+        state.cursor = toBlock;
+        saveIndexerState(network, state);
+      },
+      chunkSize
+    );
+
+    return state;
+  })().finally(() => inFlight.delete(key));
+
+  inFlight.set(key, run);
+  return run;
+};
+
+/**
+ * Builds the donor history for a campaign from indexed donations
+ *
+ * @param donations - Indexed donation records
+ * @param campaignId - The campaign to build history for
+ * @returns Donations in chronological order and contributors by total given
+ */
+export const buildCampaignHistory = (
+  donations: DonationRecord[],
+  campaignId: bigint
+): CampaignHistory => {
+  const campaignDonations = donations
+    .filter((donation) => donation.campaignId === campaignId)
+    .sort((a, b) =>
+      a.blockNumber === b.blockNumber
+        ? a.logIndex - b.logIndex
+        : a.blockNumber < b.blockNumber
+          ? -1
+          : 1
+    );
+
+  const totals = new Map<string, { donor: string; total: bigint; count: number }>();
+  for (const donation of campaignDonations) {
+    const key = donation.donor.toLowerCase();
+    const entry = totals.get(key) ?? { donor: donation.donor, total: 0n, count: 0 };
+    entry.total += donation.amount;
+    entry.count += 1;
+    totals.set(key, entry);
+  }
+
+  const contributors = [...totals.values()].sort((a, b) =>
+    a.total === b.total ? 0 : a.total > b.total ? -1 : 1
+  );
+
+  return { donations: campaignDonations, contributors };
+};
+
+/**
+ * Syncs the index and returns the donor history for a campaign
+ *
+ * @param client - Viem public client
+ * @param network - Network the Funding contract is deployed on
+ * @param campaignId - The campaign to fetch history for
+ * @returns The campaign's donations and contributors
+ *
+ * @example
+ * const { contributors } = await getCampaignHistory(client, NETWORKS.baseSepolia, 3n);
+ */
+export const getCampaignHistory = async (
+  client: PublicClient,
+  network: DeployedNetwork,
+  campaignId: bigint
+): Promise<CampaignHistory> => {
+  const state = await syncFundingEvents(client, network);
+  return buildCampaignHistory(state.donations, campaignId);
+};
+
+/**
+ * A campaign created by an account, with its indexed donor history
+ */
+export interface CreatedCampaignActivity {
+  campaign: CampaignCreatedRecord;
+  history: CampaignHistory;
+  /** Total the creator has withdrawn */
+  withdrawn: bigint;
+}
+
+/**
+ * Everything an account has contributed to a single campaign
+ */
+export interface ContributionSummary {
+  campaignId: bigint;
+  total: bigint;
+  count: number;
+  lastTimestamp: bigint;
+  /** Total refunded to the account */
+  refunded: bigint;
+}
+
+/**
+ * Indexed activity of a single account
+ */
+export interface AccountActivity {
+  created: CreatedCampaignActivity[];
+  contributions: ContributionSummary[];
+  /** The account's own donations in chronological order */
+  donations: DonationRecord[];
+}
+
+/**
+ * A point on a cumulative donations-over-time series
+ */
+export interface DonationSeriesPoint {
+  timestamp: bigint;
+  total: bigint;
+}
+
+/**
+ * Builds the activity of an account from indexed events
+ *
+ * @param state - Indexer state
+ * @param account - The account to build activity for
+ * @returns Campaigns the account created, newest first, and what it donated,
+ *   most recent first
+ */
+export const buildAccountActivity = (
+  state: IndexerState,
+  account: string
+): AccountActivity => {
+  const owner = account.toLowerCase();
+
+  const created = state.created
+    .filter((record) => record.creator.toLowerCase() === owner)
+    .sort((a, b) =>
+      a.campaignId === b.campaignId ? 0 : a.campaignId > b.campaignId ? -1 : 1
+    )
+    .map((campaign) => ({
+      campaign,
+      history: buildCampaignHistory(state.donations, campaign.campaignId),
+      withdrawn: state.withdrawals
+        .filter((record) => record.campaignId === campaign.campaignId)
+        .reduce((sum, record) => sum + record.amount, 0n),
+    }));
+
+  const donations = state.donations
+    .filter((donation) => donation.donor.toLowerCase() === owner)
+    .sort((a, b) =>
+      a.blockNumber === b.blockNumber
+        ? a.logIndex - b.logIndex
+        : a.blockNumber < b.blockNumber
+          ? -1
+          : 1
+    );
+
+  const byCampaign = new Map<bigint, ContributionSummary>();
+  for (const donation of donations) {
+    const entry = byCampaign.get(donation.campaignId) ?? {
+      campaignId: donation.campaignId,
+      total: 0n,
+      count: 0,
+      lastTimestamp: 0n,
+      refunded: 0n,
+    };
+    entry.total += donation.amount;
+    entry.count += 1;
+    entry.lastTimestamp = donation.timestamp;
+    byCampaign.set(donation.campaignId, entry);
+  }
+
+  for (const refund of state.refunds) {
+    const entry = byCampaign.get(refund.campaignId);
+    if (entry && refund.donor.toLowerCase() === owner) entry.refunded += refund.amount;
+  }
+
+  const contributions = [...byCampaign.values()].sort((a, b) =>
+    a.lastTimestamp === b.lastTimestamp ? 0 : a.lastTimestamp > b.lastTimestamp ? -1 : 1
+  );
+
+  return { created, contributions, donations };
+};
+
+/**
+ * Turns chronological donations into a cumulative series for charting
+ *
+ * @param donations - Donations in chronological order
+ * @returns One point per donation with the running total
+ *
+ * @example
+ * buildDonationSeries(history.donations).at(-1)?.total; // total raised
+ */
+export const buildDonationSeries = (
+  donations: DonationRecord[]
+): DonationSeriesPoint[] => {
+  let total = 0n;
+  return donations.map((donation) => {
+    total += donation.amount;
+    return { timestamp: donation.timestamp, total };
+  });
+};
+
+/**
+ * Syncs the index and returns the activity of an account
+ *
+ * @param client - Viem public client
+ * @param network - Network the Funding contract is deployed on
+ * @param account - The account to fetch activity for
+ * @returns The account's campaigns and contributions
+ *
+ * @example
+ * const { created, contributions } = await getAccountActivity(client, NETWORKS.baseSepolia, account);
+ */
+export const getAccountActivity = async (
+  client: PublicClient,
+  network: DeployedNetwork,
+  account: string
+): Promise<AccountActivity> => {
+  const state = await syncFundingEvents(client, network);
+  return buildAccountActivity(state, account);
+};
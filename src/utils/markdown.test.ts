@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { parseInline, parseMarkdown } from "./markdown";
+
+describe("parseInline", () => {
+  it("parses emphasis, code and links", () => {
+    expect(parseInline("A **bold** _plan_ with `code` and [a link](https://x.example)."))
+      .toEqual([
+        { type: "text", text: "A " },
+        { type: "strong", text: "bold" },
+        { type: "text", text: " " },
+        { type: "em", text: "plan" },
+        { type: "text", text: " with " },
+        { type: "code", text: "code" },
+        { type: "text", text: " and " },
+        { type: "link", text: "a link", href: "https://x.example" },
+        { type: "text", text: "." },
+      ]);
+  });
+
+  it("leaves links with other schemes as text", () => {
+    expect(parseInline("[x](javascript:alert(1))")).toEqual([
+      { type: "text", text: "[x](javascript:alert(1))" },
+    ]);
+  });
+});
+
+describe("parseMarkdown", () => {
+  it("parses headings, paragraphs, lists and quotes", () => {
+    const blocks = parseMarkdown(
+      "# Goal\nWe need\nchairs.\n\n- ten chairs\n- two tables\n1. order\n> Thanks!"
+    );
+
+    expect(blocks.map((block) => block.type)).toEqual([
+      "heading",
+      "paragraph",
+      "list",
+      "list",
+      "quote",
+    ]);
+    expect(blocks[0]).toMatchObject({ level: 2 });
+    expect(blocks[1]).toEqual({
+      type: "paragraph",
+      content: [{ type: "text", text: "We need chairs." }],
+    });
+    expect(blocks[2]).toMatchObject({ ordered: false, items: { length: 2 } });
+    expect(blocks[3]).toMatchObject({ ordered: true, items: { length: 1 } });
+  });
+});
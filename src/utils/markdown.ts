@@ -0,0 +1,119 @@
+/**
+ * Markdown Module
+ *
+ * This module parses the small markdown subset used in campaign bodies into
+ * a tree that components render as React elements, so no HTML is injected:
+ * - Blocks: headings, paragraphs, bullet and numbered lists, quotes
+ * - Inline: bold, italic, code and http(s) links
+ *
+ * @module markdown
+ */
+
+export type InlineNode =
+  | { type: "text"; text: string }
+  | { type: "strong"; text: string }
+  | { type: "em"; text: string }
+  | { type: "code"; text: string }
+  | { type: "link"; text: string; href: string };
+
+export type BlockNode =
+  | { type: "heading"; level: 2 | 3 | 4; content: InlineNode[] }
+  | { type: "paragraph"; content: InlineNode[] }
+  | { type: "quote"; content: InlineNode[] }
+  | { type: "list"; ordered: boolean; items: InlineNode[][] };
+
+const INLINE_PATTERN =
+  /\*\*([^*]+)\*\*|__([^_]+)__|\*([^*]+)\*|_([^_]+)_|`([^`]+)`|\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g;
+
+/**
+ * Parses inline markdown
+ *
+ * @param text - A single block's text
+ * @returns Text, emphasis, code and link nodes in order
+ */
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    if (match.index > last) {
+      nodes.push({ type: "text", text: text.slice(last, match.index) });
+    }
+
+    const [, strong, strongAlt, em, emAlt, code, label, href] = match;
+    if (strong ?? strongAlt) {
+      nodes.push({ type: "strong", text: strong ?? strongAlt });
+    } else if (em ?? emAlt) {
+      nodes.push({ type: "em", text: em ?? emAlt });
+    } else if (code) {
+      nodes.push({ type: "code", text: code });
+    } else {
+      nodes.push({ type: "link", text: label, href });
+    }
+
+    last = match.index + match[0].length;
+  }
+
+  if (last < text.length) {
+    nodes.push({ type: "text", text: text.slice(last) });
+  }
+  return nodes;
+};
+
+/**
+ * Parses markdown into blocks
+ *
+ * Top-level headings are demoted to h2 so they fit under the page title.
+ *
+ * @param markdown - Markdown text
+ * @returns The block tree
+ *
+ * @example
+ * parseMarkdown('# Goal\n\nWe need **new** chairs.');
+ * // [{ type: 'heading', level: 2, ... }, { type: 'paragraph', ... }]
+ */
+export const parseMarkdown = (markdown: string): BlockNode[] => {
+  const blocks: BlockNode[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: InlineNode[][] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: "paragraph", content: parseInline(paragraph.join(" ")) });
+      paragraph = [];
+    }
+    if (list) {
+      blocks.push({ type: "list", ...list });
+      list = null;
+    }
+  };
+
+  for (const rawLine of markdown.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+    const bullet = /^[-*+]\s+(.*)$/.exec(line);
+    const numbered = /^\d+[.)]\s+(.*)$/.exec(line);
+
+    if (!line) {
+      flush();
+    } else if (heading) {
+      flush();
+      const level = Math.min(Math.max(heading[1].length + 1, 2), 4) as 2 | 3 | 4;
+      blocks.push({ type: "heading", level, content: parseInline(heading[2]) });
+    } else if (line.startsWith(">")) {
+      flush();
+      blocks.push({ type: "quote", content: parseInline(line.replace(/^>\s?/, "")) });
+    } else if (bullet || numbered) {
+      const ordered = !!numbered;
+      if (paragraph.length > 0 || (list && list.ordered !== ordered)) flush();
+      list ??= { ordered, items: [] };
+      list.items.push(parseInline((bullet ?? numbered)![1]));
+    } else {
+      if (list) flush();
+      paragraph.push(line);
+    }
+  }
+
+  flush();
+  return blocks;
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { NETWORKS } from "./networks";
+import {
+  isHidden,
+  loadModeration,
+  moderate,
+  parseModerationList,
+  saveModeration,
+} from "./moderation";
+
+describe("moderate", () => {
+  it("records and clears decisions without changing the previous list", () => {
+    const hidden = moderate({}, 3n, "hidden", "  Impersonates a charity  ");
+
+    expect(hidden["3"]).toMatchObject({
+      campaignId: "3",
+      action: "hidden",
+      reason: "Impersonates a charity",
+    });
+    expect(isHidden(hidden, 3n)).toBe(true);
+    expect(isHidden(moderate(hidden, 3n, "flagged"), 3n)).toBe(false);
+
+    const cleared = moderate(hidden, 3n, null);
+    expect(cleared).toEqual({});
+    expect(hidden["3"]).toBeDefined();
+  });
+});
+
+describe("parseModerationList", () => {
+  it("accepts exported arrays and stored maps, dropping malformed entries", () => {
+    const entries = [
+      { campaignId: "1", action: "flagged", reason: "Spam", updatedAt: 5 },
+      { campaignId: "x", action: "hidden" },
+      { campaignId: "2", action: "deleted" },
+      { campaignId: "4", action: "hidden", reason: 7 },
+    ];
+
+    const list = parseModerationList(entries);
+    expect(Object.keys(list)).toEqual(["1", "4"]);
+    expect(list["4"]).toEqual({ campaignId: "4", action: "hidden", reason: "", updatedAt: 0 });
+    expect(parseModerationList(list)).toEqual(list);
+    expect(parseModerationList("nope")).toEqual({});
+  });
+});
+
+describe("storage", () => {
+  it("keeps a separate list per network", () => {
+    const list = moderate({}, 1n, "hidden");
+    saveModeration(NETWORKS.baseSepolia, list);
+
+    expect(loadModeration(NETWORKS.baseSepolia)).toEqual(list);
+    expect(
+      loadModeration({ ...NETWORKS.base, fundingAddress: NETWORKS.baseSepolia.fundingAddress })
+    ).toEqual({});
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Moderation Module
+ *
+ * This module keeps the platform owner's moderation decisions, which only
+ * affect how this front-end displays campaigns (the contract is not changed):
+ * - Hiding abusive campaigns from the list and their detail page
+ * - Flagging campaigns so donors see a warning
+ * - Persisting the list per network and contract in local storage
+ * - Importing and exporting the list as JSON
+ *
+ * @module moderation
+ */
+
+import type { DeployedNetwork } from "./networks";
+
+export type ModerationAction = "hidden" | "flagged";
+
+export const MODERATION_LABELS: Record<ModerationAction, string> = {
+  hidden: "Hidden",
+  flagged: "Flagged",
+};
+
+/**
+ * A moderation decision for one campaign
+ */
+export interface ModerationEntry {
+  /** Campaign ID as a decimal string */
+  campaignId: string;
+  action: ModerationAction;
+  reason: string;
+  /** Milliseconds since the epoch */
+  updatedAt: number;
+}
+
+/**
+ * Moderation decisions keyed by campaign ID
+ */
+export type ModerationList = Record<string, ModerationEntry>;
+
+const MAX_REASON_LENGTH = 200;
+
+const storageKey = (network: DeployedNetwork) =>
+  `poolr:moderation:${network.chain.id}:${network.fundingAddress.toLowerCase()}`;
+
+/**
+ * Validates a moderation list, e.g. one read from storage or imported
+ *
+ * @param raw - The parsed JSON
+ * @returns The entries that are well-formed; others are dropped
+ */
+export const parseModerationList = (raw: unknown): ModerationList => {
+  const entries = Array.isArray(raw)
+    ? raw
+    : typeof raw === "object" && raw !== null
+      ? Object.values(raw)
+      : [];
+  const list: ModerationList = {};
+
+  for (const entry of entries) {
+    if (
+      typeof entry?.campaignId === "string" &&
+      /^\d+$/.test(entry.campaignId) &&
+      (entry.action === "hidden" || entry.action === "flagged")
+    ) {
+      list[entry.campaignId] = {
+        campaignId: entry.campaignId,
+        action: entry.action,
+        reason: typeof entry.reason === "string" ? entry.reason.slice(0, MAX_REASON_LENGTH) : "",
+        updatedAt: typeof entry.updatedAt === "number" ? entry.updatedAt : 0,
+      };
+    }
+  }
+
+  return list;
+};
+
+/**
+ * Loads the moderation list for a network's Funding contract
+ *
+ * @param network - The active network
+ * @returns The stored list, or an empty list if nothing is stored
+ */
+export const loadModeration = (network: DeployedNetwork): ModerationList => {
+  try {
+    const raw = localStorage.getItem(storageKey(network));
+    return raw ? parseModerationList(JSON.parse(raw)) : {};
+  } catch (error) {
+    console.log(`Error loading moderation list: ${error}`);
+    return {};
+  }
+};
+
+/**
+ * Saves the moderation list for a network's Funding contract
+ *
+ * @param network - The active network
+ * @param list - The list to store
+ */
+export const saveModeration = (network: DeployedNetwork, list: ModerationList): void => {
+  try {
+    localStorage.setItem(storageKey(network), JSON.stringify(list));
+  } catch (error) {
+    console.log(`Error saving moderation list: ${error}`);
+  }
+};
+
+/**
+ * Records or clears the decision for a campaign
+ *
+ * @param list - The current list
+ * @param campaignId - The campaign
+ * @param action - The decision, or null to clear it
+ * @param reason - Why, shown to the owner and, for flags, to donors
+ * @returns A new list
+ *
+ * @example
+ * const next = moderate(list, 7n, 'hidden', 'Impersonates a charity');
+ */
+export const moderate = (
+  list: ModerationList,
+  campaignId: bigint,
+  action: ModerationAction | null,
+  reason = ""
+): ModerationList => {
+  const key = campaignId.toString();
+  const next = { ...list };
+
+  if (action) {
+    next[key] = {
+      campaignId: key,
+      action,
+      reason: reason.trim().slice(0, MAX_REASON_LENGTH),
+      updatedAt: Date.now(),
+    };
+  } else {
+    delete next[key];
+  }
+  return next;
+};
+
+/**
+ * Returns true if the campaign is hidden
+ */
+export const isHidden = (list: ModerationList, campaignId: bigint): boolean =>
+  list[campaignId.toString()]?.action === "hidden";
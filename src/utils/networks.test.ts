@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { CONTRACT_ADDRESS } from "./Funding";
+
+const ADDRESS = "0x00000000000000000000000000000000000000a1";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.resetModules();
+});
+
+describe("NETWORKS", () => {
+  it("only lets networks with a valid Funding address be selected", async () => {
+    vi.stubEnv("VITE_BASE_FUNDING_CONTRACT_ADDRESS", "0x1234");
+    vi.stubEnv("VITE_ANVIL_FUNDING_CONTRACT_ADDRESS", ADDRESS);
+    const { NETWORKS, isNetworkId } = await import("./networks");
+
+    expect(NETWORKS.base.fundingAddress).toBeNull();
+    expect(NETWORKS.anvil.fundingAddress).toBe(ADDRESS);
+    expect(["base", "baseSepolia", "anvil"].filter(isNetworkId)).toEqual([
+      "baseSepolia",
+      "anvil",
+    ]);
+  });
+
+  it("does not fall back to the Base Sepolia deployment on other networks", async () => {
+    vi.stubEnv("VITE_ANVIL_FUNDING_CONTRACT_ADDRESS", "");
+    vi.stubEnv("VITE_DEFAULT_NETWORK", "anvil");
+    const { DEFAULT_NETWORK_ID, NETWORKS, getNetwork } = await import("./networks");
+
+    expect(NETWORKS.anvil.fundingAddress).toBeNull();
+    expect(NETWORKS.baseSepolia.fundingAddress).toBe(CONTRACT_ADDRESS);
+    expect(DEFAULT_NETWORK_ID).toBe("baseSepolia");
+    expect(getNetwork("anvil").id).toBe("baseSepolia");
+  });
+});
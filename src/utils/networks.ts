@@ -0,0 +1,162 @@
+/**
+ * Network Registry Module
+ *
+ * This module describes every network the app can run against. Each entry
+ * bundles the chain definition with the endpoints and contract addresses the
+ * app needs on that chain:
+ * - RPC URLs used for reads, in order of preference
+ * - Paymaster URL used to sponsor writes
+ * - Funding contract address and deploy block
+ * - Optional donation token and the block explorer URL
+ *
+ * Only networks with a valid Funding contract address can be selected.
+ *
+ * @module networks
+ */
+
+import { defineChain, isAddress, type Address, type Chain } from "viem";
+import { base, baseSepolia, foundry } from "viem/chains";
+import { CONTRACT_ADDRESS } from "./Funding";
+
+export type NetworkId = "base" | "baseSepolia" | "anvil";
+
+/**
+ * Everything the app needs to know about a network
+ */
+export interface NetworkConfig {
+  id: NetworkId;
+  name: string;
+  chain: Chain;
+  /** Ranked RPC endpoints; the chain's public RPC is always the last resort */
+  rpcUrls: string[];
+  paymasterUrl: string;
+  /** Funding contract address, or null if none is configured */
+  fundingAddress: Address | null;
+  /** Block the Funding contract was deployed in, or 0 to have the indexer find it */
+  fundingDeployBlock: bigint;
+  /** Token donations are paid in, or empty for counter-only donations */
+  donationTokenAddress: string;
+  explorerUrl: string;
+}
+
+/**
+ * A network the Funding contract is deployed on
+ */
+export type DeployedNetwork = NetworkConfig & { fundingAddress: Address };
+
+const env = import.meta.env;
+
+/**
+ * Parses a comma-separated list of RPC URLs, most preferred first, and
+ * appends the chain's public RPC endpoints
+ */
+const rankRpcUrls = (value: string | undefined, chain: Chain): string[] => [
+  ...new Set([
+    ...(value ?? "")
+      .split(",")
+      .map((url) => url.trim())
+      .filter(Boolean),
+    ...chain.rpcUrls.default.http,
+  ]),
+];
+
+/**
+ * Parses a deploy block, treating anything but a block number as unset
+ */
+const parseDeployBlock = (value: string | undefined): bigint =>
+  /^\d+$/.test(value ?? "") ? BigInt(value!) : 0n;
+
+/**
+ * Parses a contract address, treating anything but a valid address as unset
+ */
+const parseAddress = (value: string | undefined): Address | null =>
+  value && isAddress(value) ? value : null;
+
+/**
+ * Local Anvil node, typically forking Base Sepolia. Multicall3 is deployed
+ * at its canonical address on the forked chain.
+ */
+const anvil = defineChain({
+  ...foundry,
+  contracts: {
+    multicall3: { address: "0xcA11bde05977b3631167028862bE2a173976CA11" },
+  },
+});
+
+export const NETWORKS = {
+  base: {
+    id: "base",
+    name: "Base",
+    chain: base,
+    rpcUrls: rankRpcUrls(env.VITE_BASE_RPC, base),
+    paymasterUrl: env.VITE_BASE_PAYMASTER_SERVICE_URL ?? "",
+    fundingAddress: parseAddress(env.VITE_BASE_FUNDING_CONTRACT_ADDRESS),
+    fundingDeployBlock: parseDeployBlock(env.VITE_BASE_FUNDING_DEPLOY_BLOCK),
+    donationTokenAddress: env.VITE_BASE_DONATION_TOKEN_ADDRESS ?? "",
+    explorerUrl: base.blockExplorers.default.url,
+  },
+  baseSepolia: {
+    id: "baseSepolia",
+    name: "Base Sepolia",
+    chain: baseSepolia,
+    rpcUrls: rankRpcUrls(env.VITE_BASE_SEPOLIA_RPC, baseSepolia),
+    paymasterUrl: env.VITE_PAYMASTER_SERVICE_URL ?? "",
+    // The bundled deployment lives on Base Sepolia, so it is always available
+    fundingAddress: parseAddress(env.VITE_FUNDING_CONTRACT_ADDRESS) ?? CONTRACT_ADDRESS,
+    fundingDeployBlock: parseDeployBlock(env.VITE_FUNDING_DEPLOY_BLOCK),
+    donationTokenAddress: env.VITE_DONATION_TOKEN_ADDRESS ?? "",
+    explorerUrl: baseSepolia.blockExplorers.default.url,
+  },
+  anvil: {
+    id: "anvil",
+    name: "Anvil (local)",
+    chain: anvil,
+    rpcUrls: rankRpcUrls(env.VITE_ANVIL_RPC, anvil),
+    paymasterUrl: env.VITE_ANVIL_PAYMASTER_SERVICE_URL ?? "",
+    fundingAddress: parseAddress(env.VITE_ANVIL_FUNDING_CONTRACT_ADDRESS),
+    fundingDeployBlock: parseDeployBlock(env.VITE_ANVIL_FUNDING_DEPLOY_BLOCK),
+    donationTokenAddress: env.VITE_ANVIL_DONATION_TOKEN_ADDRESS ?? "",
+    explorerUrl: env.VITE_ANVIL_EXPLORER_URL ?? "",
+  },
+} satisfies Record<NetworkId, NetworkConfig>;
+
+/**
+ * Returns true if a Funding contract is configured for the network
+ */
+export const isDeployed = (network: NetworkConfig): network is DeployedNetwork =>
+  network.fundingAddress !== null;
+
+/**
+ * Returns true if the value names a network that can be selected
+ */
+export const isNetworkId = (value: unknown): value is NetworkId =>
+  typeof value === "string" &&
+  value in NETWORKS &&
+  isDeployed(NETWORKS[value as NetworkId]);
+
+/**
+ * Network used when nothing else has been selected
+ */
+export const DEFAULT_NETWORK_ID: NetworkId = isNetworkId(env.VITE_DEFAULT_NETWORK)
+  ? env.VITE_DEFAULT_NETWORK
+  : "baseSepolia";
+
+/**
+ * Returns a network that can be selected
+ *
+ * @param id - The network ID
+ * @returns The network, or Base Sepolia if no Funding contract is configured for it
+ */
+export const getNetwork = (id: NetworkId): DeployedNetwork => {
+  const network: NetworkConfig = NETWORKS[id];
+  return isDeployed(network) ? network : NETWORKS.baseSepolia;
+};
+
+/**
+ * Finds the network for a chain ID
+ *
+ * @param chainId - The numeric chain ID
+ * @returns The matching network, or undefined if it is not in the registry
+ */
+export const getNetworkByChainId = (chainId: number): NetworkConfig | undefined =>
+  Object.values(NETWORKS).find((network) => network.chain.id === chainId);
@@ -0,0 +1,321 @@
+import { describe, expect, it, vi } from "vitest";
+import { WaitForTransactionReceiptTimeoutError } from "viem";
+import { createMockProvider, MOCK_ACCOUNT, rpcError } from "../test/mockProvider";
+import { FUNDING_ABI, CONTRACT_ADDRESS } from "./Funding";
+import {
+  createClient,
+  createSendLock,
+  encodeContractCall,
+  estimateCallsGas,
+  executeTransaction,
+  isConfirmationTimeout,
+  sendCalls,
+  waitForBatchConfirmation,
+  type GasEstimate,
+  type TransactionEvent,
+} from "./paymentService";
+
+const PAYMASTER_URL = "https://paymaster.example";
+const FAST_BACKOFF = { initialDelayMs: 1, maxDelayMs: 1, maxAttempts: 5 };
+const call = encodeContractCall(CONTRACT_ADDRESS, FUNDING_ABI, "donate", [1n, 100n]);
+const create = encodeContractCall(CONTRACT_ADDRESS, FUNDING_ABI, "createDonation", [
+  100n,
+  "Library roof",
+]);
+
+/**
+ * Public client that estimates 50,000 gas per call at 2 wei per gas and
+ * simulates batches unless `simulates` is false
+ */
+const createNode = ({ simulates = true } = {}) => ({
+  simulateCalls: vi.fn(async ({ calls }: { calls: unknown[] }) => {
+    if (!simulates) throw new Error("eth_simulateV1 is not supported");
+    return { results: calls.map((_call, index) => ({ gasUsed: 40_000n + BigInt(index) })) };
+  }),
+  estimateGas: vi.fn(async () => 50_000n),
+  estimateFeesPerGas: vi.fn(async () => ({ maxFeePerGas: 2n })),
+  waitForTransactionReceipt: vi.fn(async ({ hash }: { hash: string }) => ({
+    transactionHash: hash,
+    blockHash: hash,
+    blockNumber: 1n,
+    gasUsed: 50_000n,
+    status: "success",
+    logs: [],
+  })),
+});
+
+const asClient = (node: ReturnType<typeof createNode>) => node as unknown as ReturnType<typeof createClient>;
+
+describe("sendCalls", () => {
+  it("sends an atomic batch with the paymaster capability", async () => {
+    const provider = createMockProvider();
+
+    const batchId = await sendCalls(provider, MOCK_ACCOUNT, [call], PAYMASTER_URL, 84532);
+
+    expect(provider.batches.get(batchId)).toEqual({
+      version: "2.0.0",
+      chainId: "0x14a34",
+      from: MOCK_ACCOUNT,
+      atomicRequired: true,
+      calls: [{ to: CONTRACT_ADDRESS, data: call.data, value: "0x0" }],
+      capabilities: { paymasterService: { url: PAYMASTER_URL } },
+    });
+  });
+
+  it("accepts wallets that return { id }", async () => {
+    const provider = createMockProvider({ sendCallsReturnsObject: true });
+
+    const batchId = await sendCalls(provider, MOCK_ACCOUNT, [call], PAYMASTER_URL);
+
+    expect(provider.batches.has(batchId)).toBe(true);
+  });
+
+  it("requires a paymaster URL", async () => {
+    await expect(
+      sendCalls(createMockProvider(), MOCK_ACCOUNT, [call], "")
+    ).rejects.toThrow("Paymaster URL is required!");
+  });
+});
+
+describe("waitForBatchConfirmation", () => {
+  it("polls until the batch is confirmed", async () => {
+    const provider = createMockProvider({
+      callsStatuses: [{ status: 100 }, { status: "PENDING" }, { status: 200 }],
+    });
+    const batchId = await sendCalls(provider, MOCK_ACCOUNT, [call], PAYMASTER_URL);
+    const attempts: number[] = [];
+
+    const status = await waitForBatchConfirmation(provider, batchId, {
+      backoff: FAST_BACKOFF,
+      onPending: (attempt) => attempts.push(attempt),
+    });
+
+    expect(status.status).toBe(200);
+    expect(attempts).toEqual([1, 2]);
+  });
+
+  it("throws when the batch fails", async () => {
+    const provider = createMockProvider({
+      callsStatuses: [{ status: "FAILED", error: "execution reverted" }],
+    });
+    const batchId = await sendCalls(provider, MOCK_ACCOUNT, [call], PAYMASTER_URL);
+
+    await expect(
+      waitForBatchConfirmation(provider, batchId, { backoff: FAST_BACKOFF })
+    ).rejects.toThrow("Transaction failed: execution reverted");
+  });
+
+  it("times out after the last attempt", async () => {
+    const provider = createMockProvider({ callsStatuses: [{ status: "PENDING" }] });
+    const batchId = await sendCalls(provider, MOCK_ACCOUNT, [call], PAYMASTER_URL);
+
+    await expect(
+      waitForBatchConfirmation(provider, batchId, { backoff: FAST_BACKOFF })
+    ).rejects.toSatisfy(isConfirmationTimeout);
+    expect(provider.requestsFor("wallet_getCallsStatus")).toHaveLength(5);
+  });
+
+  it("stops polling when aborted", async () => {
+    const provider = createMockProvider({ callsStatuses: [{ status: "PENDING" }] });
+    const batchId = await sendCalls(provider, MOCK_ACCOUNT, [call], PAYMASTER_URL);
+    const controller = new AbortController();
+
+    const waiting = waitForBatchConfirmation(provider, batchId, {
+      backoff: { initialDelayMs: 1000 },
+      signal: controller.signal,
+    });
+    controller.abort(new Error("Account changed"));
+
+    await expect(waiting).rejects.toThrow("Account changed");
+  });
+});
+
+describe("estimateCallsGas", () => {
+  it("estimates later calls on the state earlier ones leave behind", async () => {
+    const node = createNode();
+
+    const estimate = await estimateCallsGas(asClient(node), MOCK_ACCOUNT, [create, call]);
+
+    expect(estimate).toEqual({
+      gas: 80_001n,
+      maxFeePerGas: 2n,
+      cost: 160_002n,
+      transactions: 2,
+      estimated: 2,
+    });
+    expect(node.estimateGas).not.toHaveBeenCalled();
+  });
+
+  it("only estimates the first call when the RPC cannot simulate a batch", async () => {
+    const node = createNode({ simulates: false });
+
+    const estimate = await estimateCallsGas(asClient(node), MOCK_ACCOUNT, [create, call]);
+
+    expect(estimate).toMatchObject({ gas: 50_000n, transactions: 2, estimated: 1 });
+    expect(node.estimateGas).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("executeTransaction", () => {
+  it("emits the sponsored lifecycle in order", async () => {
+    const provider = createMockProvider({
+      callsStatuses: [{ status: "PENDING" }, { status: "CONFIRMED" }],
+    });
+    const stages: TransactionEvent["stage"][] = [];
+
+    const { batchId, status } = await executeTransaction({
+      provider,
+      from: MOCK_ACCOUNT,
+      calls: [call],
+      paymasterUrl: PAYMASTER_URL,
+      backoff: FAST_BACKOFF,
+      onEvent: (event) => stages.push(event.stage),
+    });
+
+    expect(provider.batches.has(batchId)).toBe(true);
+    expect(status.status).toBe("CONFIRMED");
+    expect(stages).toEqual(["signing", "submitted", "pending", "confirmed"]);
+  });
+
+  it("emits failed when the wallet rejects the batch", async () => {
+    const provider = createMockProvider();
+    provider.failNext("wallet_sendCalls", rpcError(4001, "User rejected"));
+    const events: TransactionEvent[] = [];
+
+    await expect(
+      executeTransaction({
+        provider,
+        from: MOCK_ACCOUNT,
+        calls: [call],
+        paymasterUrl: PAYMASTER_URL,
+        onEvent: (event) => events.push(event),
+      })
+    ).rejects.toThrow("User rejected");
+    expect(events.map((event) => event.stage)).toEqual(["signing", "failed"]);
+  });
+
+  it("confirms the gas of each call the first estimate did not cover", async () => {
+    const provider = createMockProvider();
+    const node = createNode({ simulates: false });
+    const estimates: GasEstimate[] = [];
+
+    await executeTransaction({
+      provider,
+      from: MOCK_ACCOUNT,
+      calls: [create, call],
+      mode: "sendTransaction",
+      client: asClient(node),
+      onConfirmGas: async (estimate) => {
+        estimates.push(estimate);
+        // The second call is only estimated once the first is mined
+        expect(provider.transactions.size).toBe(estimates.length - 1);
+        return true;
+      },
+    });
+
+    expect(estimates.map(({ transactions, estimated }) => [transactions, estimated])).toEqual([
+      [2, 1],
+      [1, 1],
+    ]);
+    expect(provider.transactions.size).toBe(2);
+  });
+
+  it("gives up on a user-paid receipt as a confirmation timeout", async () => {
+    const provider = createMockProvider();
+    const node = createNode();
+    node.waitForTransactionReceipt.mockImplementationOnce(async ({ hash }) => {
+      throw new WaitForTransactionReceiptTimeoutError({ hash: hash as `0x${string}` });
+    });
+    const events: TransactionEvent[] = [];
+
+    await expect(
+      executeTransaction({
+        provider,
+        from: MOCK_ACCOUNT,
+        calls: [call],
+        mode: "sendTransaction",
+        client: asClient(node),
+        backoff: FAST_BACKOFF,
+        onEvent: (event) => events.push(event),
+      })
+    ).rejects.toSatisfy(isConfirmationTimeout);
+    expect(node.waitForTransactionReceipt).toHaveBeenCalledWith(
+      expect.objectContaining({ timeout: 5 })
+    );
+    expect(events.at(-1)).toMatchObject({ stage: "failed", batchId: expect.any(String) });
+  });
+
+  it("stops waiting for a user-paid receipt when aborted", async () => {
+    const provider = createMockProvider();
+    const node = createNode();
+    node.waitForTransactionReceipt.mockImplementationOnce(() => new Promise(() => {}));
+    const controller = new AbortController();
+
+    const sent = executeTransaction({
+      provider,
+      from: MOCK_ACCOUNT,
+      calls: [call],
+      mode: "sendTransaction",
+      client: asClient(node),
+      signal: controller.signal,
+      onEvent: (event) => {
+        if (event.stage === "pending") controller.abort(new Error("Stopped"));
+      },
+    });
+
+    await expect(sent).rejects.toThrow("Stopped");
+  });
+
+  it("queues a second batch until the first one is signed", async () => {
+    const provider = createMockProvider();
+    const lock = createSendLock();
+    const order: string[] = [];
+    const send = (name: string) =>
+      executeTransaction({
+        provider,
+        from: MOCK_ACCOUNT,
+        calls: [call],
+        paymasterUrl: PAYMASTER_URL,
+        backoff: FAST_BACKOFF,
+        lock,
+        onEvent: (event) => order.push(`${name}:${event.stage}`),
+      });
+
+    await Promise.all([send("first"), send("second")]);
+
+    expect(order.indexOf("second:queued")).toBeLessThan(order.indexOf("first:submitted"));
+    expect(order.indexOf("first:submitted")).toBeLessThan(
+      order.indexOf("second:signing")
+    );
+    expect(lock.isBusy()).toBe(false);
+  });
+
+  it("prepares calls only once earlier prepared batches are confirmed", async () => {
+    const provider = createMockProvider({
+      callsStatuses: [{ status: "PENDING" }, { status: "CONFIRMED" }],
+    });
+    const lock = createSendLock();
+    const order: string[] = [];
+    const send = (name: string) =>
+      executeTransaction({
+        provider,
+        from: MOCK_ACCOUNT,
+        calls: [create, call],
+        paymasterUrl: PAYMASTER_URL,
+        backoff: FAST_BACKOFF,
+        lock,
+        prepareCalls: async (calls) => {
+          order.push(`${name}:prepare`);
+          return calls.slice(1);
+        },
+        onEvent: (event) => order.push(`${name}:${event.stage}`),
+      });
+
+    await Promise.all([send("first"), send("second")]);
+
+    expect(order.indexOf("first:confirmed")).toBeLessThan(order.indexOf("second:prepare"));
+    expect([...provider.batches.values()].map((batch) => batch.calls.length)).toEqual([
+      1, 1,
+    ]);
+  });
+});
@@ -2,10 +2,12 @@
  * Payment Service Module
  *
  * This module handles all blockchain transaction operations including:
- * - Creating blockchain clients
+ * - Creating blockchain clients, shared per network
+ * - Encoding contract calls for any function on a given ABI
  * - Sending gasless transactions via Paymaster
- * - Monitoring transaction status
- * - Waiting for transaction confirmations
+ * - Falling back to user-paid eth_sendTransaction with a gas estimate
+ * - Monitoring transaction status with cancellable backoff polling
+ * - Running the full send/confirm pipeline with lifecycle events
  *
  * @module paymentService
  */
@@ -13,119 +15,380 @@
 import { baseSepolia } from "viem/chains";
 import {
   createPublicClient,
-  http,
   numberToHex,
   encodeFunctionData,
+  WaitForTransactionReceiptTimeoutError,
+  type Abi,
+  type Address,
+  type EncodeFunctionDataParameters,
+  type Hex,
 } from "viem";
+import type { NetworkConfig } from "./networks";
+import { createRpcTransport } from "./rpcTransport";
+import type {
+  CallsReceipt,
+  CallsStatus,
+  RequestProvider,
+} from "./walletRpc";
+
+export type { CallsReceipt, CallsStatus, RequestProvider };
 
 /**
- * ABI definition for the Rewards smart contract
- * Contains the claimReward function signature
- * @constant {Array<Object>}
+ * A single call inside a wallet_sendCalls batch
  */
-const REWARDS_ABI = [
-  {
-    inputs: [],
-    name: "claimReward",
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-];
+export interface TransactionCall {
+  to: `0x${string}`;
+  data?: `0x${string}`;
+  value?: bigint;
+}
+
+/**
+ * Backoff configuration for confirmation polling
+ */
+export interface BackoffOptions {
+  /** Delay before the second status check (default: 1000) */
+  initialDelayMs?: number;
+  /** Upper bound for a single delay (default: 8000) */
+  maxDelayMs?: number;
+  /** Factor applied to the delay after every attempt (default: 1.5) */
+  multiplier?: number;
+  /** Maximum number of status checks before timing out (default: 60) */
+  maxAttempts?: number;
+}
+
+/**
+ * How a transaction is sent: as a sponsored EIP-5792 batch, or as one
+ * user-paid eth_sendTransaction per call
+ */
+export type TransactionMode = "sponsored" | "sendTransaction";
+
+/**
+ * Gas estimate shown to the user before a user-paid transaction
+ */
+export interface GasEstimate {
+  /** Total gas across all calls */
+  gas: bigint;
+  maxFeePerGas: bigint;
+  /** Upper bound of the fee in wei */
+  cost: bigint;
+  /** Number of transactions the user will be asked to sign */
+  transactions: number;
+  /**
+   * Leading transactions covered by `gas` and `cost`. Fewer than
+   * `transactions` when later calls can only be estimated once the calls
+   * before them are mined.
+   */
+  estimated: number;
+}
+
+/**
+ * Lifecycle events emitted by {@link executeTransaction}
+ */
+export type TransactionEvent =
+  | { stage: "queued" }
+  | { stage: "signing"; calls: TransactionCall[] }
+  | { stage: "submitted"; batchId: string }
+  | { stage: "pending"; batchId: string; attempt: number }
+  | { stage: "confirmed"; batchId: string; status: CallsStatus }
+  | { stage: "failed"; batchId?: string; error: Error };
+
+export type TransactionStage = TransactionEvent["stage"];
+
+/**
+ * Options accepted by {@link executeTransaction}
+ */
+export interface TransactionRequest {
+  provider: RequestProvider;
+  from: Address;
+  calls: TransactionCall[];
+  chainId?: number;
+  paymasterUrl?: string;
+  signal?: AbortSignal;
+  backoff?: BackoffOptions;
+  onEvent?: (event: TransactionEvent) => void;
+  /** Defaults to "sponsored" */
+  mode?: TransactionMode;
+  /** Public client used for gas estimates and receipts in sendTransaction mode */
+  client?: PublicClient;
+  /** Asked to approve the gas estimate in sendTransaction mode; false cancels */
+  onConfirmGas?: (estimate: GasEstimate) => Promise<boolean>;
+  /** Serializes the steps the wallet can only handle one at a time */
+  lock?: SendLock;
+  /**
+   * Adjusts the calls once the lock is held, for calls that depend on state
+   * earlier writes change, e.g. dropping an approval the allowance already
+   * covers. The lock is then held until the calls are confirmed.
+   */
+  prepareCalls?: (calls: TransactionCall[]) => Promise<TransactionCall[]>;
+}
+
+/**
+ * Queue that runs wallet interactions one at a time
+ */
+export interface SendLock {
+  run: <T>(task: () => Promise<T>) => Promise<T>;
+  /** Whether a task is running or waiting */
+  isBusy: () => boolean;
+}
+
+const DEFAULT_BACKOFF: Required<BackoffOptions> = {
+  initialDelayMs: 1000,
+  maxDelayMs: 8000,
+  multiplier: 1.5,
+  maxAttempts: 60,
+};
 
 /**
- * Creates a Viem public client for interacting with the Base Sepolia blockchain
+ * Creates a Viem public client for interacting with a network from the registry
  *
- * @param rpcUrl - The RPC endpoint URL for Base Sepolia
- * @returns Viem public client instance configured for Base Sepolia
+ * Requests go through the network's ranked RPC endpoints with retries and
+ * failover (see createRpcTransport). Requests issued in the same tick are
+ * sent to an endpoint as a single JSON-RPC batch.
+ *
+ * @param network - The network to connect to
+ * @returns Viem public client instance configured for the network's chain and RPC URL
  *
  * @example
- * const client = createClient('https://base-sepolia.g.alchemy.com/v2/YOUR_KEY');
+ * const client = createClient(NETWORKS.baseSepolia);
  */
-export const createClient = (rpcUrl: string) => {
+export const createClient = (network: NetworkConfig) => {
   return createPublicClient({
-    chain: baseSepolia,
-    transport: http(rpcUrl),
+    chain: network.chain,
+    transport: createRpcTransport(network),
   });
 };
 
+type PublicClient = ReturnType<typeof createClient>;
+
+/**
+ * One public client per network, shared by every hook
+ */
+const publicClients = new Map<NetworkConfig["id"], PublicClient>();
+
+/**
+ * Returns the shared public client for a network, creating it on first use
+ *
+ * Sharing the client lets concurrent reads from different components be
+ * batched into the same JSON-RPC request.
+ *
+ * @param network - The network to connect to
+ * @returns The network's public client
+ */
+export const getPublicClient = (network: NetworkConfig): PublicClient => {
+  let client = publicClients.get(network.id);
+  if (!client) {
+    client = createClient(network);
+    publicClients.set(network.id, client);
+  }
+  return client;
+};
+
 /**
- * Sends a gasless transaction to claim rewards using Coinbase Paymaster
+ * Encodes a call to any function on the given ABI
+ *
+ * @param to - The contract address
+ * @param abi - The contract ABI
+ * @param functionName - Name of the function to call
+ * @param args - Function arguments
+ * @returns A call ready to be included in a batch
+ *
+ * @example
+ * const call = encodeContractCall(CONTRACT_ADDRESS, FUNDING_ABI, 'donate', [1n, amount]);
+ */
+export const encodeContractCall = (
+  to: Address,
+  abi: Abi,
+  functionName: string,
+  args: readonly unknown[] = []
+): TransactionCall => {
+  const data = encodeFunctionData({
+    abi,
+    functionName,
+    args,
+  } as EncodeFunctionDataParameters);
+
+  return { to, data };
+};
+
+/**
+ * Creates a lock that runs tasks in submission order, one at a time
+ *
+ * Share one lock per wallet so that concurrent writes do not open
+ * overlapping signature prompts or race each other's nonces.
  *
- * This function uses EIP-5792's wallet_sendCalls method to execute a transaction
- * with paymaster capabilities, allowing the user to claim rewards without paying gas fees.
+ * @returns A new, idle lock
+ *
+ * @example
+ * const lock = createSendLock();
+ * await Promise.all([
+ *   executeTransaction({ ...first, lock }),
+ *   executeTransaction({ ...second, lock }),
+ * ]);
+ */
+export const createSendLock = (): SendLock => {
+  let tail: Promise<unknown> = Promise.resolve();
+  let waiting = 0;
+
+  return {
+    run: <T>(task: () => Promise<T>) => {
+      waiting += 1;
+      const result = tail.then(task).finally(() => {
+        waiting -= 1;
+      });
+      tail = result.catch(() => undefined);
+      return result;
+    },
+    isBusy: () => waiting > 0,
+  };
+};
+
+/**
+ * Throws the abort reason if the signal has been aborted
+ */
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw signal.reason instanceof Error
+      ? signal.reason
+      : new DOMException("Transaction aborted", "AbortError");
+  }
+};
+
+/**
+ * Waits for the given delay, rejecting early if the signal is aborted
+ */
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    throwIfAborted(signal);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(
+        signal?.reason instanceof Error
+          ? signal.reason
+          : new DOMException("Transaction aborted", "AbortError")
+      );
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Total time polling with the given backoff waits before it gives up
+ */
+const backoffDuration = ({
+  initialDelayMs,
+  maxDelayMs,
+  multiplier,
+  maxAttempts,
+}: Required<BackoffOptions>): number => {
+  let total = 0;
+  let intervalMs = initialDelayMs;
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    total += intervalMs;
+    intervalMs = Math.min(intervalMs * multiplier, maxDelayMs);
+  }
+  return total;
+};
+
+/**
+ * Returns true if the status object represents a confirmed batch
+ */
+export const isCallsConfirmed = (status: CallsStatus) =>
+  status.status === "CONFIRMED" || status.status === 200;
+
+/**
+ * Returns true if the status object represents a failed batch
+ */
+export const isCallsFailed = (status: CallsStatus) =>
+  status.status === "FAILED" ||
+  (typeof status.status === "number" && status.status >= 400);
+
+const CONFIRMATION_TIMEOUT_MESSAGE = "Transaction confirmation timeout";
+
+/**
+ * Returns true if the error only means no confirmation was seen in time; the
+ * transaction may still be mined, so it is worth polling for again
+ */
+export const isConfirmationTimeout = (error: unknown): boolean =>
+  error instanceof Error && error.message === CONFIRMATION_TIMEOUT_MESSAGE;
+
+/**
+ * Sends a batch of calls using Coinbase Paymaster
+ *
+ * This function uses EIP-5792's wallet_sendCalls method to execute the calls
+ * with paymaster capabilities, allowing the user to transact without paying gas fees.
+ * The batch requires atomic execution, so a wallet that cannot run the calls
+ * all-or-nothing refuses it instead of landing an approval without its donation.
  *
  * @param provider - The wallet provider instance (from Base Account SDK)
  * @param fromAddress - The user's wallet address
- * @param contractAddress - The rewards contract address
+ * @param calls - The calls to include in the batch
  * @param paymasterUrl - The Coinbase Paymaster service URL
+ * @param chainId - The chain to send the batch on (default: Base Sepolia)
  * @returns The batch ID for tracking the transaction
- * @throws If provider is unavailable or paymaster URL is missing
+ * @throws If provider is unavailable, paymaster URL is missing or no batch ID is returned
  *
  * @example
- * const batchId = await sendTransaction(
+ * const batchId = await sendCalls(
  *   provider,
  *   '0x123...',
- *   '0xABC...',
+ *   [encodeContractCall(CONTRACT_ADDRESS, FUNDING_ABI, 'donate', [1n, amount])],
  *   'https://api.developer.coinbase.com/rpc/v1/base-sepolia/KEY'
  * );
  */
-export const sendTransaction = async (
-  provider: { request: (args: any) => Promise<any> },
-  fromAddress: string,
-  contractAddress: string,
-  paymasterUrl: string
-) => {
-  // Encode the claimReward function call
-  const data = encodeFunctionData({
-    abi: REWARDS_ABI,
-    functionName: "claimReward",
-  });
-
-  try {
-    // Validate provider availability
-    if (!provider || !provider.request) {
-      throw new Error(
-        "No provider available. Please connect to a base account"
-      );
-    }
+export const sendCalls = async (
+  provider: RequestProvider,
+  fromAddress: Address,
+  calls: TransactionCall[],
+  paymasterUrl: string,
+  chainId: number = baseSepolia.id
+): Promise<string> => {
+  // Validate provider availability
+  if (!provider || !provider.request) {
+    throw new Error("No provider available. Please connect to a base account");
+  }
 
-    // Validate paymaster URL
-    if (!paymasterUrl) {
-      throw new Error("Paymaster URL is required!");
-    }
+  // Validate paymaster URL
+  if (!paymasterUrl) {
+    throw new Error("Paymaster URL is required!");
+  }
 
-    // Prepare the transaction call
-    const calls = [
+  // Send the batch using EIP-5792 wallet_sendCalls
+  const result = await provider.request({
+    method: "wallet_sendCalls",
+    params: [
       {
-        to: contractAddress, // Target contract address
-        value: "0x0", // No ETH value sent
-        data: data, // Encoded function call
-      },
-    ];
-
-    // Send the transaction using EIP-5792 wallet_sendCalls
-    const result = await provider.request({
-      method: "wallet_sendCalls",
-      params: [
-        {
-          version: "1.0",
-          chainId: numberToHex(baseSepolia.id),
-          from: fromAddress,
-          calls: calls,
-          capabilities: {
-            paymasterService: {
-              url: paymasterUrl, // Paymaster sponsors gas fees
-            },
+        version: "2.0.0",
+        chainId: numberToHex(chainId),
+        from: fromAddress,
+        // Approve and donate calls must never land without each other
+        atomicRequired: true,
+        calls: calls.map((call) => ({
+          to: call.to,
+          data: call.data ?? "0x",
+          value: numberToHex(call.value ?? 0n),
+        })),
+        capabilities: {
+          paymasterService: {
+            url: paymasterUrl, // Paymaster sponsors gas fees
           },
         },
-      ],
-    });
+      },
+    ],
+  });
 
-    return result;
-  } catch (error) {
-    console.log(`Error sending transaction : ${error}`);
-    throw error;
+  // Newer wallets return `{ id }` instead of a bare batch ID
+  const batchId = typeof result === "string" ? result : result?.id;
+
+  if (!batchId) {
+    throw new Error("Failed to get batch ID");
   }
+
+  return batchId;
 };
 
 /**
@@ -135,7 +398,7 @@ export const sendTransaction = async (
  * submitted batch of calls.
  *
  * @param provider - The wallet provider instance
- * @param batchId - The batch identifier returned from sendTransaction
+ * @param batchId - The batch identifier returned from sendCalls
  * @returns Status object containing transaction state and receipts
  *
  * @example
@@ -143,61 +406,364 @@ export const sendTransaction = async (
  * console.log(status.status); // 'PENDING', 'CONFIRMED', or 'FAILED'
  */
 export const getCallsStatus = async (
-  provider: { request: (args: any) => Promise<any> },
+  provider: RequestProvider,
   batchId: string
-) => {
-  const status = await provider.request({
+): Promise<CallsStatus> => {
+  return provider.request({
     method: "wallet_getCallsStatus",
     params: [batchId],
   });
-
-  return status;
 };
 
 /**
- * Polls for transaction confirmation with configurable retry logic
+ * Polls for transaction confirmation with exponential backoff
  *
  * Continuously checks the transaction status until it's confirmed, failed,
- * or the maximum number of attempts is reached.
+ * aborted, or the maximum number of attempts is reached.
  *
  * @param provider - The wallet provider instance
  * @param batchId - The batch identifier to monitor
- * @param maxAttempts - Maximum number of polling attempts (default: 60)
- * @param intervalMs - Milliseconds between polling attempts (default: 2000)
+ * @param options - Backoff configuration, abort signal and pending callback
  * @returns Final status object when transaction is confirmed
- * @throws If transaction fails or confirmation times out
+ * @throws If transaction fails, is aborted or confirmation times out
  *
  * @example
  * try {
- *   const finalStatus = await waitForBatchConfirmation(provider, batchId);
+ *   const finalStatus = await waitForBatchConfirmation(provider, batchId, {
+ *     backoff: { maxAttempts: 30 },
+ *     signal: controller.signal,
+ *   });
  *   console.log('Transaction confirmed!', finalStatus);
  * } catch (error) {
  *   console.error('Transaction failed or timed out', error);
  * }
  */
 export const waitForBatchConfirmation = async (
-  provider: { request: (args: any) => Promise<any> },
+  provider: RequestProvider,
   batchId: string,
-  maxAttempts: number = 60,
-  intervalMs: number = 2000
-) => {
+  options: {
+    backoff?: BackoffOptions;
+    signal?: AbortSignal;
+    onPending?: (attempt: number) => void;
+  } = {}
+): Promise<CallsStatus> => {
+  const { initialDelayMs, maxDelayMs, multiplier, maxAttempts } = {
+    ...DEFAULT_BACKOFF,
+    ...options.backoff,
+  };
+  let intervalMs = initialDelayMs;
+
   for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    throwIfAborted(options.signal);
     const status = await getCallsStatus(provider, batchId);
 
     // Transaction successfully confirmed
-    if (status.status === "CONFIRMED") {
+    if (isCallsConfirmed(status)) {
       return status;
     }
 
     // Transaction failed
-    if (status.status === "FAILED") {
-      throw new Error(`Batch failed: ${status.error}`);
+    if (isCallsFailed(status)) {
+      throw new Error(`Transaction failed: ${status.error ?? status.status}`);
     }
 
+    options.onPending?.(attempt + 1);
+
     // Wait before next polling attempt
-    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    await delay(intervalMs, options.signal);
+    intervalMs = Math.min(intervalMs * multiplier, maxDelayMs);
   }
 
   // Timeout reached without confirmation
-  throw new Error("Batch confirmation timeout");
+  throw new Error(CONFIRMATION_TIMEOUT_MESSAGE);
+};
+
+/**
+ * Estimates the gas of calls in sequence, each on the state the calls before
+ * it leave behind (e.g. donate after the approve it relies on)
+ *
+ * @returns Gas per call, or null if the RPC cannot simulate several calls
+ */
+const simulateCallsGas = async (
+  client: PublicClient,
+  from: Address,
+  calls: TransactionCall[]
+): Promise<bigint[] | null> => {
+  try {
+    const { results } = await client.simulateCalls({
+      account: from,
+      calls: calls.map((call) => ({ to: call.to, data: call.data, value: call.value })),
+    });
+    return results.map((result) => result.gasUsed);
+  } catch (error) {
+    console.log(`Batch simulation unavailable: ${error}`);
+    return null;
+  }
+};
+
+/**
+ * Estimates the gas and maximum fee for sending calls one by one
+ *
+ * Several calls are simulated in sequence, since later calls usually depend
+ * on earlier ones. If the RPC cannot do that, only the first call is
+ * estimated, against the current state; `estimated` then tells the caller to
+ * estimate the rest once the calls before them are mined.
+ *
+ * @param client - Public client for the target chain
+ * @param from - The sender address
+ * @param calls - The calls to estimate
+ * @returns Total gas, fee per gas and maximum cost in wei
+ *
+ * @example
+ * const { cost } = await estimateCallsGas(client, account, calls);
+ */
+export const estimateCallsGas = async (
+  client: PublicClient,
+  from: Address,
+  calls: TransactionCall[]
+): Promise<GasEstimate> => {
+  const estimateFirst = async () => [
+    await client.estimateGas({
+      account: from,
+      to: calls[0].to,
+      data: calls[0].data,
+      value: calls[0].value,
+    }),
+  ];
+  const [gasPerCall, fees] = await Promise.all([
+    calls.length > 1
+      ? simulateCallsGas(client, from, calls).then((gas) => gas ?? estimateFirst())
+      : estimateFirst(),
+    client.estimateFeesPerGas(),
+  ]);
+
+  const gas = gasPerCall.reduce((total, value) => total + value, 0n);
+  const maxFeePerGas = fees.maxFeePerGas ?? fees.gasPrice ?? 0n;
+
+  return {
+    gas,
+    maxFeePerGas,
+    cost: gas * maxFeePerGas,
+    transactions: calls.length,
+    estimated: gasPerCall.length,
+  };
+};
+
+/**
+ * Waits for a transaction's receipt, giving up with a confirmation timeout
+ * after `timeoutMs`, or as soon as the signal is aborted
+ */
+const waitForReceipt = (
+  client: PublicClient,
+  hash: Hex,
+  timeoutMs: number,
+  signal?: AbortSignal
+) =>
+  new Promise<Awaited<ReturnType<PublicClient["waitForTransactionReceipt"]>>>(
+    (resolve, reject) => {
+      throwIfAborted(signal);
+
+      const onAbort = () =>
+        reject(
+          signal?.reason instanceof Error
+            ? signal.reason
+            : new DOMException("Transaction aborted", "AbortError")
+        );
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      client
+        .waitForTransactionReceipt({ hash, timeout: timeoutMs })
+        .then(resolve, (error) =>
+          reject(
+            error instanceof WaitForTransactionReceiptTimeoutError
+              ? new Error(CONFIRMATION_TIMEOUT_MESSAGE)
+              : error
+          )
+        )
+        .finally(() => signal?.removeEventListener("abort", onAbort));
+    }
+  );
+
+/**
+ * Sends calls as individual user-paid transactions and waits for each receipt
+ *
+ * Used when the wallet does not support sponsored wallet_sendCalls. Calls are
+ * sent in order, so an approve lands before the donate that depends on it.
+ *
+ * Each receipt is awaited for as long as the backoff would poll a sponsored
+ * batch.
+ *
+ * @returns The last transaction hash and a status object shaped like wallet_getCallsStatus
+ * @throws If the user rejects the gas estimate, any transaction reverts or a
+ *   receipt does not arrive in time
+ */
+const executeUserPaidTransaction = async (
+  {
+    provider,
+    from,
+    calls: requested,
+    client,
+    signal,
+    backoff,
+    onEvent,
+    onConfirmGas,
+    prepareCalls,
+  }: TransactionRequest,
+  setBatchId: (id: string) => void
+): Promise<{ batchId: string; status: CallsStatus }> => {
+  if (!client) {
+    throw new Error("A public client is required to send user-paid transactions");
+  }
+
+  const calls = prepareCalls ? await prepareCalls(requested) : requested;
+  const receiptTimeoutMs = backoffDuration({ ...DEFAULT_BACKOFF, ...backoff });
+
+  const estimate = await estimateCallsGas(client, from, calls);
+  if (onConfirmGas && !(await onConfirmGas(estimate))) {
+    throw new Error("Transaction cancelled");
+  }
+
+  const receipts: CallsReceipt[] = [];
+  let hash: Hex = "0x";
+
+  for (const [index, call] of calls.entries()) {
+    throwIfAborted(signal);
+
+    // Not covered by the first estimate: the calls before it are mined now
+    if (index >= estimate.estimated && onConfirmGas) {
+      const next = await estimateCallsGas(client, from, [call]);
+      if (!(await onConfirmGas(next))) {
+        throw new Error("Transaction cancelled");
+      }
+    }
+
+    onEvent?.({ stage: "signing", calls: [call] });
+
+    hash = await provider.request({
+      method: "eth_sendTransaction",
+      params: [
+        {
+          from,
+          to: call.to,
+          data: call.data ?? "0x",
+          value: numberToHex(call.value ?? 0n),
+        },
+      ],
+    });
+    setBatchId(hash);
+    onEvent?.({ stage: "submitted", batchId: hash });
+    onEvent?.({ stage: "pending", batchId: hash, attempt: 1 });
+
+    const receipt = await waitForReceipt(client, hash, receiptTimeoutMs, signal);
+    if (receipt.status !== "success") {
+      throw new Error(`Transaction failed: ${hash} reverted`);
+    }
+
+    receipts.push({
+      transactionHash: receipt.transactionHash,
+      blockHash: receipt.blockHash,
+      blockNumber: numberToHex(receipt.blockNumber),
+      gasUsed: numberToHex(receipt.gasUsed),
+      status: "0x1",
+      logs: receipt.logs,
+    });
+  }
+
+  return { batchId: hash, status: { status: "CONFIRMED", receipts } };
+};
+
+/**
+ * Runs the full transaction pipeline: send the batch, then wait for confirmation
+ *
+ * Every write in the app goes through this function. Lifecycle events are
+ * emitted through `onEvent` in the order signing → submitted → pending* →
+ * confirmed, or `failed` at any point. In "sendTransaction" mode the gas
+ * estimate is confirmed first and signing → submitted → pending repeats for
+ * every call. Calls the first estimate could not cover are estimated and
+ * confirmed again once the calls before them are mined.
+ *
+ * With a `lock`, `queued` is emitted first if another write holds it. A
+ * sponsored batch only holds the lock while the wallet signs it, so several
+ * batches can wait for confirmation at once, unless it has `prepareCalls`.
+ * User-paid transactions hold it until their receipts arrive, since each one
+ * depends on the previous nonce.
+ *
+ * @param request - Provider, sender, calls and pipeline options
+ * @returns The batch ID and its final status
+ * @throws If any step fails or the signal is aborted
+ *
+ * @example
+ * const { status } = await executeTransaction({
+ *   provider,
+ *   from: account,
+ *   calls: [encodeContractCall(CONTRACT_ADDRESS, FUNDING_ABI, 'donate', [id, amount])],
+ *   paymasterUrl,
+ *   onEvent: (event) => console.log(event.stage),
+ * });
+ */
+export const executeTransaction = async (
+  request: TransactionRequest
+): Promise<{ batchId: string; status: CallsStatus }> => {
+  const {
+    provider,
+    from,
+    calls,
+    chainId = baseSepolia.id,
+    paymasterUrl = "",
+    signal,
+    backoff,
+    onEvent,
+    mode = "sponsored",
+    lock,
+    prepareCalls,
+  } = request;
+  let batchId: string | undefined;
+  const withLock = <T>(task: () => Promise<T>) => (lock ? lock.run(task) : task());
+
+  try {
+    throwIfAborted(signal);
+    if (lock?.isBusy()) {
+      onEvent?.({ stage: "queued" });
+    }
+
+    if (mode === "sendTransaction") {
+      const result = await withLock(() =>
+        executeUserPaidTransaction(request, (id) => {
+          batchId = id;
+        })
+      );
+      onEvent?.({ stage: "confirmed", batchId: result.batchId, status: result.status });
+      return result;
+    }
+
+    const sign = async () => {
+      throwIfAborted(signal);
+      const batch = prepareCalls ? await prepareCalls(calls) : calls;
+      onEvent?.({ stage: "signing", calls: batch });
+      batchId = await sendCalls(provider, from, batch, paymasterUrl, chainId);
+      return batchId;
+    };
+    const confirm = async (submittedId: string) => {
+      onEvent?.({ stage: "submitted", batchId: submittedId });
+      const status = await waitForBatchConfirmation(provider, submittedId, {
+        backoff,
+        signal,
+        onPending: (attempt) =>
+          onEvent?.({ stage: "pending", batchId: submittedId, attempt }),
+      });
+      onEvent?.({ stage: "confirmed", batchId: submittedId, status });
+      return { batchId: submittedId, status };
+    };
+
+    // Prepared calls were decided on the current state, so later writes wait
+    // until they are confirmed instead of only until they are signed
+    return prepareCalls
+      ? await withLock(async () => confirm(await sign()))
+      : await confirm(await withLock(sign));
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.log(`Error sending transaction : ${err.message}`);
+    onEvent?.({ stage: "failed", batchId, error: err });
+    throw err;
+  }
 };
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import {
+  createPublicClient,
+  custom,
+  encodeErrorResult,
+  numberToHex,
+  parseAbi,
+  toFunctionSelector,
+  type Chain,
+  type Hex,
+} from "viem";
+import { baseSepolia } from "viem/chains";
+import { MOCK_ACCOUNT } from "../test/mockProvider";
+import { CONTRACT_ADDRESS } from "./Funding";
+import { checkPayout, supportsPayouts } from "./payouts";
+
+const selector = (signature: string) => toFunctionSelector(signature).slice(2);
+
+// Dispatcher fragments as solc emits them: PUSH4 <selector> EQ PUSH2 <dest> JUMPI
+const dispatch = (...signatures: string[]): Hex =>
+  `0x6080604052${signatures.map((signature) => `63${selector(signature)}1461001057`).join("")}`;
+
+const PAYOUT_CODE = dispatch(
+  "donate(uint256,uint256)",
+  "withdraw(uint256)",
+  "claimRefund(uint256)",
+  "getContribution(uint256,address)"
+);
+
+/**
+ * Public client whose node serves the given bytecode and answers eth_call
+ * with `call`
+ */
+const createNode = (code: Hex, call: () => Hex = () => "0x") =>
+  createPublicClient({
+    chain: baseSepolia as Chain,
+    transport: custom(
+      {
+        request: async ({ method }: { method: string }) => {
+          if (method === "eth_getCode") return code;
+          if (method === "eth_call") return call();
+          if (method === "eth_chainId") return numberToHex(baseSepolia.id);
+          throw new Error(`Unexpected ${method}`);
+        },
+      },
+      { retryCount: 0 }
+    ),
+  });
+
+const revert = (reason: string) => () => {
+  throw Object.assign(new Error("execution reverted"), {
+    code: 3,
+    data: encodeErrorResult({
+      abi: parseAbi(["error Error(string)"]),
+      errorName: "Error",
+      args: [reason],
+    }),
+  });
+};
+
+describe("supportsPayouts", () => {
+  it("finds every payout function in the contract's dispatcher", async () => {
+    expect(await supportsPayouts(createNode(PAYOUT_CODE), CONTRACT_ADDRESS)).toBe(true);
+  });
+
+  it("rejects deployments that predate payouts", async () => {
+    const code = dispatch("donate(uint256,uint256)", "getContribution(uint256,address)");
+
+    expect(await supportsPayouts(createNode(code), CONTRACT_ADDRESS)).toBe(false);
+  });
+
+  it("rejects addresses without a contract", async () => {
+    expect(await supportsPayouts(createNode("0x"), CONTRACT_ADDRESS)).toBe(false);
+  });
+});
+
+describe("checkPayout", () => {
+  it("allows payouts the contract accepts", async () => {
+    const check = await checkPayout(
+      createNode(PAYOUT_CODE),
+      CONTRACT_ADDRESS,
+      "withdraw",
+      1n,
+      MOCK_ACCOUNT
+    );
+
+    expect(check).toEqual({ allowed: true });
+  });
+
+  it("reports the contract's revert reason", async () => {
+    const check = await checkPayout(
+      createNode(PAYOUT_CODE, revert("Goal reached")),
+      CONTRACT_ADDRESS,
+      "refund",
+      1n,
+      MOCK_ACCOUNT
+    );
+
+    expect(check).toEqual({ allowed: false, reason: "Goal reached" });
+  });
+});
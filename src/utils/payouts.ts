@@ -0,0 +1,111 @@
+/**
+ * Payouts Module
+ *
+ * This module decides whether creator withdrawals and donor refunds can be
+ * offered, leaving the rules themselves to the Funding contract:
+ * - Detecting whether the deployed contract implements withdraw, claimRefund
+ *   and getContribution, since older deployments do not
+ * - Checking a payout by simulating it as the account that would send it
+ *
+ * @module payouts
+ */
+
+import { getAbiItem, toFunctionSelector, type Address } from "viem";
+import { FUNDING_ABI } from "./Funding";
+import { fundingCall } from "./contracts";
+import type { PayoutKind } from "./campaignStatus";
+import type { createClient } from "./paymentService";
+import { simulateContractCalls } from "./preflight";
+
+type PublicClient = ReturnType<typeof createClient>;
+
+/**
+ * Outcome of checking a payout against the contract
+ */
+export type PayoutCheck = { allowed: true } | { allowed: false; reason: string };
+
+/**
+ * Funding function that performs each payout
+ */
+export const PAYOUT_FUNCTIONS = {
+  withdraw: "withdraw",
+  refund: "claimRefund",
+} as const satisfies Record<PayoutKind, string>;
+
+/**
+ * Functions a deployment needs for payouts to be offered
+ */
+const PAYOUT_ABI_FUNCTIONS = ["withdraw", "claimRefund", "getContribution"] as const;
+
+/**
+ * Returns the PUSH instruction a Solidity dispatcher compares calldata
+ * against, e.g. `63a9059cbb` for a 4-byte selector. Leading zero bytes are
+ * dropped by the compiler, so they are dropped here too.
+ */
+const selectorPush = (selector: string) => {
+  const bytes = selector.slice(2).replace(/^(00)+/, "");
+  return `${(0x5f + bytes.length / 2).toString(16)}${bytes}`;
+};
+
+/**
+ * Returns true if the contract at `address` implements the payout functions
+ *
+ * The contract's bytecode is searched for each function's selector, so no
+ * call is made to a function that may not exist.
+ *
+ * @param client - Public client for the contract's chain
+ * @param address - The Funding contract address
+ * @returns False if any payout function is missing or nothing is deployed
+ *
+ * @example
+ * if (!(await supportsPayouts(client, network.fundingAddress))) hidePayouts();
+ */
+export const supportsPayouts = async (
+  client: PublicClient,
+  address: Address
+): Promise<boolean> => {
+  const code = (await client.getCode({ address }))?.toLowerCase();
+  if (!code || code === "0x") return false;
+
+  return PAYOUT_ABI_FUNCTIONS.every((name) =>
+    code.includes(selectorPush(toFunctionSelector(getAbiItem({ abi: FUNDING_ABI, name }))))
+  );
+};
+
+/**
+ * Checks whether the contract would accept a payout from an account
+ *
+ * The payout is simulated, so the answer reflects the contract's own rules
+ * (deadline, goal, what was already paid out) rather than the campaign
+ * status shown in the UI.
+ *
+ * @param client - Public client for the contract's chain
+ * @param address - The Funding contract address
+ * @param kind - Withdrawal or refund
+ * @param id - The campaign ID
+ * @param account - The account that would send the payout
+ * @returns Whether it is allowed and, if not, the revert reason
+ *
+ * @example
+ * const check = await checkPayout(client, address, 'refund', 3n, account);
+ * if (!check.allowed) console.log(check.reason); // 'Goal reached'
+ */
+export const checkPayout = async (
+  client: PublicClient,
+  address: Address,
+  kind: PayoutKind,
+  id: bigint,
+  account: Address
+): Promise<PayoutCheck> => {
+  try {
+    await simulateContractCalls(client, account, [
+      fundingCall(address, PAYOUT_FUNCTIONS[kind], [id]),
+    ]);
+    return { allowed: true };
+  } catch (error) {
+    return {
+      allowed: false,
+      reason: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import type { DonationToken } from "../hooks/useContract";
+import type { IndexerState } from "./logIndexer";
+import { moderate } from "./moderation";
+import { buildPlatformStats, platformReportCsv } from "./platformStats";
+
+const TOKEN: DonationToken = { address: null, symbol: "ETH", decimals: 18 };
+
+const ETH = 10n ** 18n;
+const HASH = `0x${"ab".repeat(32)}` as const;
+const ALICE = "0x00000000000000000000000000000000000000a1";
+const BOB = "0x00000000000000000000000000000000000000b0";
+
+const STATE: IndexerState = {
+  cursor: 100n,
+  created: [0n, 1n].map((campaignId) => ({
+    campaignId,
+    targetAmount: 2n * ETH,
+    creator: ALICE,
+    description: campaignId === 0n ? "Roof" : "=HYPERLINK(\"x\")",
+    timestamp: 1700000000n,
+    blockNumber: 10n + campaignId,
+    transactionHash: HASH,
+  })),
+  donations: [
+    [0n, BOB, ETH],
+    [0n, BOB.toUpperCase().replace("0X", "0x"), ETH],
+    [1n, ALICE, ETH / 2n],
+  ].map(([campaignId, donor, amount], logIndex) => ({
+    campaignId: campaignId as bigint,
+    donor: donor as string,
+    amount: amount as bigint,
+    timestamp: 1700000100n,
+    blockNumber: 20n,
+    transactionHash: HASH,
+    logIndex,
+  })),
+  withdrawals: [
+    { campaignId: 0n, creator: ALICE, amount: 2n * ETH, blockNumber: 30n, transactionHash: HASH },
+  ],
+  refunds: [
+    { campaignId: 1n, donor: ALICE, amount: ETH / 2n, blockNumber: 31n, transactionHash: HASH },
+  ],
+};
+
+describe("buildPlatformStats", () => {
+  it("totals events and counts donors case-insensitively", () => {
+    const stats = buildPlatformStats(STATE);
+
+    expect(stats).toMatchObject({
+      campaigns: 2,
+      donations: 3,
+      totalRaised: 2n * ETH + ETH / 2n,
+      totalWithdrawn: 2n * ETH,
+      totalRefunded: ETH / 2n,
+      uniqueDonors: 2,
+      uniqueCreators: 1,
+    });
+    expect(
+      stats.campaignReports.map(({ campaignId, raised, donors }) => [campaignId, raised, donors])
+    ).toEqual([
+      [1n, ETH / 2n, 1],
+      [0n, 2n * ETH, 1],
+    ]);
+  });
+});
+
+describe("platformReportCsv", () => {
+  it("writes exact amounts, moderation and escaped titles", () => {
+    const csv = platformReportCsv(
+      buildPlatformStats(STATE),
+      moderate({}, 1n, "flagged", "Spam, again"),
+      TOKEN,
+      (description) => description
+    );
+    const [header, first, second] = csv.trimEnd().split("\r\n");
+
+    expect(header).toBe(
+      "campaign_id,title,creator,created_at,target_ETH,raised_ETH,donations,donors,withdrawn_ETH,refunded_ETH,moderation,moderation_reason"
+    );
+    expect(first).toBe(
+      `1,"'=HYPERLINK(""x"")",${ALICE},2023-11-14T22:13:20.000Z,2,0.5,1,1,0,0.5,flagged,"Spam, again"`
+    );
+    expect(second).toBe(`0,Roof,${ALICE},2023-11-14T22:13:20.000Z,2,2,2,1,2,0,,`);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Platform Stats Module
+ *
+ * This module aggregates indexed Funding events into platform-wide figures
+ * for the owner's admin console:
+ * - Totals: campaigns, donations, amount raised, withdrawn and refunded
+ * - Unique donors and creators
+ * - A per-campaign breakdown
+ * - Reports of the above, with moderation decisions, as CSV or JSON
+ *
+ * @module platformStats
+ */
+
+import { formatUnits } from "viem";
+import type { DonationToken } from "../hooks/useContract";
+import type { IndexerState } from "./logIndexer";
+import type { ModerationList } from "./moderation";
+import { toCsv, toJson } from "./exportFile";
+
+/**
+ * Indexed figures for a single campaign
+ */
+export interface CampaignReport {
+  campaignId: bigint;
+  creator: string;
+  description: string;
+  createdAt: bigint;
+  targetAmount: bigint;
+  raised: bigint;
+  donations: number;
+  donors: number;
+  withdrawn: bigint;
+  refunded: bigint;
+}
+
+/**
+ * Platform-wide figures
+ */
+export interface PlatformStats {
+  campaigns: number;
+  donations: number;
+  totalRaised: bigint;
+  totalWithdrawn: bigint;
+  totalRefunded: bigint;
+  uniqueDonors: number;
+  uniqueCreators: number;
+  /** Per-campaign figures, newest campaign first */
+  campaignReports: CampaignReport[];
+}
+
+/**
+ * Aggregates indexed events into platform statistics
+ *
+ * @param state - Indexer state
+ * @returns Totals and the per-campaign breakdown
+ *
+ * @example
+ * const stats = buildPlatformStats(await syncFundingEvents(client, network));
+ * console.log(`${stats.uniqueDonors} donors`);
+ */
+export const buildPlatformStats = (state: IndexerState): PlatformStats => {
+  const reports = new Map<bigint, CampaignReport>(
+    state.created.map((record) => [
+      record.campaignId,
+      {
+        campaignId: record.campaignId,
+        creator: record.creator,
+        description: record.description,
+        createdAt: record.timestamp,
+        targetAmount: record.targetAmount,
+        raised: 0n,
+        donations: 0,
+        donors: 0,
+        withdrawn: 0n,
+        refunded: 0n,
+      },
+    ])
+  );
+  const donorsByCampaign = new Map<bigint, Set<string>>();
+  const donors = new Set<string>();
+
+  for (const donation of state.donations) {
+    const donor = donation.donor.toLowerCase();
+    donors.add(donor);
+
+    const report = reports.get(donation.campaignId);
+    if (!report) continue;
+    report.raised += donation.amount;
+    report.donations += 1;
+
+    const campaignDonors = donorsByCampaign.get(donation.campaignId) ?? new Set();
+    campaignDonors.add(donor);
+    donorsByCampaign.set(donation.campaignId, campaignDonors);
+    report.donors = campaignDonors.size;
+  }
+
+  for (const withdrawal of state.withdrawals) {
+    const report = reports.get(withdrawal.campaignId);
+    if (report) report.withdrawn += withdrawal.amount;
+  }
+  for (const refund of state.refunds) {
+    const report = reports.get(refund.campaignId);
+    if (report) report.refunded += refund.amount;
+  }
+
+  const sum = (values: bigint[]) => values.reduce((total, value) => total + value, 0n);
+
+  return {
+    campaigns: state.created.length,
+    donations: state.donations.length,
+    totalRaised: sum(state.donations.map(({ amount }) => amount)),
+    totalWithdrawn: sum(state.withdrawals.map(({ amount }) => amount)),
+    totalRefunded: sum(state.refunds.map(({ amount }) => amount)),
+    uniqueDonors: donors.size,
+    uniqueCreators: new Set(state.created.map(({ creator }) => creator.toLowerCase())).size,
+    campaignReports: [...reports.values()].sort((a, b) =>
+      a.campaignId === b.campaignId ? 0 : a.campaignId > b.campaignId ? -1 : 1
+    ),
+  };
+};
+
+/**
+ * Builds the per-campaign report as CSV, amounts in whole token units
+ *
+ * @param stats - Platform statistics
+ * @param moderation - Moderation decisions to include
+ * @param token - The donation token
+ * @param titleOf - Resolves a description to the title to show
+ * @returns The CSV text
+ */
+export const platformReportCsv = (
+  stats: PlatformStats,
+  moderation: ModerationList,
+  token: DonationToken,
+  titleOf: (description: string) => string
+): string =>
+  toCsv(
+    [
+      "campaign_id",
+      "title",
+      "creator",
+      "created_at",
+      `target_${token.symbol}`,
+      `raised_${token.symbol}`,
+      "donations",
+      "donors",
+      `withdrawn_${token.symbol}`,
+      `refunded_${token.symbol}`,
+      "moderation",
+      "moderation_reason",
+    ],
+    stats.campaignReports.map((report) => {
+      const decision = moderation[report.campaignId.toString()];
+      return [
+        report.campaignId,
+        titleOf(report.description),
+        report.creator,
+        new Date(Number(report.createdAt) * 1000).toISOString(),
+        formatUnits(report.targetAmount, token.decimals),
+        formatUnits(report.raised, token.decimals),
+        report.donations,
+        report.donors,
+        formatUnits(report.withdrawn, token.decimals),
+        formatUnits(report.refunded, token.decimals),
+        decision?.action ?? "",
+        decision?.reason ?? "",
+      ];
+    })
+  );
+
+/**
+ * Builds the full report as JSON, amounts in base units
+ *
+ * @param stats - Platform statistics
+ * @param moderation - Moderation decisions to include
+ * @param token - The donation token
+ * @param network - Where the figures were indexed
+ * @returns The JSON text
+ */
+export const platformReportJson = (
+  stats: PlatformStats,
+  moderation: ModerationList,
+  token: DonationToken,
+  network: { chainId: number; fundingAddress: string }
+): string =>
+  toJson({
+    generatedAt: new Date().toISOString(),
+    ...network,
+    token,
+    ...stats,
+    moderation: Object.values(moderation),
+  });
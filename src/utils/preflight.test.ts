@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createPublicClient, custom, numberToHex, padHex, type Chain } from "viem";
+import { baseSepolia } from "viem/chains";
+import { MOCK_ACCOUNT } from "../test/mockProvider";
+import { CONTRACT_ADDRESS } from "./Funding";
+import { fundingCall } from "./contracts";
+import { checkSponsorship, runPreflight } from "./preflight";
+
+const PAYMASTER_URL = "https://paymaster.example";
+const CALLS = [fundingCall(CONTRACT_ADDRESS, "donate", [1n, 100n])];
+
+/**
+ * Public client whose node reports a deployed smart wallet with nonce 5
+ */
+const createNode = ({ deployed = true } = {}) =>
+  createPublicClient({
+    chain: baseSepolia as Chain,
+    transport: custom({
+      request: async ({ method }: { method: string }) => {
+        if (method === "eth_getCode") return deployed ? "0x6001" : "0x";
+        if (method === "eth_call") return padHex(numberToHex(5));
+        if (method === "eth_chainId") return numberToHex(baseSepolia.id);
+        throw new Error(`Unexpected ${method}`);
+      },
+    }),
+  });
+
+const stubPaymaster = (response: Response | Error) => {
+  const fetch = vi.fn(async () => {
+    if (response instanceof Error) throw response;
+    return response;
+  });
+  vi.stubGlobal("fetch", fetch);
+  return fetch;
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("checkSponsorship", () => {
+  it("sends the smart wallet's current nonce", async () => {
+    const fetch = stubPaymaster(
+      json({ jsonrpc: "2.0", id: 1, result: { paymasterAndData: "0x01" } })
+    );
+
+    const result = await checkSponsorship(createNode(), PAYMASTER_URL, MOCK_ACCOUNT, CALLS);
+
+    expect(result).toEqual({ status: "sponsored" });
+    const [, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(JSON.parse(init.body as string).params[0].nonce).toBe("0x5");
+  });
+
+  it("reports a JSON-RPC error as a refusal", async () => {
+    stubPaymaster(
+      json({ jsonrpc: "2.0", id: 1, error: { code: -32000, message: "Policy limit reached" } })
+    );
+
+    expect(await checkSponsorship(createNode(), PAYMASTER_URL, MOCK_ACCOUNT, CALLS)).toEqual({
+      status: "denied",
+      reason: "Policy limit reached",
+    });
+  });
+
+  it("reports network, HTTP and parse failures as unavailable", async () => {
+    const node = createNode();
+
+    stubPaymaster(new TypeError("Failed to fetch"));
+    expect((await checkSponsorship(node, PAYMASTER_URL, MOCK_ACCOUNT, CALLS)).status).toBe(
+      "unavailable"
+    );
+
+    stubPaymaster(json({ error: { message: "Bad gateway" } }, 502));
+    expect(await checkSponsorship(node, PAYMASTER_URL, MOCK_ACCOUNT, CALLS)).toEqual({
+      status: "unavailable",
+      reason: "Paymaster responded with HTTP 502",
+    });
+
+    stubPaymaster(new Response("<html>", { status: 200 }));
+    expect((await checkSponsorship(node, PAYMASTER_URL, MOCK_ACCOUNT, CALLS)).status).toBe(
+      "unavailable"
+    );
+  });
+
+  it("leaves undeployed smart wallets to ask the paymaster themselves", async () => {
+    const fetch = stubPaymaster(json({ result: {} }));
+
+    expect(
+      await checkSponsorship(createNode({ deployed: false }), PAYMASTER_URL, MOCK_ACCOUNT, CALLS)
+    ).toEqual({ status: "unchecked" });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("runPreflight", () => {
+  it("switches to user-paid only when the paymaster refuses", async () => {
+    stubPaymaster(json({ jsonrpc: "2.0", id: 1, error: { message: "Not eligible" } }));
+
+    expect(
+      await runPreflight(createNode(), MOCK_ACCOUNT, CALLS, "sponsored", PAYMASTER_URL)
+    ).toEqual({
+      mode: "sendTransaction",
+      sponsorship: { status: "denied", reason: "Not eligible" },
+    });
+  });
+
+  it("fails without sending when the paymaster cannot be asked", async () => {
+    stubPaymaster(new TypeError("Failed to fetch"));
+
+    await expect(
+      runPreflight(createNode(), MOCK_ACCOUNT, CALLS, "sponsored", PAYMASTER_URL)
+    ).rejects.toThrow("Could not confirm gas sponsorship (Paymaster unreachable)");
+  });
+});
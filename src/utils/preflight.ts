@@ -0,0 +1,352 @@
+/**
+ * Preflight Module
+ *
+ * This module checks a write before the user is asked to sign it:
+ * - Simulating the contract calls on the public client
+ * - Decoding revert reasons into readable messages
+ * - Asking the paymaster whether the calls are eligible for sponsorship
+ *
+ * @module preflight
+ */
+
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  encodeFunctionData,
+  numberToHex,
+  type Abi,
+  type Address,
+} from "viem";
+import type {
+  createClient,
+  TransactionMode,
+  TransactionStage,
+} from "./paymentService";
+
+type PublicClient = ReturnType<typeof createClient>;
+
+/**
+ * Stage of a write including the preflight checks that run before it is sent
+ */
+export type PipelineStage = TransactionStage | "simulating";
+
+/**
+ * A contract call described by ABI, function name and arguments
+ */
+export interface ContractCall {
+  address: Address;
+  abi: Abi;
+  functionName: string;
+  args?: readonly unknown[];
+}
+
+/**
+ * How the paymaster answered the eligibility check:
+ * - "sponsored": it accepted the calls
+ * - "denied": it answered with a JSON-RPC error, i.e. its policy refuses them
+ * - "unavailable": it could not be asked (network, HTTP or malformed response)
+ * - "unchecked": the check was skipped and the wallet asks the paymaster itself
+ */
+export type SponsorshipStatus = "sponsored" | "denied" | "unavailable" | "unchecked";
+
+/**
+ * Outcome of the paymaster eligibility check
+ */
+export interface SponsorshipResult {
+  status: SponsorshipStatus;
+  reason?: string;
+}
+
+/**
+ * Outcome of {@link runPreflight}
+ */
+export interface PreflightResult {
+  /** Mode to send with; downgraded to "sendTransaction" only if the paymaster refuses */
+  mode: TransactionMode;
+  sponsorship: SponsorshipResult;
+}
+
+/**
+ * EntryPoint v0.6, used by Base Account smart wallets
+ */
+const ENTRY_POINT_ADDRESS = "0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789";
+
+/**
+ * EntryPoint function that returns an account's next nonce for a key
+ */
+const ENTRY_POINT_ABI = [
+  {
+    inputs: [
+      { name: "sender", type: "address" },
+      { name: "key", type: "uint192" },
+    ],
+    name: "getNonce",
+    outputs: [{ name: "nonce", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+/**
+ * Smart wallet batch entry point, used to build the user operation calldata
+ */
+const SMART_WALLET_ABI: Abi = [
+  {
+    inputs: [
+      {
+        components: [
+          { name: "target", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "data", type: "bytes" },
+        ],
+        name: "calls",
+        type: "tuple[]",
+      },
+    ],
+    name: "executeBatch",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+];
+
+/**
+ * Extracts a human-readable reason from a simulation error
+ *
+ * @param error - The error thrown by viem
+ * @returns The revert reason, custom error name, or the error's short message
+ *
+ * @example
+ * try {
+ *   await client.simulateContract({ ... });
+ * } catch (error) {
+ *   console.log(decodeRevertReason(error)); // 'Donation does not exist'
+ * }
+ */
+export const decodeRevertReason = (error: unknown): string => {
+  if (error instanceof BaseError) {
+    const revert = error.walk((err) => err instanceof ContractFunctionRevertedError);
+    if (revert instanceof ContractFunctionRevertedError) {
+      if (revert.reason) return revert.reason;
+      if (revert.data?.errorName) {
+        const args = revert.data.args?.map(String).join(", ") ?? "";
+        return `${revert.data.errorName}(${args})`;
+      }
+    }
+    return error.shortMessage;
+  }
+
+  return error instanceof Error ? error.message : String(error);
+};
+
+/**
+ * Simulates the calls as the given account
+ *
+ * A single call goes through simulateContract. Several calls are simulated
+ * together with simulateCalls so that later calls see the effects of earlier
+ * ones (e.g. donate after approve). If the RPC does not support multi-call
+ * simulation, the batch is not simulated.
+ *
+ * @param client - Public client for the target chain
+ * @param from - The account that will send the calls
+ * @param calls - The calls to simulate
+ * @throws With the decoded revert reason if any call would revert
+ */
+export const simulateContractCalls = async (
+  client: PublicClient,
+  from: Address,
+  calls: ContractCall[]
+): Promise<void> => {
+  if (calls.length === 1) {
+    const [call] = calls;
+    try {
+      await client.simulateContract({
+        account: from,
+        address: call.address,
+        abi: call.abi,
+        functionName: call.functionName,
+        args: call.args,
+      });
+    } catch (error) {
+      throw new Error(decodeRevertReason(error));
+    }
+    return;
+  }
+
+  let results;
+  try {
+    ({ results } = await client.simulateCalls({
+      account: from,
+      calls: calls.map((call) => ({
+        to: call.address,
+        abi: call.abi,
+        functionName: call.functionName,
+        args: call.args,
+      })),
+    }));
+  } catch (error) {
+    console.log(`Batch simulation unavailable: ${decodeRevertReason(error)}`);
+    return;
+  }
+
+  const failed = results.find((result) => result.status === "failure");
+  if (failed?.error) {
+    throw new Error(decodeRevertReason(failed.error));
+  }
+};
+
+/**
+ * Asks the paymaster whether it would sponsor the calls
+ *
+ * Sends an ERC-7677 pm_getPaymasterStubData request with a stub user
+ * operation that executes the calls from the account's smart wallet, using
+ * the account's current EntryPoint nonce. A result means the paymaster's
+ * policy accepts the calls; a JSON-RPC error carries the reason it does not.
+ *
+ * Accounts whose smart wallet is not deployed yet are not checked: their
+ * user operation needs the wallet's init code, which only the wallet knows,
+ * so the wallet asks the paymaster itself when sending.
+ *
+ * @param client - Public client for the chain the calls will be sent on
+ * @param paymasterUrl - The paymaster service URL
+ * @param from - The smart wallet address
+ * @param calls - The calls to check
+ * @returns How the paymaster answered, and why if it did not sponsor the calls
+ *
+ * @example
+ * const { status, reason } = await checkSponsorship(client, paymasterUrl, account, calls);
+ */
+export const checkSponsorship = async (
+  client: PublicClient,
+  paymasterUrl: string,
+  from: Address,
+  calls: ContractCall[]
+): Promise<SponsorshipResult> => {
+  if (!paymasterUrl) {
+    return { status: "denied", reason: "No paymaster configured for this network" };
+  }
+
+  let nonce: bigint;
+  try {
+    const code = await client.getCode({ address: from });
+    if (!code || code === "0x") {
+      return { status: "unchecked" };
+    }
+    nonce = await client.readContract({
+      address: ENTRY_POINT_ADDRESS,
+      abi: ENTRY_POINT_ABI,
+      functionName: "getNonce",
+      args: [from, 0n],
+    });
+  } catch (error) {
+    console.log(`Error reading smart wallet state: ${error}`);
+    return { status: "unavailable", reason: "Could not read the smart wallet's state" };
+  }
+
+  const callData = encodeFunctionData({
+    abi: SMART_WALLET_ABI,
+    functionName: "executeBatch",
+    args: [
+      calls.map((call) => ({
+        target: call.address,
+        value: 0n,
+        data: encodeFunctionData({
+          abi: call.abi,
+          functionName: call.functionName,
+          args: call.args,
+        }),
+      })),
+    ],
+  });
+
+  const userOperation = {
+    sender: from,
+    nonce: numberToHex(nonce),
+    initCode: "0x",
+    callData,
+    callGasLimit: "0x0",
+    verificationGasLimit: "0x0",
+    preVerificationGas: "0x0",
+    maxFeePerGas: "0x0",
+    maxPriorityFeePerGas: "0x0",
+    paymasterAndData: "0x",
+    signature: "0x",
+  };
+
+  let body;
+  try {
+    const response = await fetch(paymasterUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "pm_getPaymasterStubData",
+        params: [userOperation, ENTRY_POINT_ADDRESS, numberToHex(client.chain.id), {}],
+      }),
+    });
+    if (!response.ok) {
+      return { status: "unavailable", reason: `Paymaster responded with HTTP ${response.status}` };
+    }
+    body = await response.json();
+  } catch (error) {
+    console.log(`Error checking sponsorship: ${error}`);
+    return { status: "unavailable", reason: "Paymaster unreachable" };
+  }
+
+  if (body?.error) {
+    return { status: "denied", reason: body.error.message ?? "Sponsorship denied" };
+  }
+  if (!body?.result) {
+    return { status: "unavailable", reason: "Paymaster sent an invalid response" };
+  }
+
+  return { status: "sponsored" };
+};
+
+/**
+ * Runs all preflight checks for a write
+ *
+ * A sponsored write is only downgraded to user-paid when the paymaster
+ * refuses it; the gas confirmation then tells the user why. If the paymaster
+ * cannot be asked, nothing is sent and the write fails so the user can retry,
+ * rather than being charged gas because of an outage.
+ *
+ * @param client - Public client for the target chain
+ * @param from - The account that will send the calls
+ * @param calls - The calls to check
+ * @param mode - The mode negotiated from wallet capabilities
+ * @param paymasterUrl - The paymaster service URL
+ * @returns The mode to send with and the sponsorship result
+ * @throws With the decoded revert reason if any call would revert, or if
+ *   sponsorship could not be checked
+ *
+ * @example
+ * const { mode } = await runPreflight(client, account, calls, 'sponsored', paymasterUrl);
+ */
+export const runPreflight = async (
+  client: PublicClient,
+  from: Address,
+  calls: ContractCall[],
+  mode: TransactionMode,
+  paymasterUrl: string
+): Promise<PreflightResult> => {
+  await simulateContractCalls(client, from, calls);
+
+  if (mode !== "sponsored") {
+    return { mode, sponsorship: { status: "unchecked" } };
+  }
+
+  const sponsorship = await checkSponsorship(client, paymasterUrl, from, calls);
+
+  if (sponsorship.status === "unavailable") {
+    throw new Error(
+      `Could not confirm gas sponsorship (${sponsorship.reason}). Nothing was sent; please try again.`
+    );
+  }
+
+  return {
+    mode: sponsorship.status === "denied" ? "sendTransaction" : "sponsored",
+    sponsorship,
+  };
+};
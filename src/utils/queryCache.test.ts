@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { NETWORKS } from "./networks";
+import {
+  contractQueryKey,
+  DEFAULT_STALE_TIME_MS,
+  dedupe,
+  fetchQuery,
+  getQueryData,
+  getQueryGeneration,
+  invalidateQueries,
+  isStale,
+  setQueryData,
+} from "./queryCache";
+
+const ADDRESS = "0x00000000000000000000000000000000000000F0";
+
+// Entries live for the whole module, so every test uses its own call name
+const key = (call: string, ...args: bigint[]) =>
+  contractQueryKey(NETWORKS.anvil, ADDRESS, call, ...args);
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("fetchQuery", () => {
+  it("shares one request between concurrent callers", async () => {
+    const fetcher = vi.fn().mockResolvedValue(7);
+
+    const results = await Promise.all([
+      fetchQuery(key("dedupe"), fetcher),
+      fetchQuery(key("dedupe"), fetcher),
+    ]);
+
+    expect(results).toEqual([7, 7]);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("serves fresh entries from cache and refetches stale ones", async () => {
+    vi.useFakeTimers();
+    const fetcher = vi.fn().mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+
+    expect(await fetchQuery(key("stale"), fetcher)).toBe(1);
+    expect(await fetchQuery(key("stale"), fetcher)).toBe(1);
+
+    vi.advanceTimersByTime(DEFAULT_STALE_TIME_MS);
+    expect(isStale(getQueryData(key("stale"))!)).toBe(true);
+    expect(await fetchQuery(key("stale"), fetcher)).toBe(2);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not cache failed requests", async () => {
+    const fetcher = vi.fn().mockRejectedValueOnce(new Error("rpc down")).mockResolvedValue(3);
+
+    await expect(fetchQuery(key("failure"), fetcher)).rejects.toThrow("rpc down");
+    expect(getQueryData(key("failure"))).toBeUndefined();
+    expect(await fetchQuery(key("failure"), fetcher)).toBe(3);
+  });
+});
+
+describe("invalidateQueries", () => {
+  it("marks only keys under the prefix stale, keeping their data readable", async () => {
+    await fetchQuery(key("invalidate", 1n), async () => "one");
+    await fetchQuery(key("invalidate", 12n), async () => "twelve");
+
+    invalidateQueries(key("invalidate", 1n));
+
+    const invalidated = getQueryData<string>(key("invalidate", 1n))!;
+    expect(invalidated.data).toBe("one");
+    expect(isStale(invalidated)).toBe(true);
+    expect(isStale(getQueryData(key("invalidate", 12n))!)).toBe(false);
+  });
+
+  it("refetches a read that was in flight when its key was invalidated", async () => {
+    let resolveFirst: (value: string) => void = () => undefined;
+    const fetcher = vi
+      .fn<() => Promise<string>>()
+      .mockImplementationOnce(() => new Promise((resolve) => (resolveFirst = resolve)))
+      .mockResolvedValueOnce("after");
+
+    const first = fetchQuery(key("racing"), fetcher);
+    invalidateQueries(key("racing"));
+    // A caller arriving after the invalidation does not join the older request
+    const second = fetchQuery(key("racing"), fetcher);
+    resolveFirst("before");
+
+    expect(await first).toBe("after");
+    expect(await second).toBe("after");
+    expect(getQueryData(key("racing"))!.data).toBe("after");
+  });
+
+  it("drops values fetched before an invalidation", async () => {
+    const generation = getQueryGeneration(key("batched", 1n));
+    const batch = dedupe(key("batch", 1n), async () => "one", [key("batched", 1n)]);
+
+    invalidateQueries(key("batched", 1n));
+    setQueryData([[key("batched", 1n), await batch, generation]]);
+
+    expect(getQueryData(key("batched", 1n))).toBeUndefined();
+    expect(getQueryGeneration(key("batched", 1n))).toBe(generation + 1);
+  });
+
+  it("keys reads by chain and contract", async () => {
+    await fetchQuery(key("scoped"), async () => "anvil");
+    await fetchQuery(
+      contractQueryKey(NETWORKS.base, ADDRESS, "scoped"),
+      async () => "base"
+    );
+
+    invalidateQueries(contractQueryKey(NETWORKS.base, ADDRESS.toLowerCase()));
+
+    expect(isStale(getQueryData(key("scoped"))!)).toBe(false);
+    expect(
+      isStale(getQueryData(contractQueryKey(NETWORKS.base, ADDRESS, "scoped"))!)
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * Query Cache Module
+ *
+ * This module caches contract reads for every component that makes them:
+ * - Entries keyed by chain, contract and call
+ * - Concurrent requests for the same key share one in-flight promise
+ * - Stale entries stay readable so callers can render them while revalidating
+ * - Targeted invalidation by key prefix, e.g. after a confirmed donation
+ * - A generation per key, bumped by invalidation, so reads that started before
+ *   an invalidation are never cached or shared with later callers
+ * - Optional persistence to IndexedDB so a reload renders from cache
+ *
+ * @module queryCache
+ */
+
+import type { NetworkConfig } from "./networks";
+
+/**
+ * Identifies a cached read; parts are matched in order when invalidating
+ */
+export type QueryKey = readonly (string | number | bigint)[];
+
+/**
+ * A cached value and when it was fetched
+ */
+export interface CachedQuery<T> {
+  data: T;
+  /** Milliseconds since the epoch; 0 once invalidated */
+  updatedAt: number;
+}
+
+/**
+ * How long a cached read is served without revalidating
+ */
+export const DEFAULT_STALE_TIME_MS = 30_000;
+
+/**
+ * Persisted entries older than this are dropped when the cache is hydrated
+ */
+const PERSIST_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Persist the cache to IndexedDB, from VITE_QUERY_CACHE_PERSIST
+ */
+export const QUERY_CACHE_PERSIST = import.meta.env.VITE_QUERY_CACHE_PERSIST === "true";
+
+/**
+ * How long the first render waits for persisted entries
+ */
+const HYDRATE_TIMEOUT_MS = 500;
+
+const DB_NAME = "poolr-query-cache";
+const STORE_NAME = "entries";
+
+/**
+ * A shared request, with the generations of the keys its result depends on
+ * when it started
+ */
+interface InFlightQuery {
+  promise: Promise<unknown>;
+  hashes: string[];
+  generations: number[];
+}
+
+const entries = new Map<string, CachedQuery<unknown>>();
+const inFlight = new Map<string, InFlightQuery>();
+const generations = new Map<string, number>();
+let database: Promise<IDBDatabase> | null = null;
+
+const hashKey = (key: QueryKey) => key.map(String).join("|");
+
+const matchesPrefix = (hash: string, prefix: string) =>
+  hash === prefix || hash.startsWith(`${prefix}|`);
+
+const generationOf = (hash: string) => generations.get(hash) ?? 0;
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  (database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    // Another tab holds an older version open; give up rather than wait for it
+    request.onblocked = () => reject(new Error("Query cache database is blocked"));
+  }).catch((error) => {
+    database = null;
+    throw error;
+  }));
+
+const canPersist = () => QUERY_CACHE_PERSIST && typeof indexedDB !== "undefined";
+
+/**
+ * Writes entries to IndexedDB in one transaction. Values, bigints included,
+ * are stored by structured clone.
+ */
+const persistEntries = (hashes: string[]) => {
+  if (!canPersist() || hashes.length === 0) return;
+
+  openDatabase()
+    .then((db) => {
+      const store = db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME);
+      for (const hash of hashes) {
+        const entry = entries.get(hash);
+        if (entry) store.put(entry, hash);
+      }
+    })
+    .catch((error) => console.log(`Error persisting query cache: ${error}`));
+};
+
+/**
+ * Builds the key of a read from a contract on a network
+ *
+ * @param network - The network the contract is deployed on
+ * @param address - The contract address
+ * @param call - Function name and arguments
+ * @returns The query key
+ *
+ * @example
+ * contractQueryKey(network, network.fundingAddress, 'getDonation', 3n);
+ */
+export const contractQueryKey = (
+  network: NetworkConfig,
+  address: string,
+  ...call: (string | number | bigint)[]
+): QueryKey => [network.chain.id, address.toLowerCase(), ...call];
+
+/**
+ * Returns true if a cached entry is older than `staleTime`
+ */
+export const isStale = (entry: CachedQuery<unknown>, staleTime = DEFAULT_STALE_TIME_MS) =>
+  Date.now() - entry.updatedAt >= staleTime;
+
+/**
+ * Reads a cached entry, fresh or stale, without fetching
+ *
+ * @param key - The query key
+ * @returns The entry, or undefined if the key was never fetched
+ */
+export const getQueryData = <T>(key: QueryKey): CachedQuery<T> | undefined =>
+  entries.get(hashKey(key)) as CachedQuery<T> | undefined;
+
+/**
+ * Returns the generation of a key, which every invalidation of it bumps
+ *
+ * Read it before fetching and pass it to {@link setQueryData}, so a value
+ * fetched before an invalidation is not cached.
+ *
+ * @param key - The query key
+ * @returns The current generation
+ */
+export const getQueryGeneration = (key: QueryKey): number => generationOf(hashKey(key));
+
+/**
+ * Stores fetched values, persisting them when persistence is enabled
+ *
+ * Values whose key has been invalidated since the given generation are
+ * dropped, since they were fetched before the change.
+ *
+ * @param values - Keys with the values fetched for them and, optionally, the
+ *   key's generation when the fetch started
+ */
+export const setQueryData = (values: [QueryKey, unknown, number?][]): void => {
+  const updatedAt = Date.now();
+  const hashes: string[] = [];
+  for (const [key, data, generation] of values) {
+    const hash = hashKey(key);
+    if (generation !== undefined && generation !== generationOf(hash)) continue;
+
+    entries.set(hash, { data, updatedAt });
+    hashes.push(hash);
+  }
+  persistEntries(hashes);
+};
+
+/**
+ * Runs a request, sharing it with callers that ask for the same key while it
+ * is in flight
+ *
+ * A request is only shared while none of the keys its result depends on has
+ * been invalidated; later callers start a new one.
+ *
+ * @param key - The query key
+ * @param fetcher - Performs the request
+ * @param dependsOn - Keys whose values the request reads (default: the key itself)
+ * @returns The request's result
+ */
+export const dedupe = <T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  dependsOn: QueryKey[] = [key]
+): Promise<T> => {
+  const hash = hashKey(key);
+  const running = inFlight.get(hash);
+  if (
+    running &&
+    running.hashes.every((dependency, i) => generationOf(dependency) === running.generations[i])
+  ) {
+    return running.promise as Promise<T>;
+  }
+
+  const hashes = dependsOn.map(hashKey);
+  const promise = fetcher().finally(() => {
+    if (inFlight.get(hash)?.promise === promise) inFlight.delete(hash);
+  });
+  inFlight.set(hash, { promise, hashes, generations: hashes.map(generationOf) });
+  return promise;
+};
+
+/**
+ * Returns a cached value, fetching it if it is missing or stale
+ *
+ * @param key - The query key
+ * @param fetcher - Fetches the value
+ * @param staleTime - How long a cached value is served (default: 30 seconds)
+ * @returns The value
+ *
+ * @example
+ * const total = await fetchQuery(contractQueryKey(network, address, 'totalDonations'), () =>
+ *   funding.read.totalDonations()
+ * );
+ */
+export const fetchQuery = async <T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  staleTime = DEFAULT_STALE_TIME_MS
+): Promise<T> => {
+  const cached = getQueryData<T>(key);
+  if (cached && !isStale(cached, staleTime)) return cached.data;
+
+  const generation = getQueryGeneration(key);
+  const data = await dedupe(key, async () => {
+    const data = await fetcher();
+    setQueryData([[key, data, generation]]);
+    return data;
+  });
+
+  // Invalidated while in flight: the value predates the change, so fetch again
+  return getQueryGeneration(key) === generation ? data : fetchQuery(key, fetcher, staleTime);
+};
+
+/**
+ * Marks every entry whose key starts with `prefix` as stale and bumps the
+ * generation of every matching key, cached or in flight
+ *
+ * Entries stay readable, so lists keep rendering them until they are refetched.
+ *
+ * @param prefix - Leading parts of the keys to invalidate
+ *
+ * @example
+ * invalidateQueries(contractQueryKey(network, address, 'getDonation', 3n));
+ */
+export const invalidateQueries = (prefix: QueryKey): void => {
+  const target = hashKey(prefix);
+  const hashes: string[] = [];
+
+  for (const [hash, entry] of entries) {
+    if (matchesPrefix(hash, target)) {
+      entries.set(hash, { ...entry, updatedAt: 0 });
+      hashes.push(hash);
+    }
+  }
+
+  const known = new Set([
+    target,
+    ...entries.keys(),
+    ...[...inFlight.values()].flatMap((query) => query.hashes),
+  ]);
+  for (const hash of known) {
+    if (matchesPrefix(hash, target)) generations.set(hash, generationOf(hash) + 1);
+  }
+  persistEntries(hashes);
+};
+
+/**
+ * Returns true if a key, or a prefix of it, has been invalidated this session
+ */
+const wasInvalidated = (hash: string) =>
+  [...generations.keys()].some((invalidated) => matchesPrefix(hash, invalidated));
+
+/**
+ * Reads every persisted entry into the cache
+ */
+const loadPersistedEntries = async () => {
+  try {
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const request = db
+        .transaction(STORE_NAME, "readwrite")
+        .objectStore(STORE_NAME)
+        .openCursor();
+      const oldest = Date.now() - PERSIST_MAX_AGE_MS;
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve();
+
+        const hash = String(cursor.key);
+        const entry = cursor.value as CachedQuery<unknown>;
+        if (entry.updatedAt < oldest) {
+          cursor.delete();
+        } else if (!entries.has(hash) && !wasInvalidated(hash)) {
+          entries.set(hash, entry);
+        }
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.log(`Error loading query cache: ${error}`);
+  }
+};
+
+/**
+ * Loads persisted entries into the cache, dropping expired ones
+ *
+ * Resolves without loading anything when persistence is disabled or fails,
+ * and after `timeoutMs` at the latest, so it can gate the first render.
+ * Entries that arrive later are still loaded, except for keys fetched or
+ * invalidated in the meantime.
+ *
+ * @param timeoutMs - Longest wait (default: 500 ms)
+ *
+ * @example
+ * hydrateQueryCache().then(() => createRoot(root).render(<App />));
+ */
+export const hydrateQueryCache = async (timeoutMs = HYDRATE_TIMEOUT_MS): Promise<void> => {
+  if (!canPersist()) return;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<void>((resolve) => {
+    timer = setTimeout(() => {
+      console.log(`Error loading query cache: timed out after ${timeoutMs} ms`);
+      resolve();
+    }, timeoutMs);
+  });
+
+  await Promise.race([loadPersistedEntries(), timeout]);
+  clearTimeout(timer);
+};
@@ -0,0 +1,87 @@
+/**
+ * Routes Module
+ *
+ * This module defines the app's client-side URLs:
+ * - Building shareable paths for campaigns, including their network
+ * - Parsing campaign IDs out of route parameters
+ * - Reading the network a link points to
+ *
+ * @module routes
+ */
+
+import { isNetworkId, type NetworkId } from "./networks";
+
+/**
+ * Path of the campaign list
+ */
+export const HOME_PATH = "/";
+
+/**
+ * Route pattern of the campaign detail page
+ */
+export const CAMPAIGN_ROUTE = "/campaign/:id";
+
+/**
+ * Path of the connected account's dashboard
+ */
+export const DASHBOARD_PATH = "/dashboard";
+
+/**
+ * Path of the contract owner's admin console
+ */
+export const ADMIN_PATH = "/admin";
+
+/**
+ * Query parameter naming the network a link points to
+ */
+export const NETWORK_PARAM = "network";
+
+/**
+ * Builds the detail page path for a campaign
+ *
+ * Campaign IDs are only unique per network, so the path names the network.
+ *
+ * @param id - The campaign ID
+ * @param networkId - The network the campaign lives on
+ * @returns The path, e.g. "/campaign/3?network=baseSepolia"
+ */
+export const campaignPath = (id: bigint, networkId: NetworkId): string =>
+  `/campaign/${id}?${NETWORK_PARAM}=${networkId}`;
+
+/**
+ * Builds the absolute URL of a campaign, for sharing
+ *
+ * @param id - The campaign ID
+ * @param networkId - The network the campaign lives on
+ * @returns The URL on the current origin
+ */
+export const campaignUrl = (id: bigint, networkId: NetworkId): string =>
+  new URL(campaignPath(id, networkId), window.location.origin).toString();
+
+/**
+ * Reads the network a link points to
+ *
+ * @param search - The URL's query string
+ * @returns The network ID, or null if the link names no known network
+ *
+ * @example
+ * parseNetworkParam('?network=base'); // 'base'
+ * parseNetworkParam('');              // null
+ */
+export const parseNetworkParam = (search: string): NetworkId | null => {
+  const value = new URLSearchParams(search).get(NETWORK_PARAM);
+  return isNetworkId(value) ? value : null;
+};
+
+/**
+ * Parses a campaign ID from a route parameter
+ *
+ * @param value - The raw parameter
+ * @returns The ID, or null if the parameter is not a non-negative integer
+ *
+ * @example
+ * parseCampaignId('12');  // 12n
+ * parseCampaignId('abc'); // null
+ */
+export const parseCampaignId = (value: string | undefined): bigint | null =>
+  value && /^\d+$/.test(value) ? BigInt(value) : null;
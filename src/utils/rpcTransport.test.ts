@@ -0,0 +1,174 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { HttpRequestError } from "viem";
+import { NETWORKS, type NetworkConfig } from "./networks";
+import { createRpcTransport, getRpcHealth, retryDelay } from "./rpcTransport";
+
+type Reply = { status: number; result?: unknown; error?: unknown; headers?: HeadersInit };
+
+/**
+ * Stubs fetch with a queue of replies per endpoint; the last reply repeats
+ */
+const stubEndpoints = (replies: Record<string, Reply[]>) => {
+  const calls: string[] = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+      const url = typeof input === "string" ? input : input.toString();
+      calls.push(url);
+      const queue = replies[url];
+      const reply = queue.length > 1 ? queue.shift()! : queue[0];
+      const body = JSON.parse(init?.body as string);
+      const respond = ({ id }: { id: number }) => ({
+        jsonrpc: "2.0",
+        id,
+        ...(reply.error ? { error: reply.error } : { result: reply.result }),
+      });
+
+      return new Response(
+        JSON.stringify(Array.isArray(body) ? body.map(respond) : respond(body)),
+        {
+          status: reply.status,
+          headers: { "Content-Type": "application/json", ...reply.headers },
+        }
+      );
+    })
+  );
+  return calls;
+};
+
+const networkWith = (...rpcUrls: string[]): NetworkConfig => ({
+  ...NETWORKS.anvil,
+  rpcUrls,
+});
+
+const blockNumber = (network: NetworkConfig) =>
+  createRpcTransport(network, { retryCount: 2, retryDelayMs: 0 })({
+    chain: network.chain,
+  }).request({ method: "eth_blockNumber" });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("createRpcTransport", () => {
+  it("retries rate-limited requests on the same endpoint", async () => {
+    const network = networkWith("https://retry.example/", "https://retry-backup.example/");
+    const calls = stubEndpoints({
+      "https://retry.example/": [
+        { status: 429, headers: { "Retry-After": "0" } },
+        { status: 200, result: "0x10" },
+      ],
+      "https://retry-backup.example/": [{ status: 200, result: "0x20" }],
+    });
+
+    expect(await blockNumber(network)).toBe("0x10");
+    expect(calls).toEqual(["https://retry.example/", "https://retry.example/"]);
+    expect(getRpcHealth(network.id)).toMatchObject({
+      activeUrl: "https://retry.example/",
+      endpoints: [{ status: "degraded", failures: 0 }, { status: "unknown" }],
+    });
+  });
+
+  it("fails over when an endpoint keeps failing and tries it last afterwards", async () => {
+    const network = networkWith("https://down.example/", "https://up.example/");
+    const calls = stubEndpoints({
+      "https://down.example/": [{ status: 503 }],
+      "https://up.example/": [{ status: 200, result: "0x2a" }],
+    });
+
+    expect(await blockNumber(network)).toBe("0x2a");
+    expect(calls.filter((url) => url === "https://down.example/")).toHaveLength(3);
+    expect(getRpcHealth(network.id)).toMatchObject({
+      activeUrl: "https://up.example/",
+      endpoints: [
+        { status: "down", failures: 1 },
+        { status: "healthy", failures: 0 },
+      ],
+    });
+
+    calls.length = 0;
+    expect(await blockNumber(network)).toBe("0x2a");
+    expect(calls).toEqual(["https://up.example/"]);
+  });
+
+  it("returns JSON-RPC errors without failing over", async () => {
+    const network = networkWith("https://revert.example/", "https://revert-backup.example/");
+    const calls = stubEndpoints({
+      "https://revert.example/": [
+        { status: 200, error: { code: 3, message: "execution reverted" } },
+      ],
+      "https://revert-backup.example/": [{ status: 200, result: "0x1" }],
+    });
+
+    await expect(blockNumber(network)).rejects.toThrow("execution reverted");
+    expect(calls).toEqual(["https://revert.example/"]);
+  });
+
+  it("retries JSON-RPC rate-limit errors", async () => {
+    const network = networkWith("https://throttled.example/");
+    const calls = stubEndpoints({
+      "https://throttled.example/": [
+        { status: 200, error: { code: -32005, message: "request rate limited" } },
+        { status: 200, result: "0x3" },
+      ],
+    });
+
+    expect(await blockNumber(network)).toBe("0x3");
+    expect(calls).toHaveLength(2);
+  });
+
+  it("passes range and result-size limits through, leaving health as is", async () => {
+    const network = networkWith("https://limited.example/", "https://limited-backup.example/");
+    const calls = stubEndpoints({
+      "https://limited.example/": [
+        {
+          status: 200,
+          error: { code: -32005, message: "query returned more than 10000 results" },
+        },
+      ],
+      "https://limited-backup.example/": [{ status: 200, result: "0x1" }],
+    });
+
+    await expect(blockNumber(network)).rejects.toThrow("more than 10000 results");
+    expect(calls).toEqual(["https://limited.example/"]);
+    expect(getRpcHealth(network.id)?.endpoints.map(({ status }) => status)).toEqual([
+      "unknown",
+      "unknown",
+    ]);
+  });
+
+  it("fails with the last error when every endpoint is down", async () => {
+    const network = networkWith("https://first.example/", "https://second.example/");
+    stubEndpoints({
+      "https://first.example/": [{ status: 502 }],
+      "https://second.example/": [{ status: 500 }],
+    });
+
+    await expect(blockNumber(network)).rejects.toBeInstanceOf(HttpRequestError);
+    expect(getRpcHealth(network.id)?.endpoints.map(({ status }) => status)).toEqual([
+      "down",
+      "down",
+    ]);
+  });
+});
+
+describe("retryDelay", () => {
+  it("honours Retry-After up to the maximum delay", () => {
+    const error = new HttpRequestError({
+      url: "https://rpc.example/",
+      status: 429,
+      headers: new Headers({ "Retry-After": "2" }),
+    });
+
+    expect(retryDelay(error, 0, 250, 5000)).toBe(2000);
+    expect(retryDelay(error, 0, 250, 1000)).toBe(1000);
+  });
+
+  it("jitters the exponential backoff below its cap", () => {
+    const random = vi.spyOn(Math, "random").mockReturnValue(0.5);
+
+    expect(retryDelay(new Error("timeout"), 2, 250, 5000)).toBe(500);
+    expect(retryDelay(new Error("timeout"), 10, 250, 5000)).toBe(2500);
+    random.mockRestore();
+  });
+});
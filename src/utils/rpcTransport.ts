@@ -0,0 +1,307 @@
+/**
+ * RPC Transport Module
+ *
+ * This module gives public clients a resilient transport over a network's
+ * ranked RPC endpoints:
+ * - Trying endpoints in order of preference and failing over on transport errors
+ * - Retrying rate-limited (429 or an explicit rate-limit message), 5xx and
+ *   timed-out requests with jittered exponential backoff, honouring Retry-After
+ * - A timeout on every request
+ * - Tracking each endpoint's health so the UI can show which one is in use
+ *
+ * @module rpcTransport
+ */
+
+import {
+  createTransport,
+  http,
+  HttpRequestError,
+  TimeoutError,
+  type EIP1193RequestFn,
+  type Transport,
+} from "viem";
+import type { NetworkConfig, NetworkId } from "./networks";
+
+export type EndpointStatus = "unknown" | "healthy" | "degraded" | "down";
+
+export const ENDPOINT_STATUS_LABELS: Record<EndpointStatus, string> = {
+  unknown: "Connecting",
+  healthy: "Healthy",
+  degraded: "Retrying",
+  down: "Down",
+};
+
+/**
+ * What is known about a single RPC endpoint
+ */
+export interface EndpointHealth {
+  url: string;
+  status: EndpointStatus;
+  /** Duration of the last successful request in milliseconds */
+  latencyMs: number | null;
+  /** Consecutive failed requests */
+  failures: number;
+  lastError: string | null;
+  /** Milliseconds since the epoch until which the endpoint is tried last */
+  cooldownUntil: number;
+}
+
+/**
+ * Health of a network's endpoints, in order of preference
+ */
+export interface RpcHealth {
+  endpoints: EndpointHealth[];
+  /** URL of the endpoint that served the last request */
+  activeUrl: string | null;
+}
+
+/**
+ * Options accepted by {@link createRpcTransport}
+ */
+export interface RpcTransportOptions {
+  /** Timeout of a single request (default: RPC_TIMEOUT_MS) */
+  timeoutMs?: number;
+  /** Retries per endpoint for 429, 5xx and timed-out requests (default: RPC_RETRY_COUNT) */
+  retryCount?: number;
+  /** Base delay of the exponential backoff (default: 250) */
+  retryDelayMs?: number;
+  /** Upper bound for a single delay, Retry-After included (default: 5000) */
+  maxRetryDelayMs?: number;
+  /** How long an endpoint that failed is tried after the others (default: 30000) */
+  cooldownMs?: number;
+}
+
+const env = import.meta.env;
+
+/**
+ * Request timeout, from VITE_RPC_TIMEOUT_MS
+ */
+export const RPC_TIMEOUT_MS = /^\d+$/.test(env.VITE_RPC_TIMEOUT_MS ?? "")
+  ? Number(env.VITE_RPC_TIMEOUT_MS)
+  : 10_000;
+
+/**
+ * Retries per endpoint before failing over, from VITE_RPC_RETRY_COUNT
+ */
+export const RPC_RETRY_COUNT = /^\d+$/.test(env.VITE_RPC_RETRY_COUNT ?? "")
+  ? Number(env.VITE_RPC_RETRY_COUNT)
+  : 2;
+
+/**
+ * Messages RPC providers use when rate limiting a request. Other "limit
+ * exceeded" errors, such as getLogs result-size and range limits, are about
+ * the request and are returned as is.
+ */
+const RATE_LIMIT_PATTERN =
+  /rate.?limit|too many requests|request count exceeded|exceeded .*(capacity|quota)/i;
+
+const health = new Map<NetworkId, RpcHealth>();
+const listeners = new Set<() => void>();
+
+/**
+ * Returns the health of a network's endpoints, or undefined if no client
+ * has been created for it
+ */
+export const getRpcHealth = (networkId: NetworkId): RpcHealth | undefined =>
+  health.get(networkId);
+
+/**
+ * Subscribes to endpoint health changes
+ *
+ * @param listener - Called after every change
+ * @returns A function that unsubscribes
+ */
+export const subscribeRpcHealth = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+/**
+ * Replaces an endpoint's health, keeping snapshots immutable for subscribers
+ */
+const updateEndpoint = (
+  networkId: NetworkId,
+  index: number,
+  patch: Partial<EndpointHealth>,
+  active = false
+) => {
+  const current = health.get(networkId);
+  if (!current) return;
+
+  health.set(networkId, {
+    endpoints: current.endpoints.map((endpoint, i) =>
+      i === index ? { ...endpoint, ...patch } : endpoint
+    ),
+    activeUrl: active ? current.endpoints[index].url : current.activeUrl,
+  });
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Returns true for errors worth retrying on the same endpoint: rate limits,
+ * server errors and timeouts
+ */
+export const isRetryableError = (error: unknown): boolean =>
+  error instanceof TimeoutError ||
+  (error instanceof HttpRequestError &&
+    error.status !== undefined &&
+    (error.status === 429 || error.status >= 500)) ||
+  (error instanceof Error && RATE_LIMIT_PATTERN.test(error.message));
+
+/**
+ * Returns true if the endpoint, rather than the request, failed, so another
+ * endpoint may succeed. Reverts and other JSON-RPC errors are returned as is.
+ */
+const isEndpointError = (error: unknown): boolean =>
+  isRetryableError(error) || error instanceof HttpRequestError;
+
+/**
+ * Delay before a retry: the Retry-After header if the endpoint sent one,
+ * otherwise exponential backoff with full jitter
+ *
+ * @param error - The error that is retried
+ * @param attempt - Retries made so far
+ * @param baseMs - Base delay
+ * @param maxMs - Upper bound
+ * @returns The delay in milliseconds
+ */
+export const retryDelay = (
+  error: unknown,
+  attempt: number,
+  baseMs: number,
+  maxMs: number
+): number => {
+  const retryAfter =
+    error instanceof HttpRequestError ? error.headers?.get("Retry-After") : null;
+  if (retryAfter && /^\d+$/.test(retryAfter)) {
+    return Math.min(Number(retryAfter) * 1000, maxMs);
+  }
+
+  return Math.random() * Math.min(baseMs * 2 ** attempt, maxMs);
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Creates a transport over a network's RPC endpoints
+ *
+ * Each request goes to the most preferred endpoint that is not cooling down
+ * after a failure. Rate-limited, 5xx and timed-out requests are retried with
+ * backoff; when an endpoint keeps failing the next one is tried. Endpoints
+ * that are cooling down are still tried last, so a request only fails when
+ * every endpoint does.
+ *
+ * @param network - The network whose `rpcUrls` to use
+ * @param options - Timeout, retry and cooldown settings
+ * @returns A transport for createPublicClient
+ *
+ * @example
+ * const client = createPublicClient({
+ *   chain: network.chain,
+ *   transport: createRpcTransport(network),
+ * });
+ */
+export const createRpcTransport = (
+  network: NetworkConfig,
+  {
+    timeoutMs = RPC_TIMEOUT_MS,
+    retryCount = RPC_RETRY_COUNT,
+    retryDelayMs = 250,
+    maxRetryDelayMs = 5000,
+    cooldownMs = 30_000,
+  }: RpcTransportOptions = {}
+): Transport => {
+  const urls = network.rpcUrls;
+  if (health.get(network.id)?.endpoints.map(({ url }) => url).join() !== urls.join()) {
+    health.set(network.id, {
+      endpoints: urls.map((url) => ({
+        url,
+        status: "unknown",
+        latencyMs: null,
+        failures: 0,
+        lastError: null,
+        cooldownUntil: 0,
+      })),
+      activeUrl: null,
+    });
+  }
+
+  return ({ chain }) => {
+    // Retries are handled here, so the endpoints themselves never retry
+    const endpoints = urls.map((url) =>
+      http(url, { batch: true, retryCount: 0, timeout: timeoutMs })({ chain, retryCount: 0 })
+    );
+
+    /**
+     * Sends a request to one endpoint, retrying errors worth retrying
+     */
+    const requestEndpoint = async (index: number, args: Parameters<EIP1193RequestFn>[0]) => {
+      for (let attempt = 0; ; attempt++) {
+        const startedAt = Date.now();
+        try {
+          const result = await endpoints[index].request(args);
+          updateEndpoint(
+            network.id,
+            index,
+            {
+              status: attempt > 0 ? "degraded" : "healthy",
+              latencyMs: Date.now() - startedAt,
+              failures: 0,
+              lastError: null,
+              cooldownUntil: 0,
+            },
+            true
+          );
+          return result;
+        } catch (error) {
+          if (!isRetryableError(error) || attempt >= retryCount) throw error;
+
+          updateEndpoint(network.id, index, { status: "degraded" });
+          await wait(retryDelay(error, attempt, retryDelayMs, maxRetryDelayMs));
+        }
+      }
+    };
+
+    const request = (async (args) => {
+      const now = Date.now();
+      const endpointHealth = health.get(network.id)?.endpoints ?? [];
+      // Preference order, with endpoints cooling down after a failure moved last
+      const order = urls
+        .map((_url, index) => index)
+        .sort(
+          (a, b) =>
+            Number((endpointHealth[a]?.cooldownUntil ?? 0) > now) -
+            Number((endpointHealth[b]?.cooldownUntil ?? 0) > now)
+        );
+
+      let lastError: unknown;
+      for (const index of order) {
+        try {
+          return await requestEndpoint(index, args);
+        } catch (error) {
+          if (!isEndpointError(error)) throw error;
+
+          lastError = error;
+          const message = error instanceof Error ? error.message.split("\n")[0] : String(error);
+          updateEndpoint(network.id, index, {
+            status: "down",
+            failures: (health.get(network.id)?.endpoints[index].failures ?? 0) + 1,
+            lastError: message,
+            cooldownUntil: Date.now() + cooldownMs,
+          });
+          console.log(`Error from RPC endpoint ${urls[index]}: ${message}`);
+        }
+      }
+      throw lastError;
+    }) as EIP1193RequestFn;
+
+    return createTransport({
+      key: "resilient",
+      name: "Resilient RPC",
+      type: "resilient",
+      request,
+      retryCount: 0,
+      timeout: timeoutMs,
+    });
+  };
+};
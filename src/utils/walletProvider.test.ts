@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { createMockProvider, MOCK_ACCOUNT } from "../test/mockProvider";
+import {
+  checkPaymasterService,
+  getWalletCapabilities,
+  NO_CAPABILITIES,
+  selectTransactionMode,
+} from "./walletProvider";
+
+describe("getWalletCapabilities", () => {
+  it("reads paymaster and atomic batch support for the chain", async () => {
+    const provider = createMockProvider({
+      capabilities: {
+        "0x14a34": {
+          paymasterService: { supported: true },
+          atomicBatch: { supported: true },
+        },
+      },
+    });
+
+    expect(await getWalletCapabilities(provider, MOCK_ACCOUNT, 84532)).toEqual({
+      sendCalls: true,
+      paymasterService: true,
+      atomicBatch: true,
+    });
+    expect(provider.requestsFor("wallet_getCapabilities")[0].params).toEqual([
+      MOCK_ACCOUNT,
+      ["0x14a34"],
+    ]);
+  });
+
+  it("applies capabilities reported under 0x0 to every chain", async () => {
+    const provider = createMockProvider({
+      capabilities: {
+        "0x0": { atomic: { status: "ready" } },
+        "0x14a34": { paymasterService: { supported: false } },
+      },
+    });
+
+    expect(await getWalletCapabilities(provider, MOCK_ACCOUNT, 84532)).toEqual({
+      sendCalls: true,
+      paymasterService: false,
+      atomicBatch: true,
+    });
+  });
+
+  it("ignores capabilities of other chains", async () => {
+    const provider = createMockProvider({
+      capabilities: { "0x2105": { paymasterService: { supported: true } } },
+    });
+
+    const capabilities = await getWalletCapabilities(provider, MOCK_ACCOUNT, 84532);
+
+    expect(capabilities.paymasterService).toBe(false);
+  });
+
+  it("reports nothing when the wallet does not implement EIP-5792", async () => {
+    const provider = createMockProvider({ capabilities: null });
+
+    expect(await getWalletCapabilities(provider, MOCK_ACCOUNT, 84532)).toBe(
+      NO_CAPABILITIES
+    );
+    expect(await getWalletCapabilities(null, MOCK_ACCOUNT, 84532)).toBe(
+      NO_CAPABILITIES
+    );
+  });
+});
+
+describe("selectTransactionMode", () => {
+  const sponsored = { sendCalls: true, paymasterService: true, atomicBatch: true };
+
+  it("sponsors atomic, paymaster-capable wallets when a paymaster is configured", () => {
+    expect(selectTransactionMode(sponsored, "https://paymaster.example")).toBe(
+      "sponsored"
+    );
+  });
+
+  it("falls back to user-paid transactions otherwise", () => {
+    expect(selectTransactionMode(sponsored, "")).toBe("sendTransaction");
+    expect(
+      selectTransactionMode(
+        { ...sponsored, paymasterService: false },
+        "https://paymaster.example"
+      )
+    ).toBe("sendTransaction");
+  });
+
+  it("does not sponsor wallets that cannot execute a batch atomically", () => {
+    expect(
+      selectTransactionMode(
+        { ...sponsored, atomicBatch: false },
+        "https://paymaster.example"
+      )
+    ).toBe("sendTransaction");
+  });
+});
+
+describe("checkPaymasterService", () => {
+  it("rejects missing or malformed URLs", async () => {
+    expect(await checkPaymasterService("")).toBe(false);
+    expect(await checkPaymasterService("not a url")).toBe(false);
+  });
+
+  it("checks the wallet when a provider is given", async () => {
+    const supported = createMockProvider({
+      capabilities: { "0x14a34": { paymasterService: { supported: true } } },
+    });
+    const unsupported = createMockProvider({ capabilities: {} });
+
+    expect(await checkPaymasterService("https://paymaster.example", supported)).toBe(true);
+    expect(await checkPaymasterService("https://paymaster.example", unsupported)).toBe(
+      false
+    );
+  });
+});
@@ -2,11 +2,34 @@
  * Wallet Provider Module
  *
  * This module handles wallet capability detection and validation,
- * specifically for EIP-5792 features like paymaster support.
+ * specifically for EIP-5792 features like paymaster support, and picks
+ * how transactions are sent based on what the wallet supports.
  *
  * @module walletProvider
  */
 
+import { numberToHex, type Address } from "viem";
+import type { TransactionMode } from "./paymentService";
+import type { RequestProvider } from "./walletRpc";
+
+/**
+ * What the connected wallet supports on a given chain
+ */
+export interface WalletCapabilities {
+  /** EIP-5792 wallet_sendCalls is available */
+  sendCalls: boolean;
+  /** ERC-7677 paymaster sponsorship is available */
+  paymasterService: boolean;
+  /** Calls in a batch are executed atomically */
+  atomicBatch: boolean;
+}
+
+export const NO_CAPABILITIES: WalletCapabilities = {
+  sendCalls: false,
+  paymasterService: false,
+  atomicBatch: false,
+};
+
 /**
  * Checks if the wallet provider supports EIP-5792 wallet_sendCalls with paymaster
  *
@@ -23,7 +46,7 @@
  * }
  */
 export const isWalletSendCallsSupported = async (
-  provider: any
+  provider: RequestProvider | null
 ): Promise<boolean> => {
   // Basic provider validation
   if (!provider || typeof provider.request !== "function") return false;
@@ -37,7 +60,7 @@ export const isWalletSendCallsSupported = async (
     // Check if any chain supports paymaster service
     if (capabilities) {
       for (const chainId in capabilities) {
-        if (capabilities[chainId]?.paymasterService?.supported) {
+        if (capabilities[chainId].paymasterService?.supported) {
           return true;
         }
       }
@@ -45,11 +68,83 @@ export const isWalletSendCallsSupported = async (
     return false;
   } catch (error) {
     console.log(`Error checking wallet capabilities: ${error}`);
-    // Fallback: check if provider has request method
-    return typeof provider.request === "function";
+    return false;
   }
 };
 
+/**
+ * Determines which EIP-5792 features the wallet supports on a chain
+ *
+ * Wallets that do not implement wallet_getCapabilities are treated as
+ * supporting none of them.
+ *
+ * @param provider - The wallet provider instance
+ * @param address - The connected account
+ * @param chainId - The chain to check
+ * @returns Support for wallet_sendCalls, paymaster sponsorship and atomic batching
+ *
+ * @example
+ * const capabilities = await getWalletCapabilities(provider, account, 84532);
+ * if (!capabilities.paymasterService) {
+ *   console.log('Transactions will be paid by the user');
+ * }
+ */
+export const getWalletCapabilities = async (
+  provider: RequestProvider | null,
+  address: Address,
+  chainId: number
+): Promise<WalletCapabilities> => {
+  if (!provider || typeof provider.request !== "function") return NO_CAPABILITIES;
+
+  const chainHex = numberToHex(chainId);
+
+  try {
+    const capabilities = await provider.request({
+      method: "wallet_getCapabilities",
+      params: [address, [chainHex]],
+    });
+
+    // Capabilities under "0x0" apply to every chain
+    const chain = {
+      ...capabilities?.["0x0"],
+      ...(capabilities?.[chainHex] ?? capabilities?.[String(chainId)]),
+    };
+
+    return {
+      sendCalls: true,
+      paymasterService: chain.paymasterService?.supported === true,
+      atomicBatch:
+        chain.atomicBatch?.supported === true ||
+        chain.atomic?.status === "supported" ||
+        chain.atomic?.status === "ready",
+    };
+  } catch (error) {
+    console.log(`Error checking wallet capabilities: ${error}`);
+    return NO_CAPABILITIES;
+  }
+};
+
+/**
+ * Picks how transactions are sent given the wallet's capabilities
+ *
+ * Sponsored batches require atomic execution, so wallets that cannot run a
+ * batch all-or-nothing send user-paid transactions instead.
+ *
+ * @param capabilities - Capabilities of the wallet on the active chain
+ * @param paymasterUrl - The configured paymaster URL for the chain
+ * @returns "sponsored" when gas can be sponsored, "sendTransaction" otherwise
+ */
+export const selectTransactionMode = (
+  capabilities: WalletCapabilities,
+  paymasterUrl: string
+): TransactionMode =>
+  capabilities.sendCalls &&
+  capabilities.paymasterService &&
+  capabilities.atomicBatch &&
+  paymasterUrl
+    ? "sponsored"
+    : "sendTransaction";
+
 /**
  * Validates paymaster service configuration and wallet compatibility
  *
@@ -72,7 +167,7 @@ export const isWalletSendCallsSupported = async (
  */
 export const checkPaymasterService = async (
   paymasterUrl: string,
-  provider?: any
+  provider?: RequestProvider | null
 ): Promise<boolean> => {
   // Validate paymaster URL is provided
   if (!paymasterUrl) return false;
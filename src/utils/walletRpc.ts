@@ -0,0 +1,178 @@
+/**
+ * Wallet RPC Module
+ *
+ * This module types the wallet JSON-RPC methods the app calls:
+ * - EIP-1193 account, chain and transaction methods
+ * - EIP-5792 wallet_sendCalls, wallet_getCallsStatus and wallet_getCapabilities
+ * - A provider interface whose `request` checks params and infers results per method
+ *
+ * @module walletRpc
+ */
+
+import type { Address, Hex } from "viem";
+
+/**
+ * A call inside a wallet_sendCalls batch, as sent over RPC
+ */
+export interface RpcCall {
+  to: Address;
+  data: Hex;
+  value: Hex;
+}
+
+/**
+ * Parameters of EIP-5792 wallet_sendCalls
+ */
+export interface SendCallsParams {
+  version: string;
+  chainId: Hex;
+  from: Address;
+  /** Version 2.0.0: the wallet must run every call or none, or refuse the batch */
+  atomicRequired?: boolean;
+  calls: RpcCall[];
+  capabilities?: {
+    /** ERC-7677 paymaster that sponsors the batch */
+    paymasterService?: { url: string };
+  };
+}
+
+/**
+ * Receipt entry returned by wallet_getCallsStatus
+ */
+export interface CallsReceipt {
+  transactionHash: Hex;
+  blockHash?: Hex;
+  blockNumber?: Hex;
+  gasUsed?: string;
+  status?: string;
+  logs?: { address: Address; data: Hex; topics: [Hex, ...Hex[]] | [] }[];
+}
+
+/**
+ * Status object returned by wallet_getCallsStatus
+ *
+ * Wallets on version 1.0 of EIP-5792 report string statuses ("PENDING",
+ * "CONFIRMED", "FAILED"), newer ones report numeric codes (100, 200, 4xx/5xx).
+ */
+export interface CallsStatus {
+  status: string | number;
+  receipts?: CallsReceipt[];
+  error?: string;
+}
+
+/**
+ * Capabilities a wallet reports for one chain in wallet_getCapabilities
+ *
+ * Older wallets report `atomicBatch`, newer ones report `atomic` with a status.
+ */
+export interface ChainCapabilities {
+  paymasterService?: { supported?: boolean };
+  atomicBatch?: { supported?: boolean };
+  atomic?: { status?: "supported" | "ready" | "unsupported" };
+}
+
+/**
+ * Parameters of wallet_addEthereumChain (EIP-3085)
+ */
+export interface AddEthereumChainParams {
+  chainId: Hex;
+  chainName: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  rpcUrls: string[];
+  blockExplorerUrls?: string[];
+}
+
+/**
+ * Params and result of every wallet method the app calls
+ */
+export interface WalletRpcSchema {
+  eth_requestAccounts: { params: undefined; result: Address[] };
+  eth_accounts: { params: undefined; result: Address[] };
+  eth_chainId: { params: undefined; result: Hex };
+  wallet_switchEthereumChain: { params: [{ chainId: Hex }]; result: null };
+  wallet_addEthereumChain: { params: [AddEthereumChainParams]; result: null };
+  eth_sendTransaction: {
+    params: [{ from: Address; to: Address; data: Hex; value: Hex }];
+    result: Hex;
+  };
+  wallet_sendCalls: {
+    params: [SendCallsParams];
+    /** Version 1.0 wallets return a bare batch ID, newer ones `{ id }` */
+    result: string | { id: string };
+  };
+  wallet_getCallsStatus: { params: [string]; result: CallsStatus };
+  wallet_getCapabilities: {
+    params: [Address, Hex[]?] | undefined;
+    /** Capabilities keyed by hex chain ID; "0x0" applies to every chain */
+    result: Record<string, ChainCapabilities> | null;
+  };
+}
+
+export type WalletRpcMethod = keyof WalletRpcSchema;
+
+/**
+ * Request arguments for a method; `params` is omitted for methods without any
+ */
+export type WalletRequestArgs<M extends WalletRpcMethod> =
+  WalletRpcSchema[M]["params"] extends undefined
+    ? { method: M; params?: undefined }
+    : undefined extends WalletRpcSchema[M]["params"]
+      ? { method: M; params?: WalletRpcSchema[M]["params"] }
+      : { method: M; params: WalletRpcSchema[M]["params"] };
+
+/**
+ * EIP-1193 provider shape used by the app, typed per method
+ *
+ * @example
+ * const accounts = await provider.request({ method: 'eth_accounts' }); // Address[]
+ */
+export interface RequestProvider {
+  request: <M extends WalletRpcMethod>(
+    args: WalletRequestArgs<M>
+  ) => Promise<WalletRpcSchema[M]["result"]>;
+}
+
+/**
+ * Payloads of the EIP-1193 events the app listens to
+ */
+export interface WalletEventMap {
+  accountsChanged: Address[];
+  chainChanged: Hex;
+  disconnect: unknown;
+}
+
+/**
+ * EIP-1193 provider that emits accountsChanged, chainChanged and disconnect
+ */
+export interface EventfulProvider extends RequestProvider {
+  on?: <E extends keyof WalletEventMap>(
+    event: E,
+    listener: (payload: WalletEventMap[E]) => void
+  ) => void;
+  removeListener?: <E extends keyof WalletEventMap>(
+    event: E,
+    listener: (payload: WalletEventMap[E]) => void
+  ) => void;
+}
+
+/**
+ * Error thrown by a provider request, carrying an EIP-1193 error code
+ */
+export interface ProviderRpcError extends Error {
+  code: number;
+  data?: unknown;
+}
+
+/**
+ * Checks whether an error is a provider error with the given code
+ *
+ * @param error - The caught error
+ * @param code - EIP-1193 code, e.g. 4001 (user rejected) or 4902 (unknown chain)
+ */
+export const isProviderError = (
+  error: unknown,
+  code: number
+): error is ProviderRpcError =>
+  typeof error === "object" &&
+  error !== null &&
+  (error as { code?: unknown }).code === code;
@@ -0,0 +1,164 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createMockProvider,
+  MOCK_ACCOUNT,
+  rpcError,
+  type MockProvider,
+} from "../test/mockProvider";
+import { NETWORKS } from "./networks";
+
+const sdk = vi.hoisted(() => ({
+  provider: null as unknown,
+  disconnect: vi.fn(async () => {}),
+}));
+
+vi.mock("@base-org/account", () => ({
+  createBaseAccountSDK: () => ({
+    getProvider: () =>
+      sdk.provider && Object.assign(sdk.provider, { disconnect: sdk.disconnect }),
+  }),
+}));
+
+const {
+  connectWallet,
+  disconnectWallet,
+  restoreSession,
+  subscribeToWalletEvents,
+  switchToChain,
+} = await import("./walletService");
+
+let provider: MockProvider;
+
+beforeEach(() => {
+  provider = createMockProvider();
+  sdk.provider = provider;
+  sdk.disconnect.mockClear();
+});
+
+describe("connectWallet", () => {
+  it("requests accounts and returns the first one", async () => {
+    const session = await connectWallet();
+
+    expect(session.address).toBe(MOCK_ACCOUNT);
+    expect(session.provider).toBe(provider);
+    expect(provider.requestsFor("eth_requestAccounts")).toHaveLength(1);
+  });
+
+  it("throws when the wallet returns no account", async () => {
+    provider.state.accounts = [];
+
+    await expect(connectWallet()).rejects.toThrow("No account returned");
+  });
+
+  it("propagates a user rejection", async () => {
+    provider.failNext("eth_requestAccounts", rpcError(4001, "User rejected"));
+
+    await expect(connectWallet()).rejects.toThrow("User rejected");
+  });
+});
+
+describe("restoreSession", () => {
+  it("does nothing without a previous connection", async () => {
+    provider.state.connected = true;
+
+    expect(await restoreSession()).toBeNull();
+    expect(provider.requests).toHaveLength(0);
+  });
+
+  it("restores the session silently after a connection", async () => {
+    await connectWallet();
+
+    const session = await restoreSession();
+
+    expect(session?.address).toBe(MOCK_ACCOUNT);
+    expect(session?.chainId).toBe(84532);
+    expect(provider.requestsFor("eth_accounts")).toHaveLength(1);
+  });
+
+  it("forgets the session once the wallet no longer exposes accounts", async () => {
+    await connectWallet();
+    provider.state.connected = false;
+
+    expect(await restoreSession()).toBeNull();
+
+    provider.state.connected = true;
+    expect(await restoreSession()).toBeNull();
+  });
+});
+
+describe("disconnectWallet", () => {
+  it("disconnects the provider and forgets the session", async () => {
+    const session = await connectWallet();
+
+    expect(await disconnectWallet(session.sdk)).toBe(true);
+    expect(sdk.disconnect).toHaveBeenCalledOnce();
+    expect(await restoreSession()).toBeNull();
+  });
+});
+
+describe("switchToChain", () => {
+  it("does not switch when already on the target chain", async () => {
+    expect(await switchToChain(provider, NETWORKS.baseSepolia)).toBe(true);
+    expect(provider.requestsFor("wallet_switchEthereumChain")).toHaveLength(0);
+  });
+
+  it("switches to a chain the wallet knows", async () => {
+    provider.state.knownChains.add(NETWORKS.base.chain.id);
+
+    expect(await switchToChain(provider, NETWORKS.base)).toBe(true);
+    expect(provider.state.chainId).toBe(NETWORKS.base.chain.id);
+    expect(provider.requestsFor("wallet_addEthereumChain")).toHaveLength(0);
+  });
+
+  it("adds the chain when the wallet answers 4902", async () => {
+    expect(await switchToChain(provider, NETWORKS.anvil)).toBe(true);
+
+    const [added] = provider.requestsFor("wallet_addEthereumChain");
+    expect(added.params).toEqual([
+      expect.objectContaining({
+        chainId: "0x7a69",
+        chainName: NETWORKS.anvil.name,
+        rpcUrls: NETWORKS.anvil.rpcUrls,
+      }),
+    ]);
+    expect(provider.state.chainId).toBe(NETWORKS.anvil.chain.id);
+  });
+
+  it("returns false when adding the chain fails", async () => {
+    provider.failNext("wallet_addEthereumChain", rpcError(4001, "User rejected"));
+
+    expect(await switchToChain(provider, NETWORKS.anvil)).toBe(false);
+  });
+
+  it("returns false on other switch errors", async () => {
+    provider.failNext("wallet_switchEthereumChain", rpcError(4001, "User rejected"));
+
+    expect(await switchToChain(provider, NETWORKS.base)).toBe(false);
+    expect(provider.requestsFor("wallet_addEthereumChain")).toHaveLength(0);
+  });
+
+  it("returns false without a provider", async () => {
+    expect(await switchToChain(null, NETWORKS.base)).toBe(false);
+  });
+});
+
+describe("subscribeToWalletEvents", () => {
+  it("forwards events until unsubscribed", () => {
+    const handlers = {
+      onAccountsChanged: vi.fn(),
+      onChainChanged: vi.fn(),
+      onDisconnect: vi.fn(),
+    };
+
+    const unsubscribe = subscribeToWalletEvents(provider, handlers);
+    provider.emit("accountsChanged", [MOCK_ACCOUNT]);
+    provider.emit("chainChanged", "0x2105");
+    provider.emit("disconnect", undefined);
+    unsubscribe();
+    provider.emit("chainChanged", "0x1");
+
+    expect(handlers.onAccountsChanged).toHaveBeenCalledWith([MOCK_ACCOUNT]);
+    expect(handlers.onChainChanged).toHaveBeenCalledExactlyOnceWith(8453);
+    expect(handlers.onDisconnect).toHaveBeenCalledOnce();
+  });
+});
@@ -1,37 +1,106 @@
 /**
  * Wallet Services Module
  *
- * This module manages wallet connection, network switching, and Base Account SDK
- * initialization. It provides a singleton pattern for SDK instance management.
+ * This module manages wallet connection, session restore, provider events,
+ * network switching, and Base Account SDK initialization. It provides a
+ * singleton pattern for SDK instance management.
  *
  * @module walletServices
  */
 
-import { createBaseAccountSDK, base } from "@base-org/account";
-import { baseSepolia } from "viem/chains";
+import { createBaseAccountSDK } from "@base-org/account";
+import { hexToNumber, numberToHex, type Address } from "viem";
+import { NETWORKS, type NetworkConfig } from "./networks";
+import {
+  isProviderError,
+  type EventfulProvider,
+  type RequestProvider,
+  type WalletEventMap,
+} from "./walletRpc";
+
+export type { EventfulProvider };
+
+/**
+ * The Base Account SDK instance
+ */
+export type BaseAccountSDK = ReturnType<typeof createBaseAccountSDK>;
+
+/**
+ * A connected wallet session
+ */
+export interface WalletSession {
+  address: Address;
+  provider: EventfulProvider;
+  sdk: BaseAccountSDK;
+}
+
+/**
+ * A session restored on load, with the chain the wallet is currently on
+ */
+export interface RestoredSession extends WalletSession {
+  chainId: number;
+}
+
+/**
+ * Callbacks invoked by {@link subscribeToWalletEvents}
+ */
+export interface WalletEventHandlers {
+  onAccountsChanged?: (accounts: Address[]) => void;
+  onChainChanged?: (chainId: number) => void;
+  onDisconnect?: () => void;
+}
+
+/**
+ * Local storage key marking that the user connected and has not disconnected
+ */
+const SESSION_KEY = "poolr:wallet-session";
+
+/**
+ * Remembers or forgets that the user has an active session
+ */
+const setSessionFlag = (active: boolean) => {
+  try {
+    if (active) {
+      localStorage.setItem(SESSION_KEY, "1");
+    } else {
+      localStorage.removeItem(SESSION_KEY);
+    }
+  } catch (error) {
+    console.log(`Error persisting wallet session: ${error}`);
+  }
+};
+
+/**
+ * Forgets the session so it is not restored on the next load
+ *
+ * @example
+ * provider.on('disconnect', forgetSession);
+ */
+export const forgetSession = () => setSessionFlag(false);
 
 /**
  * Singleton instance of the Base Account SDK
  */
-let sdkInstance: any = null;
+let sdkInstance: BaseAccountSDK | null = null;
 
 /**
  * Gets or creates the Base Account SDK instance (Singleton pattern)
  *
- * Initializes the SDK with app metadata and supported chain IDs.
+ * Initializes the SDK with app metadata and the chain IDs of every network
+ * in the registry.
  * The SDK instance is cached to avoid multiple initializations.
  *
  * @example
  * const sdk = getBaseAccountSDK();
  * const provider = sdk.getProvider();
  */
-export const getBaseAccountSDK = (): any => {
+export const getBaseAccountSDK = (): BaseAccountSDK | null => {
   if (!sdkInstance) {
     try {
       sdkInstance = createBaseAccountSDK({
         appName: "Funding Paymaster Demo",
         appLogoUrl: "https://base.org/logo.png",
-        appChainIds: [base.constants.CHAIN_IDS.baseSepolia],
+        appChainIds: Object.values(NETWORKS).map((network) => network.chain.id),
       });
     } catch (error) {
       console.log(`Error setting up base account sdk: ${error}`);
@@ -58,6 +127,13 @@ export const isWalletAvailable = (): boolean => {
   }
 };
 
+/**
+ * Gets the SDK's EIP-1193 provider, typed with the methods the app calls
+ */
+const getProvider = (sdk: BaseAccountSDK | null): EventfulProvider | null =>
+  // The SDK types `request` loosely; its RPC methods follow the typed schema
+  (sdk?.getProvider() as EventfulProvider | undefined) ?? null;
+
 /**
  * Connects to the user's Base Account wallet
  *
@@ -68,18 +144,14 @@ export const isWalletAvailable = (): boolean => {
  * const { address, provider, sdk } = await connectWallet();
  * console.log('Connected to:', address);
  */
-export const connectWallet = async (): Promise<{
-  address: string;
-  provider: any;
-  sdk: any;
-}> => {
+export const connectWallet = async (): Promise<WalletSession> => {
   // Get SDK instance
   const sdk = getBaseAccountSDK();
 
   // Get provider from SDK
-  const provider = sdk.getProvider();
+  const provider = getProvider(sdk);
 
-  if (!provider) {
+  if (!sdk || !provider) {
     throw new Error("No Provider available from base account sdk");
   }
 
@@ -90,6 +162,8 @@ export const connectWallet = async (): Promise<{
     throw new Error("No account returned");
   }
 
+  setSessionFlag(true);
+
   return {
     address: accounts[0],
     provider,
@@ -98,22 +172,108 @@ export const connectWallet = async (): Promise<{
 };
 
 /**
- * Switches the wallet to Base Sepolia network
+ * Silently restores a previous wallet session
+ *
+ * Uses eth_accounts and eth_chainId, which never prompt the user, and only
+ * runs if the user connected before and did not disconnect. The wallet is
+ * left on whatever chain it is on.
+ *
+ * @returns The restored session and the wallet's chain, or null if there is none
  *
- * Checks the current network and switches to Base Sepolia if needed.
+ * @example
+ * const session = await restoreSession();
+ * if (session) {
+ *   console.log('Welcome back', session.address);
+ * }
+ */
+export const restoreSession = async (): Promise<RestoredSession | null> => {
+  try {
+    if (localStorage.getItem(SESSION_KEY) !== "1") {
+      return null;
+    }
+
+    const sdk = getBaseAccountSDK();
+    const provider = getProvider(sdk);
+    if (!sdk || !provider) {
+      return null;
+    }
+
+    const accounts = await provider.request({ method: "eth_accounts" });
+    if (!accounts || accounts.length === 0) {
+      setSessionFlag(false);
+      return null;
+    }
+
+    const chainId = await provider.request({ method: "eth_chainId" });
+
+    return { address: accounts[0], provider, sdk, chainId: hexToNumber(chainId) };
+  } catch (error) {
+    console.log(`Error restoring wallet session: ${error}`);
+    return null;
+  }
+};
+
+/**
+ * Subscribes to account, chain and disconnect events from the provider
+ *
+ * @param provider - The wallet provider instance
+ * @param handlers - Callbacks for each event
+ * @returns A function that removes the listeners
+ *
+ * @example
+ * const unsubscribe = subscribeToWalletEvents(provider, {
+ *   onAccountsChanged: (accounts) => console.log('Accounts', accounts),
+ *   onChainChanged: (chainId) => console.log('Chain', chainId),
+ * });
+ */
+export const subscribeToWalletEvents = (
+  provider: EventfulProvider,
+  handlers: WalletEventHandlers
+): (() => void) => {
+  if (typeof provider.on !== "function") {
+    return () => {};
+  }
+
+  const onAccountsChanged = (accounts: WalletEventMap["accountsChanged"]) =>
+    handlers.onAccountsChanged?.(accounts ?? []);
+  const onChainChanged = (chainId: WalletEventMap["chainChanged"]) =>
+    handlers.onChainChanged?.(Number(chainId));
+  const onDisconnect = () => handlers.onDisconnect?.();
+
+  provider.on("accountsChanged", onAccountsChanged);
+  provider.on("chainChanged", onChainChanged);
+  provider.on("disconnect", onDisconnect);
+
+  return () => {
+    provider.removeListener?.("accountsChanged", onAccountsChanged);
+    provider.removeListener?.("chainChanged", onChainChanged);
+    provider.removeListener?.("disconnect", onDisconnect);
+  };
+};
+
+/**
+ * Switches the wallet to the given network
+ *
+ * Checks the current network and switches to the target chain if needed.
  * If the network is not added to the wallet, it will be added automatically.
  *
  * @param provider - The wallet provider instance
+ * @param network - The network to switch to
  * @returns True if switch is successful, false otherwise
  * @throws If provider is not available
  *
  * @example
- * const success = await switchToBaseSepolia(provider);
+ * const success = await switchToChain(provider, NETWORKS.baseSepolia);
  * if (success) {
  *   console.log('Switched to Base Sepolia');
  * }
  */
-export const switchToBaseSepolia = async (provider: any): Promise<boolean> => {
+export const switchToChain = async (
+  provider: RequestProvider | null,
+  network: NetworkConfig
+): Promise<boolean> => {
+  const targetChainId = network.chain.id;
+
   try {
     if (!provider) {
       throw new Error("No Provider Available");
@@ -121,40 +281,35 @@ export const switchToBaseSepolia = async (provider: any): Promise<boolean> => {
 
     // Get current chain ID
     const chainId = await provider.request({ method: "eth_chainId" });
-    const currentChainId = parseInt(chainId, 16);
-    const targetChainId = baseSepolia.id;
+    const currentChainId = hexToNumber(chainId);
 
-    // Already on Base Sepolia
+    // Already on the target network
     if (currentChainId === targetChainId) {
       return true;
     }
 
-    // Attempt to switch to Base Sepolia
+    // Attempt to switch to the target network
     await provider.request({
       method: "wallet_switchEthereumChain",
-      params: [{ chainId: `0x${targetChainId.toString(16)}` }],
+      params: [{ chainId: numberToHex(targetChainId) }],
     });
     return true;
   } catch (error) {
     // Error code 4902: Chain not added to wallet
-    if ((error as any).code === 4902) {
+    if (provider && isProviderError(error, 4902)) {
       try {
-        const rpcUrl = import.meta.env.VITE_RPC_URL;
-
-        // Add Base Sepolia network to wallet
+        // Add the network to the wallet
         await provider.request({
           method: "wallet_addEthereumChain",
           params: [
             {
-              chainId: `0x${baseSepolia.id.toString(16)}`,
-              chainName: "Base Sepolia",
-              nativeCurrency: {
-                name: "ETH",
-                symbol: "ETH",
-                decimals: 18,
-              },
-              rpcUrls: [rpcUrl],
-              blockExplorerUrls: ["https://sepolia.basescan.org"],
+              chainId: numberToHex(targetChainId),
+              chainName: network.name,
+              nativeCurrency: network.chain.nativeCurrency,
+              rpcUrls: network.rpcUrls,
+              ...(network.explorerUrl && {
+                blockExplorerUrls: [network.explorerUrl],
+              }),
             },
           ],
         });
@@ -179,10 +334,14 @@ export const switchToBaseSepolia = async (provider: any): Promise<boolean> => {
  * await disconnectWallet(sdk);
  * console.log('Wallet disconnected');
  */
-export const disconnectWallet = async (sdk: any): Promise<boolean> => {
+export const disconnectWallet = async (
+  sdk: BaseAccountSDK | null
+): Promise<boolean> => {
+  setSessionFlag(false);
+
   try {
-    if (sdk && typeof sdk.disconnect === "function") {
-      await sdk.disconnect();
+    if (sdk) {
+      await sdk.getProvider().disconnect();
     }
     return true;
   } catch (error) {